@@ -4,18 +4,40 @@ import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { 
   Timeline, 
   usePlaybackStore,
-  useKeyboardShortcuts 
+  useHistoryStore,
+  pickHistorySlices,
+  useKeyboardShortcuts,
+  HistoryPatch,
+  HistorySnapshot,
+  TimelineTrackFlag
 } from './components/advanced-timeline';
-import { APP_NAME, MAX_VIDEO_SIZE_MB, LOOM_APP_ID } from './constants';
-import { generateId, getYouTubeId, getLoomId, parseTime, formatTime, base64ToArrayBuffer, audioBufferToWav } from './utils';
-import { sendMessageToGemini, uploadMedia, generateVideoTimeline, detectSilenceAndInactivity, validateAndRepairTimeline } from './services/geminiService';
-import { polishClipTranscriptsWithClaude } from './services/claudeService';
-import { fetchVoices, generateSpeech, generateSpeechWithTimestamps, AlignmentData } from './services/elevenLabsService';
-import { renderVideo } from './services/ffmpegService'; // Now exports renderVideo (Canvas Recorder)
+import { APP_NAME, MAX_VIDEO_SIZE_MB, LOOM_APP_ID, DEFAULT_EXPORT_PRESET_ID, DEFAULT_CAPTION_STYLE, DEFAULT_SILENCE_DETECTION, DEFAULT_AUDIO_PROCESSING, DEFAULT_LLM_MODELS, DEFAULT_SEQUENCE_NAME } from './constants';
+import { generateId, getYouTubeId, getLoomId, parseTime, formatTime, audioBufferToWav } from './utils';
+import { sendChatMessage, uploadMedia, detectSilenceAndInactivity, proposeReframeFocusPoints } from './services/geminiService';
+import { polishClipTranscripts } from './services/polishService';
+import { analyzeVideoInWindows, validateTimelineInWindows } from './services/chunkedAnalysisService';
+import { setTaskModels } from './services/llmService';
+import { fetchVoices, generateSpeech, cloneVoice, AlignmentData } from './services/elevenLabsService';
+import { assembleVoiceover, markSegmentStored } from './services/voiceoverService';
+import { findPreviewMixer, getClipAudioMix, getClipGains, getPreviewMixer, getSequenceSpeechRanges, MixGains, reloadWithoutCors, usesOriginalAudio } from './services/audioMixService';
+import { mergeSpeakerLabels, resolveSpeakers, updateSpeaker } from './services/speakerService';
+import { extractCloneSamples, MIN_CLONE_SECONDS, selectCloneRanges, totalRangeSeconds } from './services/voiceCloneService';
+import { renderVideo, getExportPreset, getExportFileExtension } from './services/ffmpegService'; // Offline WebCodecs renderer
+import { ASPECT_RATIO_OPTIONS, buildCropKeyframes, getFocusPointsFromEvents } from './services/reframeService';
+import { buildCaptionCues, cuesToSrt, cuesToWebVtt } from './services/captionService';
+import { buildFragmentsFromWords, normalizeFragments, sliceClip, getClipFragments, getClipVisualDuration, getClipTimeAtSourceTime, getNextFragmentStart, getSourceTimeAtClipTime, trimClip } from './services/sequenceService';
+import { detectSilenceLocally, SilenceDetectionProgress } from './services/silenceDetectionService';
+import { isAudioOnlyType, readMediaDuration } from './services/trackService';
+import { applyChapterSuggestions, composeDescription, getChapters } from './services/chapterService';
+import { generatePublishingMetadata, suggestChapters } from './services/publishingService';
+import { buildHighlightClips, DEFAULT_HIGHLIGHT_SECONDS, planHighlightReel } from './services/highlightService';
+import { createSequence, duplicateSequence, getUniqueSequenceName, resolveExportSettings } from './services/projectSequenceService';
+import { canResumeJob, cancelAllJobs, cancelJob, dismissJobs, isJobActive, isJobCancelled, isKindActive, loadJobsForProject, runJob, useJobStore, JobContext } from './services/jobService';
 import { fetchLoomVideo } from './services/scraperService';
-import { Message, Sender, VideoFile, Clip, TimelineEvent, ElevenLabsVoice, AppSettings, VisualFragment } from './types';
+import { Message, Sender, VideoFile, Clip, ClipAudioMix, TimelineEvent, AnalysisState, Job, JobKind, ElevenLabsVoice, AppSettings, Speaker, VisualFragment, MasterAudioRef, ExportAspectRatio, CaptionStyle, TranscriptWord, SilenceDetectionSettings, AudioProcessingSettings, LoudnessReport, PublishingMetadata, HighlightReelPlan, ProjectSequence, EditorSnapshot, SequenceExportSettings, TimelineTrack, TrackItem, TrackType } from './types';
 import {
   ProjectRecord,
+  ProjectStateSnapshot,
   createProject,
   listProjects,
   loadProjectWithState,
@@ -27,12 +49,28 @@ import {
   getAssetPublicUrl,
   touchProject,
   bumpProjectUpdatedAt,
-  deleteProject
+  deleteProject,
+  saveProjectSequence,
+  deleteProjectSequence
 } from './services/projectService';
 import { loadUserSettings, saveElevenLabsApiKey } from './services/userSettingsService';
 import { uploadVideoToBunny, isBunnyConfigured, BunnyUploadProgress } from './services/bunnyService';
 import { useAuth } from './contexts/AuthContext';
 import AuthScreen from './components/AuthScreen';
+import ExportDialog from './components/ExportDialog';
+import LoudnessReportDialog from './components/LoudnessReportDialog';
+import ChaptersPanel from './components/ChaptersPanel';
+import HighlightReelDialog from './components/HighlightReelDialog';
+import SequencesDialog from './components/SequencesDialog';
+import TranscriptEditor from './components/TranscriptEditor';
+import FragmentEditor from './components/FragmentEditor';
+import TracksPanel from './components/TracksPanel';
+import TrackPreview from './components/TrackPreview';
+import ModelSettings from './components/ModelSettings';
+import PronunciationSettings from './components/PronunciationSettings';
+import SpeakerPanel from './components/SpeakerPanel';
+import ClipAudioPanel from './components/ClipAudioPanel';
+import JobsPanel from './components/JobsPanel';
 import { marked } from 'marked';
 
 // --- Icons ---
@@ -177,10 +215,29 @@ const XMarkIcon = () => (
     </svg>
 );
 
+const UndoIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+        <path fillRule="evenodd" d="M9.53 2.47a.75.75 0 010 1.06L4.81 8.25H15a6.75 6.75 0 010 13.5h-3a.75.75 0 010-1.5h3a5.25 5.25 0 100-10.5H4.81l4.72 4.72a.75.75 0 11-1.06 1.06l-6-6a.75.75 0 010-1.06l6-6a.75.75 0 011.06 0z" clipRule="evenodd" />
+    </svg>
+);
+
+const RedoIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+        <path fillRule="evenodd" d="M14.47 2.47a.75.75 0 011.06 0l6 6a.75.75 0 010 1.06l-6 6a.75.75 0 11-1.06-1.06l4.72-4.72H9a5.25 5.25 0 100 10.5h3a.75.75 0 010 1.5H9a6.75 6.75 0 010-13.5h10.19l-4.72-4.72a.75.75 0 010-1.06z" clipRule="evenodd" />
+    </svg>
+);
+
+const RectangleStackIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+        <path d="M5.566 4.657A4.505 4.505 0 016.75 4.5h10.5c.41 0 .806.055 1.183.157A3 3 0 0015.75 3h-7.5a3 3 0 00-2.684 1.657zM2.25 12a3 3 0 013-3h13.5a3 3 0 013 3v6a3 3 0 01-3 3H5.25a3 3 0 01-3-3v-6zM5.25 7.5c-.41 0-.806.055-1.184.157A3 3 0 016.75 6h10.5a3 3 0 012.683 1.657A4.505 4.505 0 0018.75 7.5H5.25z" />
+    </svg>
+);
 
 type ImportMode = 'upload' | 'weblink';
 type Tab = 'chat' | 'clips';
 
+type EditorPatch = Partial<EditorSnapshot>;
+
 // --- Global Helpers ---
 
 // Calculate duration of a clip
@@ -189,17 +246,69 @@ const getClipDuration = (clip: Clip) => {
     if (clip.audioStartTime !== undefined && clip.audioEndTime !== undefined) {
         return clip.audioEndTime - clip.audioStartTime;
     }
-    // Fallback to visual duration
-    return clip.endTime - clip.startTime;
+    // Fallback to visual duration (cut words/fragments excluded)
+    return getClipVisualDuration(clip);
 };
 
 // Map "Time relative to clip start (0s)" -> "Time in Video File"
 const getVideoTimeFromClipTime = (clipTime: number, clip: Clip) => {
-    return clip.startTime + clipTime;
+    return getSourceTimeAtClipTime(clip, clipTime);
 };
 
 const MAX_VIDEO_RATE = 1.5; // Cap playback speed at 1.5x for readability
 
+const PERSISTED_HISTORY_ENTRIES = 20; // Undo steps saved with the project (each holds full clip lists)
+
+// Track assets live in project storage; resolve their URLs from the path in case the bucket URL changed
+const resolveTrackAssets = (tracks: TimelineTrack[]): TimelineTrack[] => tracks.map(track => ({
+    ...track,
+    items: track.items.map(item => item.assetStoragePath ? { ...item, assetUrl: getAssetPublicUrl(item.assetStoragePath) } : item)
+}));
+
+// Same for voiceover segments; segments that only ever lived in a blob URL are regenerated on demand
+const resolveClipAssets = (clips: Clip[]): Clip[] => clips.map(clip => {
+    const storagePath = clip.voiceoverSegment?.storagePath;
+    if (storagePath) return { ...clip, generatedAudioUrl: getAssetPublicUrl(storagePath) };
+    if (clip.generatedAudioUrl?.startsWith('blob:')) return { ...clip, generatedAudioUrl: undefined, voiceoverSegment: undefined };
+    return clip;
+});
+
+// Stored master audio is re-resolved from its path; a blob URL that was never uploaded is gone
+const resolveMasterAudio = (masterAudio: MasterAudioRef | null | undefined): MasterAudioRef | null =>
+    masterAudio?.storagePath ? { ...masterAudio, url: getAssetPublicUrl(masterAudio.storagePath) } : null;
+
+// Projects saved before sequences existed hold one edit in project_states and its export
+// settings in editor_meta; this becomes the project's first sequence
+const getLegacySequence = (state: ProjectStateSnapshot | null, masterAudio: MasterAudioRef | null): ProjectSequence => {
+    const meta = state?.editorMeta;
+    const exportSettings = resolveExportSettings({
+        presetId: meta?.exportPresetId,
+        aspectRatio: meta?.exportAspectRatio,
+        captionStyle: meta?.captions?.style,
+        burnInCaptions: meta?.captions?.burnIn,
+        audioProcessing: meta?.audioProcessing
+    });
+    return createSequence(DEFAULT_SEQUENCE_NAME, state?.clips ?? [], masterAudio, exportSettings);
+};
+
+// Blob URLs do not survive a reload, so drop master audio references that were never uploaded
+const sanitizeLoadedHistory = (snapshot: HistorySnapshot | null | undefined): HistorySnapshot | null => {
+    if (!snapshot) return null;
+    const sanitizePatch = (patch: HistoryPatch): HistoryPatch => {
+        if (!('masterAudio' in patch) || !patch.masterAudio || patch.masterAudio.storagePath) return patch;
+        return { ...patch, masterAudio: null };
+    };
+    const sanitizeCommand = (command: HistorySnapshot['past'][number]) => ({
+        ...command,
+        before: sanitizePatch(command.before),
+        after: sanitizePatch(command.after)
+    });
+    return {
+        past: (snapshot.past || []).map(sanitizeCommand),
+        future: (snapshot.future || []).map(sanitizeCommand)
+    };
+};
+
 const DEFAULT_ELEVEN_LABS_SETTINGS: AppSettings = {
   elevenLabsApiKey: '',
   elevenLabsVoiceId: '',
@@ -209,7 +318,10 @@ const DEFAULT_ELEVEN_LABS_SETTINGS: AppSettings = {
   elevenLabsStyle: 0.0,
   elevenLabsSpeakerBoost: true,
   elevenLabsVolume: 1.0,
-  elevenLabsSpeed: 1.0
+  elevenLabsSpeed: 1.0,
+  llmModels: { ...DEFAULT_LLM_MODELS },
+  pronunciationLexicon: [],
+  speakers: []
 };
 
 export default function App() {
@@ -248,12 +360,18 @@ function AuthenticatedApp() {
   const [input, setInput] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
-  const [isDeepScanning, setIsDeepScanning] = useState(false);
+  // Background AI work runs through the job queue; the busy flags are derived from it
+  const jobs = useJobStore(state => state.jobs);
+  const isDeepScanning = isKindActive(jobs, 'deep_analysis');
+  const [analysisState, setAnalysisState] = useState<AnalysisState>({ isAnalyzing: false, progress: '' });
   const [hasAnalyzed, setHasAnalyzed] = useState(false);
-  const [isPolishing, setIsPolishing] = useState(false);
-  const [isRegeneratingAll, setIsRegeneratingAll] = useState(false);
-  const [isDetectingSilence, setIsDetectingSilence] = useState(false);
-  const [isValidatingContext, setIsValidatingContext] = useState(false);
+  const isPolishing = isKindActive(jobs, 'polish');
+  const isRegeneratingAll = isKindActive(jobs, 'regenerate_all');
+  const isDetectingSilence = isKindActive(jobs, 'silence_detection');
+  const isValidatingContext = isKindActive(jobs, 'context_validation');
+  const isSuggestingChapters = isKindActive(jobs, 'chapters');
+  const isGeneratingPublishing = isKindActive(jobs, 'publishing');
+  const isPlanningHighlights = isKindActive(jobs, 'highlight_reel');
   const [importMode, setImportMode] = useState<ImportMode>('upload');
   
   // ElevenLabs State
@@ -261,8 +379,10 @@ function AuthenticatedApp() {
   const [elevenLabsSettings, setElevenLabsSettings] = useState<AppSettings>({ ...DEFAULT_ELEVEN_LABS_SETTINGS });
   const [availableVoices, setAvailableVoices] = useState<ElevenLabsVoice[]>([]);
   const [generatingAudioForClipId, setGeneratingAudioForClipId] = useState<string | null>(null);
-  const [isGeneratingAllAudio, setIsGeneratingAllAudio] = useState(false);
-  const [masterAudioUrl, setMasterAudioUrl] = useState<string | null>(null);
+  const isGeneratingAllAudio = isKindActive(jobs, 'master_audio');
+  const isCloningVoice = isKindActive(jobs, 'voice_clone');
+  const [masterAudio, setMasterAudio] = useState<MasterAudioRef | null>(null);
+  const masterAudioUrl = masterAudio?.url ?? null;
 
   // Web Link & Recording State
   const [externalUrl, setExternalUrl] = useState('');
@@ -281,20 +401,61 @@ function AuthenticatedApp() {
 
   // Custom Sequencer Player State
   const [isPlaying, setIsPlaying] = useState(false);
+  const [previewLoadCount, setPreviewLoadCount] = useState(0); // Re-checks the mixer once preview media has loaded
   const [currentSequenceTime, setCurrentSequenceTime] = useState(0);
 
   // Structured Timeline Data (from AI)
   const [timelineEvents, setTimelineEvents] = useState<TimelineEvent[]>([]);
+  const [tracks, setTracks] = useState<TimelineTrack[]>([]);
+  const [selectedTrackItemId, setSelectedTrackItemId] = useState<string | null>(null);
 
   // Export State
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
   const [exportMessage, setExportMessage] = useState("Initializing...");
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportPresetId, setExportPresetId] = useState<string>(DEFAULT_EXPORT_PRESET_ID);
+  const [exportAspectRatio, setExportAspectRatio] = useState<ExportAspectRatio>('source');
+  const [isReframing, setIsReframing] = useState(false);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>({ ...DEFAULT_CAPTION_STYLE });
+  const [burnInCaptions, setBurnInCaptions] = useState(false);
+  const [audioProcessing, setAudioProcessing] = useState<AudioProcessingSettings>({ ...DEFAULT_AUDIO_PROCESSING });
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  const [publishing, setPublishing] = useState<PublishingMetadata | null>(null);
+  const [sequences, setSequences] = useState<ProjectSequence[]>([]);
+  const [activeSequenceId, setActiveSequenceId] = useState<string | null>(null);
+  const [showSequencesDialog, setShowSequencesDialog] = useState(false);
+  const [showHighlightDialog, setShowHighlightDialog] = useState(false);
+  const [highlightPlan, setHighlightPlan] = useState<HighlightReelPlan | null>(null);
+
+  // The open sequence lives in the editor state; the list keeps it as last saved
+  const exportSettings = useMemo<SequenceExportSettings>(() => ({
+      presetId: exportPresetId,
+      aspectRatio: exportAspectRatio,
+      captionStyle,
+      burnInCaptions,
+      audioProcessing
+  }), [exportPresetId, exportAspectRatio, captionStyle, burnInCaptions, audioProcessing]);
+  const liveSequences = useMemo(() => sequences.map(sequence => (
+      sequence.id === activeSequenceId ? { ...sequence, clips, masterAudio, exportSettings } : sequence
+  )), [sequences, activeSequenceId, clips, masterAudio, exportSettings]);
+  const sequenceName = sequences.find(s => s.id === activeSequenceId)?.name ?? DEFAULT_SEQUENCE_NAME;
+  const [silenceSettings, setSilenceSettings] = useState<SilenceDetectionSettings>({ ...DEFAULT_SILENCE_DETECTION });
+  const [silenceProgress, setSilenceProgress] = useState<SilenceDetectionProgress | null>(null);
 
   // Delete Project State
   const [projectToDelete, setProjectToDelete] = useState<ProjectRecord | null>(null);
   const [isDeletingProject, setIsDeletingProject] = useState(false);
 
+  // Edit History (Undo/Redo)
+  const historyPast = useHistoryStore(state => state.past);
+  const historyFuture = useHistoryStore(state => state.future);
+  const recordHistory = useHistoryStore(state => state.record);
+  const undoHistory = useHistoryStore(state => state.undo);
+  const redoHistory = useHistoryStore(state => state.redo);
+  const loadHistory = useHistoryStore(state => state.loadHistory);
+  const clearHistory = useHistoryStore(state => state.clearHistory);
+
   const refreshProjectList = useCallback(async () => {
       try {
           setIsLoadingProjects(true);
@@ -327,6 +488,11 @@ function AuthenticatedApp() {
       loadGlobalSettings();
   }, []);
 
+  // Route LLM tasks to the models chosen in the project settings
+  useEffect(() => {
+      setTaskModels(elevenLabsSettings.llmModels);
+  }, [elevenLabsSettings.llmModels]);
+
   // Save Eleven Labs API key whenever it changes (debounced)
   useEffect(() => {
       const timeout = setTimeout(async () => {
@@ -342,6 +508,15 @@ function AuthenticatedApp() {
       return () => clearTimeout(timeout);
   }, [elevenLabsSettings.elevenLabsApiKey]);
 
+  // Export settings travel with the sequence; unknown presets fall back to the default
+  const applyExportSettings = useCallback((settings: SequenceExportSettings) => {
+      setExportPresetId(getExportPreset(settings.presetId).id);
+      setExportAspectRatio(ASPECT_RATIO_OPTIONS.some(o => o.value === settings.aspectRatio) ? settings.aspectRatio : 'source');
+      setCaptionStyle(settings.captionStyle);
+      setBurnInCaptions(settings.burnInCaptions);
+      setAudioProcessing(settings.audioProcessing);
+  }, []);
+
   const loadProjectContext = useCallback(async (projectId: string) => {
       setIsLoadingProjectState(true);
       setProjectError(null);
@@ -393,8 +568,31 @@ function AuthenticatedApp() {
           }
 
           setMessages(state?.messages ?? []);
-          setClips(state?.clips ?? []);
+          const projectMasterAudio: MasterAudioRef | null = project.masterAudioStoragePath ? {
+              url: getAssetPublicUrl(project.masterAudioStoragePath),
+              storagePath: project.masterAudioStoragePath,
+              mimeType: project.masterAudioMimeType
+          } : null;
+          let storedSequences = result.sequences;
+          if (storedSequences.length === 0) {
+              storedSequences = [getLegacySequence(state, projectMasterAudio)];
+              saveProjectSequence(projectId, storedSequences[0]).catch(error => console.error('Failed to save sequence', error));
+          }
+          const loadedSequences = storedSequences.map(sequence => ({
+              ...sequence,
+              clips: resolveClipAssets(sequence.clips),
+              masterAudio: resolveMasterAudio(sequence.masterAudio),
+              exportSettings: resolveExportSettings(sequence.exportSettings)
+          }));
+          const activeSequence = loadedSequences.find(s => s.id === state?.activeSequenceId) ?? loadedSequences[0];
+          setSequences(loadedSequences);
+          setActiveSequenceId(activeSequence.id);
+          setClips(activeSequence.clips);
+          setMasterAudio(activeSequence.masterAudio);
+          applyExportSettings(activeSequence.exportSettings);
           setTimelineEvents(state?.timelineEvents ?? []);
+          setTracks(resolveTrackAssets(state?.tracks ?? []));
+          setSelectedTrackItemId(null);
           setHasAnalyzed(state?.hasAnalyzed ?? false);
           setActiveClipId(state?.activeClipId ?? null);
           setCurrentSequenceTime(0);
@@ -402,15 +600,21 @@ function AuthenticatedApp() {
           setActiveTab(savedTab === 'clips' ? 'clips' : 'chat');
           const savedImportMode = state?.editorMeta?.importMode === 'weblink' ? 'weblink' : 'upload';
           setImportMode(savedImportMode);
+          setPublishing(state?.editorMeta?.publishing ?? null);
+          setHighlightPlan(null);
+          setSilenceSettings({ ...DEFAULT_SILENCE_DETECTION, ...(state?.editorMeta?.silenceDetection || {}) });
           // Load project settings but preserve global API key
           const projectSettings = state?.settings || {};
           const { elevenLabsApiKey, ...otherSettings } = projectSettings;
-          setElevenLabsSettings(prev => ({ ...DEFAULT_ELEVEN_LABS_SETTINGS, ...otherSettings, elevenLabsApiKey: prev.elevenLabsApiKey }));
-          if (project.masterAudioStoragePath) {
-              setMasterAudioUrl(getAssetPublicUrl(project.masterAudioStoragePath));
-          } else {
-              setMasterAudioUrl(null);
-          }
+          setElevenLabsSettings(prev => ({
+              ...DEFAULT_ELEVEN_LABS_SETTINGS,
+              ...otherSettings,
+              llmModels: { ...DEFAULT_LLM_MODELS, ...(otherSettings.llmModels || {}) },
+              elevenLabsApiKey: prev.elevenLabsApiKey
+          }));
+          loadHistory(sanitizeLoadedHistory(state?.editorMeta?.history));
+          // Jobs the page closed under come back as interrupted, ready to resume
+          loadJobsForProject(projectId).catch(error => console.warn('Could not load jobs', error));
 
           await touchProject(projectId);
           setProjectInitialized(true);
@@ -423,7 +627,7 @@ function AuthenticatedApp() {
       } finally {
           setIsLoadingProjectState(false);
       }
-  }, []);
+  }, [loadHistory, applyExportSettings]);
 
   const handleCreateProject = useCallback(async () => {
       const name = prompt('Project name');
@@ -443,6 +647,8 @@ function AuthenticatedApp() {
   }, [loadProjectContext]);
 
   const handleBackToProjects = useCallback(() => {
+      cancelAllJobs();
+      loadJobsForProject(null);
       setActiveProjectId(null);
       setActiveProject(null);
       setProjectInitialized(false);
@@ -450,12 +656,25 @@ function AuthenticatedApp() {
       setMessages([]);
       setClips([]);
       setTimelineEvents([]);
+      setTracks([]);
+      setSelectedTrackItemId(null);
       setHasAnalyzed(false);
       setActiveClipId(null);
-      setMasterAudioUrl(null);
+      setMasterAudio(null);
+      clearHistory();
+      setExportPresetId(DEFAULT_EXPORT_PRESET_ID);
+      setExportAspectRatio('source');
+      setCaptionStyle({ ...DEFAULT_CAPTION_STYLE });
+      setBurnInCaptions(false);
+      setAudioProcessing({ ...DEFAULT_AUDIO_PROCESSING });
+      setPublishing(null);
+      setSequences([]);
+      setActiveSequenceId(null);
+      setHighlightPlan(null);
+      setSilenceSettings({ ...DEFAULT_SILENCE_DETECTION });
       setElevenLabsSettings({ ...DEFAULT_ELEVEN_LABS_SETTINGS });
       refreshProjectList();
-  }, [refreshProjectList]);
+  }, [refreshProjectList, clearHistory]);
 
   const handleDeleteProject = useCallback(async () => {
       if (!projectToDelete) return;
@@ -475,9 +694,11 @@ function AuthenticatedApp() {
 
   const projectReady = !!activeProjectId && projectInitialized;
 
-  const invalidateMasterAudio = useCallback(() => {
-      setMasterAudioUrl(null);
-      if (activeProjectId) {
+  // Apply a master audio reference locally and mirror it onto the project record
+  const applyMasterAudio = useCallback((next: MasterAudioRef | null) => {
+      setMasterAudio(next);
+      if (!activeProjectId) return;
+      if (!next) {
           clearProjectMasterAudio(activeProjectId).catch((err) => console.error('Failed to clear master audio', err));
           setActiveProject(prev => prev ? {
               ...prev,
@@ -485,13 +706,84 @@ function AuthenticatedApp() {
               masterAudioMimeType: null,
               hasMasterAudio: false
           } : prev);
+      } else if (next.storagePath) {
+          updateProjectMetadata(activeProjectId, {
+              masterAudioStoragePath: next.storagePath,
+              masterAudioMimeType: next.mimeType,
+              hasMasterAudio: true
+          }).catch((err) => console.error('Failed to store master audio', err));
+          setActiveProject(prev => prev ? {
+              ...prev,
+              masterAudioStoragePath: next.storagePath,
+              masterAudioMimeType: next.mimeType,
+              hasMasterAudio: true
+          } : prev);
       }
   }, [activeProjectId]);
 
+  const invalidateMasterAudio = useCallback(() => {
+      applyMasterAudio(null);
+  }, [applyMasterAudio]);
+
+  // --- EDIT HISTORY ---
+  // Mirror of the undoable state so commands can capture "before" values synchronously
+  const editorStateRef = useRef<EditorSnapshot>({ clips, timelineEvents, masterAudio, tracks });
+  editorStateRef.current = { clips, timelineEvents, masterAudio, tracks };
+
+  const applyEditorPatch = useCallback((patch: EditorPatch) => {
+      editorStateRef.current = { ...editorStateRef.current, ...patch };
+      if (patch.clips !== undefined) setClips(patch.clips);
+      if (patch.timelineEvents !== undefined) setTimelineEvents(patch.timelineEvents);
+      if ('masterAudio' in patch) applyMasterAudio(patch.masterAudio ?? null);
+      if (patch.tracks !== undefined) setTracks(patch.tracks);
+  }, [applyMasterAudio]);
+
+  /**
+   * Applies an undoable edit. Only the slices present in the patch are captured,
+   * so `{ clips, masterAudio: null }` records a clip change plus audio invalidation.
+   */
+  const commitEdit = useCallback((label: string, patch: EditorPatch) => {
+      const before = pickHistorySlices(editorStateRef.current, Object.keys(patch) as (keyof EditorSnapshot)[]);
+      applyEditorPatch(patch);
+      recordHistory(label, before, patch);
+  }, [applyEditorPatch, recordHistory]);
+
+  const restoreFromHistory = useCallback((patch: EditorPatch) => {
+      const restored: EditorPatch = { ...patch };
+      // Uploaded audio is re-resolved from storage; revoked blob URLs cannot be replayed
+      if (restored.masterAudio?.storagePath) {
+          restored.masterAudio = { ...restored.masterAudio, url: getAssetPublicUrl(restored.masterAudio.storagePath) };
+      }
+      if (restored.tracks) restored.tracks = resolveTrackAssets(restored.tracks);
+      if (restored.clips) restored.clips = resolveClipAssets(restored.clips);
+      applyEditorPatch(restored);
+      if (restored.clips) {
+          const restoredClips = restored.clips;
+          setActiveClipId(prev => restoredClips.some(c => c.id === prev) ? prev : (restoredClips[0]?.id ?? null));
+      }
+  }, [applyEditorPatch]);
+
+  const handleUndo = useCallback(() => {
+      const command = undoHistory();
+      if (!command) return;
+      setIsPlaying(false);
+      restoreFromHistory(command.before);
+  }, [undoHistory, restoreFromHistory]);
+
+  const handleRedo = useCallback(() => {
+      const command = redoHistory();
+      if (!command) return;
+      setIsPlaying(false);
+      restoreFromHistory(command.after);
+  }, [redoHistory, restoreFromHistory]);
+
+  const canUndo = historyPast.length > 0;
+  const canRedo = historyFuture.length > 0;
+
   useEffect(() => {
       if (!projectReady) return;
       setSnapshotVersion(prev => prev + 1);
-  }, [projectReady, messages, clips, timelineEvents, hasAnalyzed, activeClipId, elevenLabsSettings, masterAudioUrl]);
+  }, [projectReady, messages, clips, timelineEvents, tracks, hasAnalyzed, activeClipId, elevenLabsSettings, masterAudio, historyPast, historyFuture, exportPresetId, exportAspectRatio, captionStyle, burnInCaptions, audioProcessing, publishing, sequences, activeSequenceId, silenceSettings]);
 
   useEffect(() => {
       if (!projectReady || snapshotVersion === 0 || !activeProjectId) return;
@@ -504,19 +796,29 @@ function AuthenticatedApp() {
                   messages,
                   clips,
                   timelineEvents,
+                  tracks,
                   settings: projectSettings,
                   hasAnalyzed,
                   activeClipId,
-                  masterAudioMeta: masterAudioUrl && activeProject?.masterAudioStoragePath ? {
-                      storagePath: activeProject.masterAudioStoragePath,
-                      mimeType: activeProject.masterAudioMimeType,
-                      url: masterAudioUrl
+                  activeSequenceId,
+                  masterAudioMeta: masterAudio?.storagePath ? {
+                      storagePath: masterAudio.storagePath,
+                      mimeType: masterAudio.mimeType,
+                      url: masterAudio.url
                   } : null,
                   editorMeta: {
                       activeTab,
-                      importMode
+                      importMode,
+                      publishing,
+                      silenceDetection: silenceSettings,
+                      history: {
+                          past: historyPast.slice(-PERSISTED_HISTORY_ENTRIES),
+                          future: historyFuture.slice(0, PERSISTED_HISTORY_ENTRIES)
+                      }
                   }
               });
+              const activeSequence = liveSequences.find(s => s.id === activeSequenceId);
+              if (activeSequence) await saveProjectSequence(activeProjectId, activeSequence);
               await bumpProjectUpdatedAt(activeProjectId);
               setAutoSaveStatus('saved');
               setLastSavedAt(Date.now());
@@ -526,7 +828,7 @@ function AuthenticatedApp() {
           }
       }, 1500);
       return () => clearTimeout(timeout);
-  }, [snapshotVersion, projectReady, activeProjectId, messages, clips, timelineEvents, elevenLabsSettings, hasAnalyzed, activeClipId, masterAudioUrl, activeTab, importMode, activeProject]);
+  }, [snapshotVersion, projectReady, activeProjectId, messages, clips, timelineEvents, tracks, elevenLabsSettings, hasAnalyzed, activeClipId, masterAudio, activeTab, importMode, publishing, liveSequences, activeSequenceId, silenceSettings, historyPast, historyFuture]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -535,6 +837,7 @@ function AuthenticatedApp() {
   
   // Lock to prevent multi-firing transitions
   const isTransitioningRef = useRef(false);
+  const exportAbortRef = useRef<AbortController | null>(null);
 
   // PERFORMANCE: Memoized derived state calculations
   // These prevent expensive recalculations on every render
@@ -543,6 +846,15 @@ function AuthenticatedApp() {
     [clips]
   );
 
+  // Chapters in sequence time, as exported
+  const chapters = useMemo(() => getChapters(clips, !!masterAudioUrl), [clips, masterAudioUrl]);
+
+  // Where music beds duck under narration
+  const speechRanges = useMemo(() => getSequenceSpeechRanges(clips, !!masterAudioUrl), [clips, masterAudioUrl]);
+
+  // Analysis event times the timeline snaps drags to
+  const timelineEventTimes = useMemo(() => timelineEvents.map(e => e.seconds), [timelineEvents]);
+
   // PERFORMANCE: Memoize max end time - used in many places
   const maxEndTime = useMemo(() => 
     clips.length > 0 ? Math.max(...clips.map(c => c.endTime)) : 60, 
@@ -584,19 +896,30 @@ function AuthenticatedApp() {
     if (!vid || !aud || !video || clips.length === 0) return;
 
     // 1. SETUP MEDIA SOURCES
+    // The Master Audio source is set before the mixer is created so it can check it is safe to route
+    if (masterAudioUrl && aud.src !== masterAudioUrl) {
+        aud.src = masterAudioUrl;
+        aud.load();
+    }
+
+    // Per-clip voiceover/original mix: Web Audio gains once a clip keeps its original audio,
+    // plain element volumes otherwise
+    const mixer = masterAudioUrl && usesOriginalAudio(clips) ? getPreviewMixer(vid, aud) : findPreviewMixer(vid);
+    const applyMix = (gains: MixGains) => {
+        aud.volume = elevenLabsSettings.elevenLabsVolume * (mixer ? 1 : gains.voiceover);
+        vid.muted = !mixer && gains.original === 0;
+        vid.volume = mixer ? 1 : gains.original;
+        mixer?.setGains(gains);
+    };
+
     if (masterAudioUrl) {
-        if (aud.src !== masterAudioUrl) {
-            aud.src = masterAudioUrl;
-            aud.load();
-        }
-        vid.muted = true;
-        vid.volume = 0;
-        aud.volume = elevenLabsSettings.elevenLabsVolume;
+        applyMix({ voiceover: 1, original: 0 });
         // Global speed control on the audio master
         aud.playbackRate = elevenLabsSettings.elevenLabsSpeed;
     } else {
         // Fallback to video audio if no AI audio
         aud.pause();
+        mixer?.setGains({ voiceover: 0, original: 1 });
         vid.muted = false;
         vid.volume = 1.0;
         vid.playbackRate = 1.0;
@@ -625,15 +948,16 @@ function AuthenticatedApp() {
             if (currentClip.id !== activeClipId) {
                 setActiveClipId(currentClip.id);
             }
+            applyMix(getClipGains(currentClip, audioTime));
 
             // B. Elastic Video Sync
             const audioDuration = (currentClip.audioEndTime! - currentClip.audioStartTime!);
-            const videoDuration = (currentClip.endTime - currentClip.startTime);
+            const videoDuration = getClipVisualDuration(currentClip);
             const relativeAudioTime = audioTime - currentClip.audioStartTime!;
             const progress = relativeAudioTime / audioDuration; // 0.0 to 1.0
             
-            // Calculate Target Video Time
-            const targetVideoTime = currentClip.startTime + (progress * videoDuration);
+            // Calculate Target Video Time (walks the clip's fragments, skipping cut words)
+            const targetVideoTime = getSourceTimeAtClipTime(currentClip, progress * videoDuration);
             
             // Calculate Required Video Rate to match Audio
             // (VideoSegLength / AudioSegLength) * GlobalSpeed
@@ -655,8 +979,11 @@ function AuthenticatedApp() {
                     vid.currentTime = targetVideoTime;
                 }
             } else {
+                const fragmentStart = getNextFragmentStart(currentClip, vid.currentTime);
                 if (vid.currentTime < currentClip.startTime) {
-                     vid.currentTime = currentClip.startTime;
+                     vid.currentTime = getClipFragments(currentClip)[0]?.start ?? currentClip.startTime;
+                } else if (fragmentStart !== null && fragmentStart - vid.currentTime > 0.05) {
+                     vid.currentTime = fragmentStart; // Jump over a cut
                 }
             }
 
@@ -690,20 +1017,23 @@ function AuthenticatedApp() {
         const currentClip = clips[currentClipIndex];
 
         const vidTime = vid.currentTime;
-        const clipProgress = Math.max(0, vidTime - currentClip.startTime);
+        const clipProgress = getClipTimeAtSourceTime(currentClip, vidTime);
         
         // Update UI
         let accumulated = 0;
         for(let i=0; i<currentClipIndex; i++) accumulated += getClipDuration(clips[i]);
         setCurrentSequenceTime(accumulated + clipProgress);
 
-        // Check End
-        if (vidTime >= currentClip.endTime) {
+        // Skip cut fragments, then check end
+        const fragmentStart = getNextFragmentStart(currentClip, vidTime);
+        if (fragmentStart !== null && vidTime < currentClip.endTime) {
+            if (fragmentStart - vidTime > 0.05) vid.currentTime = fragmentStart;
+        } else {
             const nextIndex = currentClipIndex + 1;
             if (nextIndex < clips.length) {
                 const nextClip = clips[nextIndex];
                 setActiveClipId(nextClip.id);
-                vid.currentTime = nextClip.startTime;
+                vid.currentTime = getClipFragments(nextClip)[0]?.start ?? nextClip.startTime;
             } else {
                 setIsPlaying(false);
                 vid.pause();
@@ -740,7 +1070,7 @@ function AuthenticatedApp() {
         };
     }
 
-  }, [activeClipId, clips, video, masterAudioUrl, elevenLabsSettings.elevenLabsSpeed]);
+  }, [activeClipId, clips, video, masterAudioUrl, elevenLabsSettings.elevenLabsSpeed, previewLoadCount]);
 
   // Play Control Effect
   useEffect(() => {
@@ -751,6 +1081,7 @@ function AuthenticatedApp() {
       const master = masterAudioUrl ? aud : vid;
 
       if (isPlaying) {
+          findPreviewMixer(vid)?.resume();
           master.play().catch(e => console.warn("Auto-play blocked", e));
       } else {
           master.pause();
@@ -769,6 +1100,15 @@ function AuthenticatedApp() {
       let animationFrameId: number;
       let lastUpdateTime = 0;
       const FPS_60_INTERVAL = 1000 / 60; // ~16.67ms
+
+      // Jump over cut fragments at frame rate; timeupdate (~4Hz) alone lets cut video leak through
+      const skipCutAt = (clip: Clip) => {
+          if (!clip.visualFragments || vid.seeking) return;
+          const fragmentStart = getNextFragmentStart(clip, vid.currentTime);
+          if (fragmentStart !== null && vid.currentTime >= clip.startTime && fragmentStart - vid.currentTime > 0.05) {
+              vid.currentTime = fragmentStart;
+          }
+      };
       
       const updatePlayhead = () => {
           const now = performance.now();
@@ -791,6 +1131,7 @@ function AuthenticatedApp() {
                       const currentClip = clips[currentClipIndex];
                       const audioDuration = (currentClip.audioEndTime! - currentClip.audioStartTime!);
                       const relativeAudioTime = audioTime - currentClip.audioStartTime!;
+                      skipCutAt(currentClip);
                       
                       // Calculate accumulated time for progress bar
                       let accumulatedDuration = 0;
@@ -806,8 +1147,9 @@ function AuthenticatedApp() {
                   const currentClipIndex = clips.findIndex(c => c.id === activeClipId);
                   if (currentClipIndex !== -1) {
                       const currentClip = clips[currentClipIndex];
+                      skipCutAt(currentClip);
                       const vidTime = vid.currentTime;
-                      const clipProgress = Math.max(0, vidTime - currentClip.startTime);
+                      const clipProgress = getClipTimeAtSourceTime(currentClip, vidTime);
                       
                       // Calculate accumulated time
                       let accumulated = 0;
@@ -838,14 +1180,20 @@ function AuthenticatedApp() {
       };
   }, [isPlaying, masterAudioUrl, clips, activeClipId, video]); 
 
-  // --- Canvas Recorder Export Handler ---
+  // --- Offline Export Handler ---
   const handleExport = async () => {
       if (!video || clips.length === 0 || isExporting) return;
       
+      const preset = getExportPreset(exportPresetId);
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+
+      setShowExportDialog(false);
       setIsExporting(true);
       setExportProgress(0);
       setExportMessage("Loading render engine...");
       setIsPlaying(false); // Stop playback during export
+      let report: LoudnessReport | null = null;
 
       try {
           const blob = await renderVideo(
@@ -855,23 +1203,107 @@ function AuthenticatedApp() {
               (prog, msg) => {
                   setExportProgress(prog);
                   setExportMessage(msg);
+              },
+              {
+                  preset,
+                  aspectRatio: exportAspectRatio,
+                  burnInCaptions: burnInCaptions ? captionStyle : undefined,
+                  tracks,
+                  audioProcessing,
+                  onLoudnessReport: (r) => { report = r; },
+                  chapters,
+                  metadata: publishing ? { ...publishing, description: composeDescription(publishing, chapters) } : undefined,
+                  signal: controller.signal
               }
           );
 
           const url = URL.createObjectURL(blob);
           const a = document.createElement('a');
           a.href = url;
-          a.download = `${video.file.name.split('.')[0]}_Visionary_Render.webm`; // Default to WebM
+          a.download = `${video.file.name.split('.')[0]}_Visionary_Render${getExportFileExtension(preset)}`;
           a.click();
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+          setLoudnessReport(report);
 
       } catch (err: any) {
-          console.error("Export Error", err);
-          alert(`Export failed: ${err.message}`);
+          if (err?.name !== 'AbortError') { // Cancelled by the user
+              console.error("Export Error", err);
+              alert(`Export failed: ${err.message}`);
+          }
       } finally {
+          exportAbortRef.current = null;
           setIsExporting(false);
       }
   };
 
+  /**
+   * "Follow the action": proposes crop keyframes for every clip so a vertical/square
+   * export tracks the cursor and clicks instead of cutting out the centre.
+   */
+  const handleAutoReframe = async () => {
+      if (!video || clips.length === 0 || isReframing) return;
+      setIsReframing(true);
+      try {
+          const { clips: currentClips, timelineEvents: events } = editorStateRef.current;
+          const visualEvents = events.filter(e => e.type === 'visual');
+          let points = await proposeReframeFocusPoints(
+              video.fileUri,
+              video.mimeType,
+              currentClips,
+              visualEvents,
+              exportAspectRatio
+          );
+          if (points.length === 0) {
+              // Fall back to the cursor/click positions captured during analysis
+              points = currentClips.flatMap(clip => getFocusPointsFromEvents(visualEvents, clip));
+          }
+          if (points.length === 0) {
+              alert("Couldn't find any on-screen action to follow. Clips will be centre-cropped.");
+              return;
+          }
+
+          const reframedClips = editorStateRef.current.clips.map(clip => {
+              const cropKeyframes = buildCropKeyframes(clip, points);
+              return cropKeyframes.length > 0 ? { ...clip, cropKeyframes } : clip;
+          });
+          commitEdit('Auto reframe', { clips: reframedClips });
+      } catch (err: any) {
+          console.error("Reframe Error", err);
+          alert(`Failed to reframe clips: ${err.message}`);
+      } finally {
+          setIsReframing(false);
+      }
+  };
+
+  const handleClearReframe = () => {
+      const resetClips = editorStateRef.current.clips.map(({ cropKeyframes, ...clip }) => clip);
+      commitEdit('Clear reframing', { clips: resetClips });
+  };
+
+  // Sidecar captions for the current sequence (voiceover timings when Master Audio exists)
+  const handleDownloadCaptions = (format: 'srt' | 'vtt') => {
+      if (!video || clips.length === 0) return;
+      const cues = buildCaptionCues(clips, !!masterAudioUrl);
+      if (cues.length === 0) {
+          alert("No transcript text to caption yet.");
+          return;
+      }
+
+      const content = format === 'srt' ? cuesToSrt(cues) : cuesToWebVtt(cues);
+      const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${video.file.name.split('.')[0]}_Visionary_Captions.${format}`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleCancelExport = () => {
+      exportAbortRef.current?.abort();
+      setExportMessage("Cancelling...");
+  };
+
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -911,6 +1343,7 @@ function AuthenticatedApp() {
       setMessages([]);
       setCurrentSequenceTime(0);
       invalidateMasterAudio(); // Reset audio
+      clearHistory(); // Edits against the previous video cannot be replayed
 
       // Upload to Bunny CDN for persistent storage (supports large files)
       try {
@@ -973,100 +1406,120 @@ function AuthenticatedApp() {
     }
   };
 
-  const startDeepAnalysis = async () => {
+  const startDeepAnalysis = async (resumeJob?: Job) => {
     if (!video) return;
 
     try {
-      setIsDeepScanning(true);
-      setActiveTab('clips'); 
-      invalidateMasterAudio(); // Reset audio on new analysis
+      await runJob('deep_analysis', async ({ signal, checkpoint, reportProgress, saveCheckpoint }) => {
+        try {
+          setActiveTab('clips'); 
 
-      const systemId = generateId();
-      setMessages(prev => [
-        ...prev,
-        {
-            id: systemId,
-            role: Sender.Model,
-            text: `**🔍 Context-Aware Analysis Started.** \nUsing multi-pass analysis to detect:\n• Complete thoughts & sentences\n• **Parallel actions** (things done "while waiting")\n• Context switches & detours\n• User intent at each moment`,
-            timestamp: Date.now()
-        }
-      ]);
+          const systemId = generateId();
+          setMessages(prev => [
+            ...prev,
+            {
+                id: systemId,
+                role: Sender.Model,
+                text: `**🔍 Context-Aware Analysis Started.** \nUsing multi-pass analysis to detect:\n• Complete thoughts & sentences\n• **Parallel actions** (things done "while waiting")\n• Context switches & detours\n• User intent at each moment`,
+                timestamp: Date.now()
+            }
+          ]);
 
-      const analyzedEvents = await generateVideoTimeline(video.fileUri, video.mimeType);
-      setTimelineEvents(analyzedEvents);
-      setHasAnalyzed(true);
-
-      // Count context-aware features detected
-      const parallelActions = analyzedEvents.filter(e => e.isParallelAction).length;
-      const contextSwitches = analyzedEvents.filter(e => e.type === 'context_switch').length;
-      const uniqueContexts = new Set(analyzedEvents.map(e => e.contextId).filter(Boolean)).size;
-
-      const audioEvents = analyzedEvents.filter(e => e.type === 'audio');
-      const redundancyEvents = analyzedEvents.filter(e => e.type === 'redundancy');
-
-      const generatedClips: Clip[] = audioEvents.map(e => {
-        const clipStart = e.seconds;
-        const duration = e.duration || 10; 
-        const clipEnd = e.seconds + duration;
-
-        const clipRedundancies = redundancyEvents.filter(r => r.seconds >= clipStart && r.seconds < clipEnd);
-
-        // Create chapter title with context awareness
-        let chapterTitle = `Chapter ${formatTime(e.seconds)}`;
-        if (e.isParallelAction) {
-          chapterTitle = `🔄 ${chapterTitle}`;
-        } else if (e.context === 'settings_detour') {
-          chapterTitle = `⚙️ ${chapterTitle}`;
-        } else if (e.context === 'waiting_interlude') {
-          chapterTitle = `⏳ ${chapterTitle}`;
-        }
+          // Long recordings are analyzed in overlapping windows and stitched back together
+          setAnalysisState({ isAnalyzing: true, progress: 'Analyzing video' });
+          const sourceDuration = await readMediaDuration(video.previewUrl, 'video');
+          const analyzedEvents = await analyzeVideoInWindows(
+            video.fileUri,
+            video.mimeType,
+            sourceDuration,
+            (progress, fraction) => {
+              setAnalysisState({ isAnalyzing: true, progress });
+              reportProgress(progress, fraction);
+            },
+            // Finished windows are checkpointed so a reload can resume where it stopped
+            { signal, completed: checkpoint?.windows, onWindowComplete: windows => saveCheckpoint({ windows }) }
+          );
 
-        return {
-            id: generateId(),
-            title: chapterTitle,
-            startTime: clipStart,
-            endTime: clipEnd,
-            description: e.intent || "Visual analysis available.",
-            transcript: e.description,
-            redundancies: clipRedundancies
-        };
-      });
+          // Count context-aware features detected
+          const parallelActions = analyzedEvents.filter(e => e.isParallelAction).length;
+          const contextSwitches = analyzedEvents.filter(e => e.type === 'context_switch').length;
+          const uniqueContexts = new Set(analyzedEvents.map(e => e.contextId).filter(Boolean)).size;
+
+          const audioEvents = analyzedEvents.filter(e => e.type === 'audio');
+          const redundancyEvents = analyzedEvents.filter(e => e.type === 'redundancy');
+
+          const generatedClips: Clip[] = audioEvents.map(e => {
+            const clipStart = e.seconds;
+            const duration = e.duration || 10; 
+            const clipEnd = e.seconds + duration;
+
+            const clipRedundancies = redundancyEvents.filter(r => r.seconds >= clipStart && r.seconds < clipEnd);
+
+            // Create chapter title with context awareness
+            let chapterTitle = `Chapter ${formatTime(e.seconds)}`;
+            if (e.isParallelAction) {
+              chapterTitle = `🔄 ${chapterTitle}`;
+            } else if (e.context === 'settings_detour') {
+              chapterTitle = `⚙️ ${chapterTitle}`;
+            } else if (e.context === 'waiting_interlude') {
+              chapterTitle = `⏳ ${chapterTitle}`;
+            }
 
-      setClips(generatedClips);
-      if (generatedClips.length > 0) {
-        setActiveClipId(generatedClips[0].id);
-      }
+            return {
+                id: generateId(),
+                title: chapterTitle,
+                startTime: clipStart,
+                endTime: clipEnd,
+                description: e.intent || "Visual analysis available.",
+                transcript: e.description,
+                redundancies: clipRedundancies,
+                words: e.words?.filter(w => w.start >= clipStart && w.start < clipEnd),
+                speaker: e.speaker
+            };
+          });
+
+          // One undo step for the whole analysis; the old audio no longer matches the new clips
+          commitEdit('Deep analysis', { timelineEvents: analyzedEvents, clips: generatedClips, masterAudio: null });
+          setHasAnalyzed(true);
+          if (generatedClips.length > 0) {
+            setActiveClipId(generatedClips[0].id);
+          }
 
-      // Build context-aware summary message
-      let summaryMsg = `**✅ Context-Aware Timeline Ready.** \nI have split the video into **${generatedClips.length} logical segments** with full context awareness.\n\n`;
+          // Build context-aware summary message
+          let summaryMsg = `**✅ Context-Aware Timeline Ready.** \nI have split the video into **${generatedClips.length} logical segments** with full context awareness.\n\n`;
       
-      if (parallelActions > 0 || contextSwitches > 0 || uniqueContexts > 1) {
-        summaryMsg += `**Context Analysis:**\n`;
-        if (parallelActions > 0) {
-          summaryMsg += `• 🔄 Detected **${parallelActions} parallel actions** (things done while waiting)\n`;
-        }
-        if (contextSwitches > 0) {
-          summaryMsg += `• ↔️ Found **${contextSwitches} context switches** (detours & returns)\n`;
-        }
-        if (uniqueContexts > 1) {
-          summaryMsg += `• 🔗 Identified **${uniqueContexts} workflow chains**\n`;
-        }
-        summaryMsg += `\nThe script polishing will now maintain smooth transitions across these context changes.`;
-      } else {
-        summaryMsg += `Each clip represents a complete sentence or thought, ensuring smoother editing.`;
-      }
+          if (parallelActions > 0 || contextSwitches > 0 || uniqueContexts > 1) {
+            summaryMsg += `**Context Analysis:**\n`;
+            if (parallelActions > 0) {
+              summaryMsg += `• 🔄 Detected **${parallelActions} parallel actions** (things done while waiting)\n`;
+            }
+            if (contextSwitches > 0) {
+              summaryMsg += `• ↔️ Found **${contextSwitches} context switches** (detours & returns)\n`;
+            }
+            if (uniqueContexts > 1) {
+              summaryMsg += `• 🔗 Identified **${uniqueContexts} workflow chains**\n`;
+            }
+            summaryMsg += `\nThe script polishing will now maintain smooth transitions across these context changes.`;
+          } else {
+            summaryMsg += `Each clip represents a complete sentence or thought, ensuring smoother editing.`;
+          }
 
-      setMessages(prev => [
-        ...prev,
-        {
-          id: generateId(),
-          role: Sender.Model,
-          text: summaryMsg,
-          timestamp: Date.now()
-        }
-      ]);
+          setMessages(prev => [
+            ...prev,
+            {
+              id: generateId(),
+              role: Sender.Model,
+              text: summaryMsg,
+              timestamp: Date.now()
+            }
+          ]);
 
+        } finally {
+          setAnalysisState({ isAnalyzing: false, progress: '' });
+        }
+      }, { resumeJobId: resumeJob?.id });
     } catch (err: any) {
+      if (isJobCancelled(err)) return;
       console.error(err);
       alert(`Analysis failed: ${err.message}`);
       setMessages(prev => [
@@ -1074,55 +1527,72 @@ function AuthenticatedApp() {
         {
           id: generateId(),
           role: Sender.Model,
-          text: `**System Error:** Deep scan failed. Please try again.`,
+          text: `**System Error:** Deep scan failed: ${err.message}`,
           timestamp: Date.now()
         }
       ]);
-    } finally {
-      setIsDeepScanning(false);
     }
   };
 
   const handleDetectSilence = async () => {
       if (!video || clips.length === 0) return;
-      setIsDetectingSilence(true);
       try {
-          const silences = await detectSilenceAndInactivity(video.fileUri, video.mimeType);
-          if (silences.length === 0) {
-              alert("No significant dead air detected.");
-              setIsDetectingSilence(false);
-              return;
-          }
-          // Note: Removing clips invalidates Master Audio
-          invalidateMasterAudio(); 
-          
-          setClips(prevClips => {
-              const newClips = prevClips.map(clip => {
-                  const overlappingSilences = silences.filter(s => {
-                      const silenceStart = s.seconds;
-                      const silenceEnd = s.seconds + (s.duration || 0);
-                      return (silenceStart < clip.endTime && silenceEnd > clip.startTime);
+          await runJob('silence_detection', async ({ signal, reportProgress }) => {
+              try {
+                  // Signal-based detection first; Gemini only when the browser can't decode the file
+                  let silences: TimelineEvent[];
+                  try {
+                      // CDN-backed projects only carry a placeholder File; their audio is streamed instead
+                      const media = video.file.size > 0 ? video.file : video.previewUrl;
+                      silences = await detectSilenceLocally(media, video.previewUrl, silenceSettings, progress => {
+                          setSilenceProgress(progress);
+                          reportProgress(progress.stage === 'audio' ? 'Measuring audio' : 'Comparing frames', progress.progress);
+                      }, signal);
+                  } catch (localErr) {
+                      if (isJobCancelled(localErr)) throw localErr;
+                      console.warn("Local silence detection failed, falling back to Gemini:", localErr);
+                      setSilenceProgress(null);
+                      reportProgress('Asking the model for dead air');
+                      silences = await detectSilenceAndInactivity(video.fileUri, video.mimeType, signal);
+                  }
+                  if (silences.length === 0) {
+                      alert("No significant dead air detected.");
+                      return;
+                  }
+                  const { clips: prevClips, timelineEvents: prevEvents } = editorStateRef.current;
+                  const newClips = prevClips.map(clip => {
+                      const overlappingSilences = silences.filter(s => {
+                          const silenceStart = s.seconds;
+                          const silenceEnd = s.seconds + (s.duration || 0);
+                          return (silenceStart < clip.endTime && silenceEnd > clip.startTime);
+                      });
+
+                      if (overlappingSilences.length > 0) {
+                          const existingRedundancies = clip.redundancies ? [...clip.redundancies] : [];
+                          overlappingSilences.forEach(s => {
+                              if (!existingRedundancies.some(r => r.type === 'silence' && r.seconds === s.seconds)) {
+                                  existingRedundancies.push(s);
+                              }
+                          });
+                          return { ...clip, redundancies: existingRedundancies };
+                      }
+                      return clip;
                   });
 
-                  if (overlappingSilences.length > 0) {
-                      const existingRedundancies = clip.redundancies ? [...clip.redundancies] : [];
-                      overlappingSilences.forEach(s => {
-                          if (!existingRedundancies.some(r => r.type === 'silence' && r.seconds === s.seconds)) {
-                              existingRedundancies.push(s);
-                          }
-                      });
-                      return { ...clip, redundancies: existingRedundancies };
-                  }
-                  return clip;
-              });
-              return newClips;
+                  // One undo step; removing clips invalidates Master Audio
+                  commitEdit('Detect silence', {
+                      clips: newClips,
+                      timelineEvents: [...prevEvents, ...silences],
+                      masterAudio: null
+                  });
+              } finally {
+                  setSilenceProgress(null);
+              }
           });
-          setTimelineEvents(prev => [...prev, ...silences]); 
-      } catch (err) {
+      } catch (err: any) {
+          if (isJobCancelled(err)) return;
           console.error(err);
-          alert("Failed to detect silence.");
-      } finally {
-          setIsDetectingSilence(false);
+          alert(`Failed to detect silence: ${err.message}`);
       }
   };
 
@@ -1132,7 +1602,6 @@ function AuthenticatedApp() {
    */
   const handleValidateContext = async () => {
       if (!video || timelineEvents.length === 0) return;
-      setIsValidatingContext(true);
       
       setMessages(prev => [
         ...prev,
@@ -1145,73 +1614,87 @@ function AuthenticatedApp() {
       ]);
 
       try {
-          const validatedEvents = await validateAndRepairTimeline(
-            video.fileUri, 
-            video.mimeType, 
-            timelineEvents
-          );
-          
-          // Check what changed
-          const originalParallel = timelineEvents.filter(e => e.isParallelAction).length;
-          const newParallel = validatedEvents.filter(e => e.isParallelAction).length;
-          const originalSwitches = timelineEvents.filter(e => e.type === 'context_switch').length;
-          const newSwitches = validatedEvents.filter(e => e.type === 'context_switch').length;
+          await runJob('context_validation', async ({ signal, reportProgress }) => {
+              try {
+                  // Read at run time: the job may have waited behind others in the queue
+                  const timelineEvents = editorStateRef.current.timelineEvents;
+                  const sourceDuration = await readMediaDuration(video.previewUrl, 'video');
+                  const validatedEvents = await validateTimelineInWindows(
+                    video.fileUri,
+                    video.mimeType,
+                    timelineEvents,
+                    sourceDuration,
+                    (progress, fraction) => {
+                      setAnalysisState({ isAnalyzing: true, progress });
+                      reportProgress(progress, fraction);
+                    },
+                    { signal }
+                  );
           
-          setTimelineEvents(validatedEvents);
+                  // Check what changed
+                  const originalParallel = timelineEvents.filter(e => e.isParallelAction).length;
+                  const newParallel = validatedEvents.filter(e => e.isParallelAction).length;
+                  const originalSwitches = timelineEvents.filter(e => e.type === 'context_switch').length;
+                  const newSwitches = validatedEvents.filter(e => e.type === 'context_switch').length;
           
-          // Update clips with any new context info
-          setClips(prevClips => prevClips.map(clip => {
-            const matchingEvent = validatedEvents.find(e => 
-              Math.abs(e.seconds - clip.startTime) < 2
-            );
-            if (matchingEvent) {
-              let newTitle = clip.title.replace(/^[🔄⚙️⏳]\s*/, ''); // Remove existing icons
-              if (matchingEvent.isParallelAction) {
-                newTitle = `🔄 ${newTitle}`;
-              } else if (matchingEvent.context === 'settings_detour') {
-                newTitle = `⚙️ ${newTitle}`;
-              } else if (matchingEvent.context === 'waiting_interlude') {
-                newTitle = `⏳ ${newTitle}`;
-              }
-              return {
-                ...clip,
-                title: newTitle,
-                description: matchingEvent.intent || clip.description
-              };
-            }
-            return clip;
-          }));
-
-          // Report changes
-          let changeReport = `**✅ Context Validation Complete.**\n\n`;
-          if (newParallel !== originalParallel || newSwitches !== originalSwitches) {
-            changeReport += `**Changes detected:**\n`;
-            if (newParallel !== originalParallel) {
-              changeReport += `• Parallel actions: ${originalParallel} → ${newParallel}\n`;
-            }
-            if (newSwitches !== originalSwitches) {
-              changeReport += `• Context switches: ${originalSwitches} → ${newSwitches}\n`;
-            }
-            changeReport += `\nThe timeline has been updated. You may want to re-polish scripts to incorporate these changes.`;
-          } else {
-            changeReport += `No issues found. The original context analysis was correct.`;
-          }
+                  // Update clips with any new context info
+                  const contextClips = editorStateRef.current.clips.map(clip => {
+                    const matchingEvent = validatedEvents.find(e => 
+                      Math.abs(e.seconds - clip.startTime) < 2
+                    );
+                    if (matchingEvent) {
+                      let newTitle = clip.title.replace(/^[🔄⚙️⏳]\s*/, ''); // Remove existing icons
+                      if (matchingEvent.isParallelAction) {
+                        newTitle = `🔄 ${newTitle}`;
+                      } else if (matchingEvent.context === 'settings_detour') {
+                        newTitle = `⚙️ ${newTitle}`;
+                      } else if (matchingEvent.context === 'waiting_interlude') {
+                        newTitle = `⏳ ${newTitle}`;
+                      }
+                      return {
+                        ...clip,
+                        title: newTitle,
+                        description: matchingEvent.intent || clip.description
+                      };
+                    }
+                    return clip;
+                  });
 
-          setMessages(prev => [
-            ...prev,
-            {
-              id: generateId(),
-              role: Sender.Model,
-              text: changeReport,
-              timestamp: Date.now()
-            }
-          ]);
+                  commitEdit('Validate context', { timelineEvents: validatedEvents, clips: contextClips });
+
+                  // Report changes
+                  let changeReport = `**✅ Context Validation Complete.**\n\n`;
+                  if (newParallel !== originalParallel || newSwitches !== originalSwitches) {
+                    changeReport += `**Changes detected:**\n`;
+                    if (newParallel !== originalParallel) {
+                      changeReport += `• Parallel actions: ${originalParallel} → ${newParallel}\n`;
+                    }
+                    if (newSwitches !== originalSwitches) {
+                      changeReport += `• Context switches: ${originalSwitches} → ${newSwitches}\n`;
+                    }
+                    changeReport += `\nThe timeline has been updated. You may want to re-polish scripts to incorporate these changes.`;
+                  } else {
+                    changeReport += `No issues found. The original context analysis was correct.`;
+                  }
 
-      } catch (err) {
+                  setMessages(prev => [
+                    ...prev,
+                    {
+                      id: generateId(),
+                      role: Sender.Model,
+                      text: changeReport,
+                      timestamp: Date.now()
+                    }
+                  ]);
+
+              } finally {
+                  setAnalysisState({ isAnalyzing: false, progress: '' });
+              }
+          });
+      } catch (err: any) {
+          if (isJobCancelled(err)) return;
           console.error(err);
-          alert("Failed to validate context.");
-      } finally {
-          setIsValidatingContext(false);
+          alert(`Failed to validate context: ${err.message}`);
       }
   };
 
@@ -1220,27 +1703,121 @@ function AuthenticatedApp() {
       console.log('🔵 Number of clips:', clips.length);
       console.log('🔵 Timeline events for context:', timelineEvents.length);
       if (clips.length === 0) return;
-      setIsPolishing(true);
-      console.log('🔵 About to call polishClipTranscriptsWithClaude with context awareness...');
+      console.log('🔵 About to call polishClipTranscripts with context awareness...');
       try {
-          // Pass timeline events for context-aware polishing
-          // This helps Claude understand parallel actions and context switches
-          const improvements = await polishClipTranscriptsWithClaude(clips, timelineEvents);
-          console.log('🔵 Received context-aware improvements from Claude:', improvements);
-          setClips(prevClips => prevClips.map(clip => {
-              const improved = improvements.find(i => i.id === clip.id);
-              if (improved) {
-                  return { ...clip, improvedTranscript: improved.improvedText };
-              }
-              return clip;
-          }));
-          // Polishing invalidates old audio
-          invalidateMasterAudio();
-      } catch (e) {
+          await runJob('polish', async ({ signal }) => {
+              // Pass timeline events for context-aware polishing
+              // This helps the polish model understand parallel actions and context switches
+              const { clips, timelineEvents } = editorStateRef.current;
+              const improvements = await polishClipTranscripts(clips, timelineEvents, signal);
+              console.log('🔵 Received context-aware improvements:', improvements);
+              const polishedClips = editorStateRef.current.clips.map(clip => {
+                  const improved = improvements.find(i => i.id === clip.id);
+                  if (improved) {
+                      return { ...clip, improvedTranscript: improved.improvedText };
+                  }
+                  return clip;
+              });
+              // Polishing invalidates old audio
+              commitEdit('Polish scripts', { clips: polishedClips, masterAudio: null });
+          });
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
           console.error(e);
-          alert("Failed to polish scripts.");
-      } finally {
-          setIsPolishing(false);
+          alert(`Failed to polish scripts: ${e.message}`);
+      }
+  };
+
+  /**
+   * Synthesizes the voiceover segments that changed, assembles the Master Audio from all of
+   * them and syncs every clip to its place in it, recorded as one undo step when done.
+   * `prepareClips` applies the job's own clip changes (e.g. new scripts) to the clips as they
+   * are when it starts and again when it finishes, so edits made meanwhile are kept.
+   */
+  const generateMasterVoiceover = async (
+      label: string,
+      signal: AbortSignal,
+      reportProgress: JobContext['reportProgress'],
+      prepareClips: (clips: Clip[]) => Clip[] = clips => clips
+  ) => {
+      const { masterBlob, placements, alignmentIssues } = await assembleVoiceover(
+          prepareClips(editorStateRef.current.clips),
+          elevenLabsSettings.elevenLabsApiKey,
+          elevenLabsSettings,
+          { signal, onProgress: reportProgress }
+      );
+
+      // Store new segments so the next run (or another session) can reuse them
+      const segmentUrls = new Map<string, { url: string; storagePath: string | null }>();
+      for (const placement of placements) {
+          const { segment } = placement;
+          if (!segment || !placement.blob) continue; // Original-audio clip
+          if (segment.storagePath) {
+              segmentUrls.set(placement.clipId, { url: getAssetPublicUrl(segment.storagePath), storagePath: segment.storagePath });
+              continue;
+          }
+          let stored: { url: string; storagePath: string | null } = { url: URL.createObjectURL(placement.blob), storagePath: null };
+          if (activeProjectId) {
+              try {
+                  const segmentFileName = `voiceover_${segment.hash}.mp3`;
+                  const uploadResult = await uploadProjectAsset(activeProjectId, new File([placement.blob], segmentFileName, { type: 'audio/mpeg' }), {
+                      type: 'audio',
+                      fileName: segmentFileName,
+                      contentType: 'audio/mpeg'
+                  });
+                  URL.revokeObjectURL(stored.url);
+                  stored = { url: uploadResult.publicUrl, storagePath: uploadResult.path };
+                  markSegmentStored(segment.hash, uploadResult.path);
+              } catch (persistError) {
+                  console.error('Failed to store voiceover segment', persistError);
+              }
+          }
+          segmentUrls.set(placement.clipId, stored);
+      }
+
+      // Uploaded before the edit is recorded, so the undo step holds the stored track
+      let generatedAudio: MasterAudioRef = { url: URL.createObjectURL(masterBlob), storagePath: null, mimeType: masterBlob.type };
+      if (activeProjectId) {
+          try {
+              const extension = masterBlob.type === 'audio/wav' ? 'wav' : 'm4a';
+              const audioFileName = `${video?.file?.name?.split('.').shift() || 'master'}_${Date.now()}.${extension}`;
+              const audioFile = new File([masterBlob], audioFileName, { type: masterBlob.type });
+              const uploadResult = await uploadProjectAsset(activeProjectId, audioFile, {
+                  type: 'audio',
+                  fileName: audioFileName,
+                  contentType: masterBlob.type
+              });
+              URL.revokeObjectURL(generatedAudio.url);
+              generatedAudio = { url: uploadResult.publicUrl, storagePath: uploadResult.path, mimeType: masterBlob.type };
+          } catch (persistError) {
+              console.error('Failed to store master audio', persistError);
+              alert('The Master Audio could not be uploaded. It plays in this session but will be missing after a reload; generate it again to retry the upload.');
+          }
+      }
+
+      const syncedClips = prepareClips(editorStateRef.current.clips).map(c => {
+          const placement = placements.find(p => p.clipId === c.id);
+          if (!placement) return c;
+          const stored = segmentUrls.get(c.id);
+          // The pause after each segment belongs to its clip, slowing the video down to fit
+          const audioDur = placement.audioEnd - placement.audioStart;
+          const videoDur = getClipVisualDuration(c);
+          return {
+              ...c,
+              generatedAudioUrl: stored?.url,
+              voiceoverSegment: placement.segment && stored ? { ...placement.segment, storagePath: stored.storagePath } : undefined,
+              audioStartTime: placement.audioStart,
+              audioEndTime: placement.audioEnd,
+              videoRate: audioDur > 0.1 ? videoDur / audioDur : 1.0,
+              voiceoverWords: placement.words
+          };
+      });
+
+      commitEdit(label, { clips: syncedClips, masterAudio: generatedAudio });
+
+      if (alignmentIssues.length > 0) {
+          console.warn('Voiceover alignment mismatches', alignmentIssues);
+          alert(`Voiceover generated, but word timings may be off for:\n${alignmentIssues.join('\n')}`);
       }
   };
 
@@ -1252,103 +1829,43 @@ function AuthenticatedApp() {
           return;
       }
 
-      setIsRegeneratingAll(true);
-      console.log('🔄 REGENERATE ALL: Starting full regeneration...');
-
       try {
-          // Step 1: Re-polish the scripts
-          console.log('🔄 Step 1: Re-polishing scripts...');
-          const improvements = await polishClipTranscriptsWithClaude(clips, timelineEvents);
-          console.log('🔄 Received new polished scripts:', improvements);
-          
-          // Update clips with new polished text
-          const updatedClips = clips.map(clip => {
-              const improved = improvements.find(i => i.id === clip.id);
-              if (improved) {
-                  return { ...clip, improvedTranscript: improved.improvedText };
-              }
-              return clip;
-          });
-          setClips(updatedClips);
-
-          // Step 2: Generate new audio with updated scripts
-          console.log('🔄 Step 2: Generating new audio...');
-          const tasks = updatedClips.filter(c => c.improvedTranscript);
-          if (tasks.length === 0) {
-              alert("No polished scripts to generate audio for.");
-              return;
-          }
-
-          const DELIMITER = " ... ";
-          const clipsTexts = tasks.map(c => {
-               const text = c.improvedTranscript || "";
-               return text.replace(/\.\.\./g, ",");
-          });
-          const fullText = clipsTexts.join(DELIMITER);
-
-          const { audioBase64, alignment } = await generateSpeechWithTimestamps(
-              elevenLabsSettings.elevenLabsApiKey,
-              fullText,
-              elevenLabsSettings
-          );
+          await runJob('regenerate_all', async ({ signal, reportProgress }) => {
+              console.log('🔄 REGENERATE ALL: Starting full regeneration...');
+              // Step 1: Re-polish the scripts
+              console.log('🔄 Step 1: Re-polishing scripts...');
+              reportProgress('Polishing scripts', 0);
+              const { clips, timelineEvents } = editorStateRef.current;
+              const improvements = await polishClipTranscripts(clips, timelineEvents, signal);
+              console.log('🔄 Received new polished scripts:', improvements);
+
+              // New polished text, applied to the clips as they are when each step reads them
+              const applyImprovements = (current: Clip[]) => current.map(clip => {
+                  const improved = improvements.find(i => i.id === clip.id);
+                  if (improved) {
+                      return { ...clip, improvedTranscript: improved.improvedText };
+                  }
+                  return clip;
+              });
 
-          // Create new audio blob
-          const arrayBuffer = base64ToArrayBuffer(audioBase64);
-          const blob = new Blob([arrayBuffer], { type: 'audio/mpeg' });
-          const masterUrl = URL.createObjectURL(blob);
-
-          // Parse alignment data (same logic as handleGenerateAllAudio)
-          const alignChars = alignment.characters;
-          const alignStartTimes = alignment.character_start_times_seconds;
-          const alignEndTimes = alignment.character_end_times_seconds;
-
-          const clipBoundaries: { start: number, end: number }[] = [];
-          let cursor = 0;
-          let currentClipStart = 0;
-
-          while (cursor < alignChars.length) {
-              if (
-                  alignChars[cursor] === '.' &&
-                  alignChars[cursor + 1] === '.' &&
-                  alignChars[cursor + 2] === '.'
-              ) {
-                  const endOfPrevClip = alignStartTimes[cursor];
-                  clipBoundaries.push({ start: currentClipStart, end: endOfPrevClip });
-                  currentClipStart = alignEndTimes[cursor + 2];
-                  cursor += 3;
-                  while (cursor < alignChars.length && alignChars[cursor] === ' ') cursor++;
-              } else {
-                  cursor++;
+              // Step 2: Generate new audio with updated scripts; unchanged clips keep their segments
+              console.log('🔄 Step 2: Generating new audio...');
+              if (!applyImprovements(editorStateRef.current.clips).some(c => c.improvedTranscript)) {
+                  alert("No polished scripts to generate audio for.");
+                  return;
               }
-          }
+              await generateMasterVoiceover('Regenerate script & audio', signal, reportProgress, applyImprovements);
 
-          if (alignEndTimes.length > 0) {
-              clipBoundaries.push({ start: currentClipStart, end: alignEndTimes[alignEndTimes.length - 1] });
-          }
-
-          // Map boundaries back to clips
-          const finalClips = updatedClips.map((c, idx) => {
-              const boundary = clipBoundaries[idx];
-              if (boundary && c.improvedTranscript) {
-                  return { ...c, audioStartTime: boundary.start, audioEndTime: boundary.end };
-              }
-              return c;
+              console.log('🔄 REGENERATE ALL: Complete! Scripts re-polished and audio regenerated.');
           });
-
-          setClips(finalClips);
-          setMasterAudioUrl(masterUrl);
-
-          console.log('🔄 REGENERATE ALL: Complete! Scripts re-polished and audio regenerated.');
-
-      } catch (e) {
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
           console.error('❌ Regenerate All failed:', e);
-          alert("Failed to regenerate. Please try again.");
-      } finally {
-          setIsRegeneratingAll(false);
+          alert(`Failed to regenerate: ${e.message}`);
       }
   };
 
-  // --- NEW: GENERATE MASTER AUDIO (Anchor-Based Sync) ---
+  // --- GENERATE MASTER AUDIO (per-clip segments, assembled locally) ---
   const handleGenerateAllAudio = async () => {
       if (!elevenLabsSettings.elevenLabsApiKey || !elevenLabsSettings.elevenLabsVoiceId) {
           setShowSettings(true);
@@ -1361,165 +1878,77 @@ function AuthenticatedApp() {
         return;
       }
 
-      setIsGeneratingAllAudio(true);
       try {
-        // 1. Prepare Text with DELIMITERS
-        const DELIMITER = " ... "; // 3 dots sequence, space padded
-        
-        // Sanitize input to remove any accidental delimiters in the text itself
-        const clipsTexts = tasks.map(c => {
-             const text = c.improvedTranscript || "";
-             return text.replace(/\.\.\./g, ","); // Replace existing elipses
-        });
-        
-        // Join with delimiter
-        const fullText = clipsTexts.join(DELIMITER);
-
-        // 2. Generate
-        const { audioBase64, alignment } = await generateSpeechWithTimestamps(
-            elevenLabsSettings.elevenLabsApiKey,
-            fullText,
-            elevenLabsSettings
-        );
-
-        // 3. Create Blob URL for Master Audio
-        const arrayBuffer = base64ToArrayBuffer(audioBase64);
-        const blob = new Blob([arrayBuffer], { type: 'audio/mpeg' });
-        let masterUrl = URL.createObjectURL(blob);
-        
-        // 4. Anchor-Based Slicing
-        // We look for the pattern ['.', '.', '.'] in alignment.characters
-        // This is 100% robust against text mismatches.
-        
-        const alignChars = alignment.characters; 
-        const alignStartTimes = alignment.character_start_times_seconds;
-        const alignEndTimes = alignment.character_end_times_seconds;
-        
-        const clipBoundaries: { start: number, end: number }[] = [];
-        
-        let cursor = 0;
-        let currentClipStart = 0;
-
-        // Iterate to find all delimiters
-        // The delimiter " ... " usually comes back as characters ['.', '.', '.'] (spaces stripped/ignored)
-        
-        for (let i = 0; i < alignChars.length - 2; i++) {
-            if (alignChars[i] === '.' && alignChars[i+1] === '.' && alignChars[i+2] === '.') {
-                // Found a delimiter!
-                const delimiterStartIndex = i;
-                const delimiterEndIndex = i + 2;
-                
-                // End of Current Clip = Start of the Delimiter
-                const clipEnd = alignStartTimes[delimiterStartIndex];
-                
-                clipBoundaries.push({ start: currentClipStart, end: clipEnd });
-                
-                // Start of Next Clip = End of the Delimiter
-                // ElevenLabs usually has a small gap after punctuation.
-                // We actually want the NEXT clip to start at the character AFTER the delimiter.
-                if (delimiterEndIndex + 1 < alignStartTimes.length) {
-                    currentClipStart = alignStartTimes[delimiterEndIndex + 1];
-                } else {
-                    currentClipStart = alignEndTimes[delimiterEndIndex];
-                }
-                
-                // Advance loop past this delimiter to avoid re-detecting overlapping dots
-                i += 2;
-            }
-        }
-        
-        // Add the final clip (from last delimiter to end of file)
-        clipBoundaries.push({ 
-            start: currentClipStart, 
-            end: alignEndTimes[alignEndTimes.length - 1] 
-        });
-
-        // 5. Assign to Clips
-        // If mismatched counts (rare but possible if AI skipped a delimiter), we map what we have.
-        const clipUpdates: { id: string, start: number, end: number, rate: number }[] = [];
-        
-        tasks.forEach((clip, idx) => {
-            if (idx < clipBoundaries.length) {
-                const boundary = clipBoundaries[idx];
-                
-                // SMART PAUSE INCLUSION:
-                // The audioEndTime of this clip should extend to the audioStartTime of the NEXT clip.
-                // This captures the silence/pause in between, slowing down the video.
-                let extendedEnd = boundary.end;
-                if (idx < clipBoundaries.length - 1) {
-                    extendedEnd = clipBoundaries[idx + 1].start;
-                } else {
-                    // Last clip: add 0.5s padding
-                    extendedEnd += 0.5;
-                }
-                
-                // Calculate Rate
-                const audioDur = extendedEnd - boundary.start;
-                const videoDur = clip.endTime - clip.startTime;
-                
-                let rate = 1.0;
-                if (audioDur > 0.1) rate = videoDur / audioDur;
-
-                clipUpdates.push({
-                    id: clip.id,
-                    start: boundary.start,
-                    end: extendedEnd,
-                    rate: rate
-                });
-            }
-        });
-
-        setClips(prev => prev.map(c => {
-            const update = clipUpdates.find(u => u.id === c.id);
-            if (update) {
-                return { 
-                    ...c, 
-                    audioStartTime: update.start, 
-                    audioEndTime: update.end,
-                    videoRate: update.rate 
-                };
-            }
-            return c;
-        }));
-
-        setMasterAudioUrl(masterUrl);
-
-        if (activeProjectId) {
-            try {
-                const audioFileName = `${video?.file?.name?.split('.').shift() || 'master'}_${Date.now()}.mp3`;
-                const audioFile = new File([blob], audioFileName, { type: 'audio/mpeg' });
-                const uploadResult = await uploadProjectAsset(activeProjectId, audioFile, {
-                    type: 'audio',
-                    fileName: audioFileName,
-                    contentType: 'audio/mpeg'
-                });
-                await updateProjectMetadata(activeProjectId, {
-                    masterAudioStoragePath: uploadResult.path,
-                    masterAudioMimeType: 'audio/mpeg',
-                    hasMasterAudio: true
-                });
-                setActiveProject(prev => prev ? {
-                    ...prev,
-                    masterAudioStoragePath: uploadResult.path,
-                    masterAudioMimeType: 'audio/mpeg',
-                    hasMasterAudio: true
-                } : prev);
-                URL.revokeObjectURL(masterUrl);
-                masterUrl = uploadResult.publicUrl;
-                setMasterAudioUrl(masterUrl);
-            } catch (persistError) {
-                console.error('Failed to store master audio', persistError);
-            }
-        }
-
+          await runJob('master_audio', async ({ signal, reportProgress }) => {
+              // Scripts may have changed while this job waited in the queue
+              await generateMasterVoiceover('Generate voiceover', signal, reportProgress);
+          });
       } catch (error: any) {
+        if (isJobCancelled(error)) return;
         console.error("Batch Generation Error", error);
         alert("Batch Audio Generation Failed: " + error.message);
-      } finally {
-        setIsGeneratingAllAudio(false);
       }
   };
 
+  // --- VOICE CLONING: re-voice the script in the presenter's own voice ---
+  const handleCloneVoice = async () => {
+      if (!video) return;
+      if (!elevenLabsSettings.elevenLabsApiKey) {
+          setShowSettings(true);
+          return;
+      }
+
+      const ranges = selectCloneRanges(timelineEvents);
+      const speechSeconds = totalRangeSeconds(ranges);
+      if (speechSeconds < MIN_CLONE_SECONDS) {
+          alert(`Found only ${Math.round(speechSeconds)}s of clean narration; at least ${MIN_CLONE_SECONDS}s is needed. Run a deep analysis first.`);
+          return;
+      }
+
+      try {
+          const voiceId = await runJob('voice_clone', async ({ signal, reportProgress }) => {
+              reportProgress('Extracting narration', 0);
+              // CDN-backed projects only carry a placeholder File; their audio is streamed instead
+              const media = video.file.size > 0 ? video.file : video.previewUrl;
+              const samples = await extractCloneSamples(media, ranges, signal);
+
+              reportProgress(`Cloning from ${Math.round(speechSeconds)}s of speech`, 0.5);
+              const name = `${(video.fileName || video.file.name).split('.').shift() || 'Presenter'} (cloned)`;
+              return cloneVoice(elevenLabsSettings.elevenLabsApiKey, name, samples, {
+                  description: `Cloned in ${APP_NAME} from the original narration`,
+                  signal
+              });
+          });
+
+          setElevenLabsSettings(prev => ({ ...prev, elevenLabsVoiceId: voiceId }));
+          setAvailableVoices(await fetchVoices(elevenLabsSettings.elevenLabsApiKey));
+          alert('Voice cloned and selected. Generate the voiceover again to hear the script in it.');
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
+          console.error('Voice cloning failed', e);
+          alert(`Failed to clone voice: ${e.message}`);
+      }
+  };
+
+  // Interrupted deep scans pick up from their last finished window; other jobs start over
+  const handleResumeJob = (job: Job) => {
+      const resumable = canResumeJob(job);
+      const restart: Record<JobKind, () => void> = {
+          deep_analysis: () => startDeepAnalysis(resumable ? job : undefined),
+          silence_detection: handleDetectSilence,
+          context_validation: handleValidateContext,
+          polish: handlePolishScripts,
+          chapters: handleSuggestChapters,
+          publishing: handleGeneratePublishing,
+          highlight_reel: () => handleGenerateHighlightReel(highlightPlan?.targetSeconds ?? DEFAULT_HIGHLIGHT_SECONDS),
+          master_audio: handleGenerateAllAudio,
+          regenerate_all: handleRegenerateAll,
+          voice_clone: handleCloneVoice
+      };
+      if (!resumable) dismissJobs([job.id]);
+      restart[job.kind]();
+  };
+
   const handleLoomDirectImport = async () => {
     if (!externalUrl) return;
     setIsDownloading(true);
@@ -1599,7 +2028,7 @@ function AuthenticatedApp() {
     setIsAnalyzing(true);
 
     try {
-      const responseText = await sendMessageToGemini(
+      const responseText = await sendChatMessage(
         userMsg.text, 
         video.fileUri, 
         video.mimeType, 
@@ -1643,29 +2072,61 @@ function AuthenticatedApp() {
           if (masterAudioUrl && nextClip.audioStartTime !== undefined && audioPlayerRef.current) {
                audioPlayerRef.current.currentTime = nextClip.audioStartTime;
           } else if (videoRef.current) {
-               videoRef.current.currentTime = nextClip.startTime;
+               videoRef.current.currentTime = getClipFragments(nextClip)[0]?.start ?? nextClip.startTime;
           }
       }
   }, [clips, activeClipId, masterAudioUrl]);
 
   // PERFORMANCE: Memoized clip manipulation handlers
   const moveClip = useCallback((index: number, direction: 'left' | 'right') => {
-      setClips(prevClips => {
-          const newClips = [...prevClips];
+      const newClips = [...editorStateRef.current.clips];
       const targetIndex = direction === 'left' ? index - 1 : index + 1;
-      if (targetIndex >= 0 && targetIndex < newClips.length) {
-          [newClips[index], newClips[targetIndex]] = [newClips[targetIndex], newClips[index]];
-              return newClips;
-          }
-          return prevClips;
-      });
-      invalidateMasterAudio(); // Invalidate audio order
-  }, [invalidateMasterAudio]);
+      if (targetIndex < 0 || targetIndex >= newClips.length) return;
+      [newClips[index], newClips[targetIndex]] = [newClips[targetIndex], newClips[index]];
+      commitEdit('Move clip', { clips: newClips, masterAudio: null }); // Invalidate audio order
+  }, [commitEdit]);
+
+  // Timeline drag-and-drop: drop the clip at `toIndex` of the list without it
+  const reorderClip = useCallback((fromIndex: number, toIndex: number) => {
+      const newClips = [...editorStateRef.current.clips];
+      const [moved] = newClips.splice(fromIndex, 1);
+      if (!moved) return;
+      newClips.splice(toIndex, 0, moved);
+      commitEdit('Move clip', { clips: newClips, masterAudio: null }); // Invalidate audio order
+  }, [commitEdit]);
+
+  /**
+   * Timeline edge trim. Later clips always close the gap; with ripple on, overlay items
+   * after the trimmed clip shift by the same amount so they stay on their shots.
+   */
+  const trimClipEdge = useCallback((clipId: string, edge: 'start' | 'end', sourceTime: number, ripple: boolean) => {
+      const { clips: currentClips, tracks: currentTracks } = editorStateRef.current;
+      const index = currentClips.findIndex(c => c.id === clipId);
+      if (index === -1) return;
+      const clip = currentClips[index];
+      // The master audio is invalidated below, so its span no longer applies to this clip
+      const { audioStartTime, audioEndTime, voiceoverWords, ...trimmed } = trimClip(clip, edge, sourceTime);
+      const newClips = [...currentClips];
+      newClips[index] = trimmed;
+
+      const patch: EditorPatch = { clips: newClips, masterAudio: null }; // Invalidate audio
+      // Without master audio the sequence follows video durations
+      const shift = getClipVisualDuration(trimmed) - getClipVisualDuration(clip);
+      if (ripple && shift !== 0 && currentTracks.length > 0) {
+          const clipEnd = currentClips.slice(0, index + 1).reduce((acc, c) => acc + getClipVisualDuration(c), 0);
+          patch.tracks = currentTracks.map(track => track.locked ? track : {
+              ...track,
+              items: track.items.map(item => item.start >= clipEnd - 0.01 ? { ...item, start: Math.max(0, item.start + shift) } : item)
+          });
+      }
+      commitEdit('Trim clip', patch);
+  }, [commitEdit]);
 
   const deleteClip = useCallback((id: string) => {
-    setClips(prevClips => {
-        const currentIndex = prevClips.findIndex(c => c.id === id);
-        const newClips = prevClips.filter(c => c.id !== id);
+    const prevClips = editorStateRef.current.clips;
+    const currentIndex = prevClips.findIndex(c => c.id === id);
+    if (currentIndex === -1) return;
+    const newClips = prevClips.filter(c => c.id !== id);
     
     if (activeClipId === id) {
         if (newClips.length > 0) {
@@ -1677,10 +2138,8 @@ function AuthenticatedApp() {
             setIsPlaying(false);
         }
     }
-        return newClips;
-    });
-    invalidateMasterAudio(); // Invalidate audio
-  }, [activeClipId, invalidateMasterAudio]);
+    commitEdit('Delete clip', { clips: newClips, masterAudio: null }); // Invalidate audio
+  }, [activeClipId, commitEdit]);
 
   const fixRedundancy = (clipId: string, event: TimelineEvent) => {
       const clip = clips.find(c => c.id === clipId);
@@ -1699,19 +2158,18 @@ function AuthenticatedApp() {
       if (cutStart >= cutEnd) return;
 
       const clipBefore: Clip = {
-          ...clip,
+          ...sliceClip(clip, clip.startTime, cutStart),
           id: generateId(),
           title: clip.title + " (Part A)",
-          endTime: cutStart,
           redundancies: [] 
       };
       
       const clipAfter: Clip = {
-          ...clip,
+          ...sliceClip(clip, cutEnd, clip.endTime),
           id: generateId(),
           title: clip.title + " (Part B)",
-          startTime: cutEnd,
-          redundancies: [] 
+          redundancies: [],
+          chapterTitle: undefined
       };
 
       const newSegments = [];
@@ -1729,8 +2187,7 @@ function AuthenticatedApp() {
           if (activeClipId === clipId) setActiveClipId(newSegments[0]?.id || null);
       }
       
-      setClips(newClips);
-      invalidateMasterAudio(); // Invalidate audio
+      commitEdit('Cut redundancy', { clips: newClips, masterAudio: null }); // Invalidate audio
   };
 
   const splitClipAtPlayhead = useCallback(() => {
@@ -1742,18 +2199,17 @@ function AuthenticatedApp() {
     const clip = clips[clipIndex];
 
     if (currentTime > clip.startTime + 0.5 && currentTime < clip.endTime - 0.5) {
-       const clipA: Clip = { ...clip, id: generateId(), endTime: currentTime, title: clip.title + " (Cut 1)" };
-       const clipB: Clip = { ...clip, id: generateId(), startTime: currentTime, title: clip.title + " (Cut 2)", redundancies: [] }; 
+       const clipA: Clip = { ...sliceClip(clip, clip.startTime, currentTime), id: generateId(), title: clip.title + " (Cut 1)" };
+       const clipB: Clip = { ...sliceClip(clip, currentTime, clip.endTime), id: generateId(), title: clip.title + " (Cut 2)", redundancies: [], chapterTitle: undefined }; 
        
        const newClips = [...clips];
        newClips.splice(clipIndex, 1, clipA, clipB);
-       setClips(newClips);
+       commitEdit('Split clip', { clips: newClips, masterAudio: null }); // Invalidate audio
        setActiveClipId(clipB.id); 
-       invalidateMasterAudio(); // Invalidate audio
     } else {
         alert("Playhead must be inside the active clip to split.");
     }
-  }, [activeClipId, clips, invalidateMasterAudio]);
+  }, [activeClipId, clips, commitEdit]);
 
   // --- TRANSCRIPT EDITING HANDLERS ---
   const handleStartEdit = useCallback((clip: Clip) => {
@@ -1764,14 +2220,236 @@ function AuthenticatedApp() {
   const handleSaveEdit = useCallback(() => {
     if (!editingClipId) return;
 
-    setClips(prevClips => prevClips.map(c => 
+    const editedClips = editorStateRef.current.clips.map(c => 
         c.id === editingClipId ? { ...c, improvedTranscript: editingText } : c
-    ));
+    );
 
     // Invalidate audio because text changed
-    invalidateMasterAudio();
+    commitEdit('Edit script', { clips: editedClips, masterAudio: null });
     setEditingClipId(null);
-  }, [editingClipId, editingText, invalidateMasterAudio]);
+  }, [editingClipId, editingText, commitEdit]);
+
+  // Deleting words in the transcript editor cuts exactly those ranges out of the clip's video
+  const handleUpdateTranscriptWords = useCallback((clipId: string, words: TranscriptWord[]) => {
+    const editedClips = editorStateRef.current.clips.map(c => {
+      if (c.id !== clipId) return c;
+      const { visualFragments: _previous, ...rest } = c;
+      const visualFragments = buildFragmentsFromWords(c, words);
+      return {
+        ...rest,
+        words,
+        transcript: words.filter(w => !w.deleted).map(w => w.text).join(' '),
+        ...(visualFragments ? { visualFragments } : {})
+      };
+    });
+    commitEdit('Cut words', { clips: editedClips });
+  }, [commitEdit]);
+
+  // Hand-edited fragments (Clip Studio list or the Timeline sub-segments)
+  const handleUpdateFragments = useCallback((clipId: string, fragments: VisualFragment[] | undefined) => {
+    const editedClips = editorStateRef.current.clips.map(c => {
+      if (c.id !== clipId) return c;
+      const { visualFragments: _previous, ...rest } = c;
+      const visualFragments = fragments ? normalizeFragments(c, fragments) : undefined;
+      if (visualFragments && visualFragments.length === 0) return c; // Use delete to drop the whole clip
+      return visualFragments ? { ...rest, visualFragments } : rest;
+    });
+    commitEdit('Edit fragments', { clips: editedClips });
+  }, [commitEdit]);
+
+  const handleRemoveFragment = useCallback((clipId: string, fragmentIndex: number) => {
+    const clip = editorStateRef.current.clips.find(c => c.id === clipId);
+    if (!clip) return;
+    handleUpdateFragments(clipId, getClipFragments(clip).filter((_, i) => i !== fragmentIndex));
+  }, [handleUpdateFragments]);
+
+  // --- SPEAKERS ---
+  const speakers = useMemo(() => resolveSpeakers(clips, elevenLabsSettings.speakers || []), [clips, elevenLabsSettings.speakers]);
+
+  // Names and voices are settings; which clip belongs to whom is an undoable edit
+  const handleChangeSpeaker = useCallback((speaker: Speaker) => {
+    setElevenLabsSettings(prev => ({ ...prev, speakers: updateSpeaker(prev.speakers || [], speaker) }));
+  }, []);
+
+  const handleMergeSpeaker = useCallback((fromId: string, toId: string) => {
+    const { clips: currentClips, timelineEvents: currentEvents } = editorStateRef.current;
+    // The merged clips are voiced by the other speaker now
+    commitEdit('Merge speakers', { ...mergeSpeakerLabels(currentClips, currentEvents, fromId, toId), masterAudio: null });
+  }, [commitEdit]);
+
+  const handleAssignClipSpeaker = useCallback((clipId: string, speakerId: string) => {
+    const nextClips = editorStateRef.current.clips.map(c => (c.id === clipId ? { ...c, speaker: speakerId } : c));
+    commitEdit('Change speaker', { clips: nextClips, masterAudio: null }); // Invalidate audio: the clip's voice changed
+  }, [commitEdit]);
+
+  // --- CHAPTERS & PUBLISHING ---
+  const handleSetChapterTitle = useCallback((clipId: string, title: string | undefined) => {
+    const currentClips = editorStateRef.current.clips;
+    const nextClips = currentClips.map(c => {
+      if (c.id !== clipId) return c;
+      const { chapterTitle, ...rest } = c;
+      return title === undefined ? rest : { ...rest, chapterTitle: title };
+    });
+    const existed = currentClips.some(c => c.id === clipId && c.chapterTitle !== undefined);
+    commitEdit(title === undefined ? 'Remove chapter' : existed ? 'Rename chapter' : 'Add chapter', { clips: nextClips });
+  }, [commitEdit]);
+
+  const handleSuggestChapters = async () => {
+      if (editorStateRef.current.clips.length === 0) return;
+      try {
+          await runJob('chapters', async ({ signal }) => {
+              const { clips, timelineEvents } = editorStateRef.current;
+              const suggestions = await suggestChapters(clips, timelineEvents, signal);
+              if (suggestions.length === 0) throw new Error('The model returned no chapters');
+              commitEdit('Suggest chapters', { clips: applyChapterSuggestions(editorStateRef.current.clips, suggestions) });
+          });
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
+          console.error(e);
+          alert(`Failed to suggest chapters: ${e.message}`);
+      }
+  };
+
+  const handleGeneratePublishing = async () => {
+      if (editorStateRef.current.clips.length === 0) return;
+      try {
+          await runJob('publishing', async ({ signal }) => {
+              const { clips } = editorStateRef.current;
+              setPublishing(await generatePublishingMetadata(clips, getChapters(clips, !!masterAudioUrl), signal));
+          });
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
+          console.error(e);
+          alert(`Failed to write the title and description: ${e.message}`);
+      }
+  };
+
+  // --- HIGHLIGHT REELS & ALTERNATE SEQUENCES ---
+  const handleGenerateHighlightReel = async (targetSeconds: number) => {
+      if (editorStateRef.current.clips.length === 0) return;
+      try {
+          await runJob('highlight_reel', async ({ signal }) => {
+              const { clips, timelineEvents } = editorStateRef.current;
+              const plan = await planHighlightReel(clips, timelineEvents, targetSeconds, signal);
+              if (plan.clipIds.length === 0) throw new Error('The model did not pick any clips');
+              setHighlightPlan(plan);
+          });
+      } catch (e: any) {
+          if (isJobCancelled(e)) return;
+          console.error(e);
+          alert(`Failed to plan the highlight reel: ${e.message}`);
+      }
+  };
+
+  const handleSaveHighlightReel = (name: string) => {
+      if (!highlightPlan || !activeProjectId) return;
+      const reelClips = buildHighlightClips(editorStateRef.current.clips, highlightPlan);
+      if (reelClips.length === 0) return;
+      const reel = createSequence(getUniqueSequenceName(name, sequences), reelClips, null, exportSettings);
+      setSequences(prev => [...prev, reel]);
+      saveProjectSequence(activeProjectId, reel).catch(error => console.error('Failed to save sequence', error));
+      setHighlightPlan(null);
+      setShowHighlightDialog(false);
+      setShowSequencesDialog(true);
+  };
+
+  // Stores the open sequence as it is now and loads another into the editor
+  const handleSwitchSequence = (sequenceId: string) => {
+      const target = sequences.find(s => s.id === sequenceId);
+      if (!target || sequenceId === activeSequenceId || !activeProjectId) return;
+      if (jobs.some(isJobActive)) {
+          alert('Wait for the running jobs to finish, or cancel them, before switching sequences.');
+          return;
+      }
+      const outgoing = liveSequences.find(s => s.id === activeSequenceId);
+      if (outgoing) {
+          setSequences(prev => prev.map(s => (s.id === outgoing.id ? outgoing : s)));
+          saveProjectSequence(activeProjectId, outgoing).catch(error => console.error('Failed to save sequence', error));
+      }
+      setIsPlaying(false);
+      setActiveSequenceId(target.id);
+      applyEditorPatch({ clips: target.clips, masterAudio: target.masterAudio });
+      applyExportSettings(target.exportSettings);
+      clearHistory(); // Edits to the other sequence cannot be replayed on this one
+      setActiveClipId(target.clips[0]?.id ?? null);
+      setCurrentSequenceTime(0);
+      setHighlightPlan(null);
+      setShowSequencesDialog(false);
+  };
+
+  const handleDuplicateSequence = (sequenceId: string) => {
+      const source = liveSequences.find(s => s.id === sequenceId);
+      if (!source || !activeProjectId) return;
+      const copy = duplicateSequence(source, sequences);
+      setSequences(prev => [...prev, copy]);
+      saveProjectSequence(activeProjectId, copy).catch(error => console.error('Failed to save sequence', error));
+  };
+
+  const handleRenameSequence = (sequenceId: string, name: string) => {
+      const sequence = liveSequences.find(s => s.id === sequenceId);
+      if (!sequence || !activeProjectId) return;
+      setSequences(prev => prev.map(s => (s.id === sequenceId ? { ...s, name } : s)));
+      saveProjectSequence(activeProjectId, { ...sequence, name }).catch(error => console.error('Failed to save sequence', error));
+  };
+
+  // The open sequence can't be deleted, so a project always keeps at least one
+  const handleDeleteSequence = (sequenceId: string) => {
+      if (sequenceId === activeSequenceId || !activeProjectId) return;
+      setSequences(prev => prev.filter(s => s.id !== sequenceId));
+      deleteProjectSequence(activeProjectId, sequenceId).catch(error => {
+          console.error('Failed to delete sequence', error);
+          alert(`Failed to delete the sequence: ${error.message}`);
+      });
+  };
+
+  // --- CLIP AUDIO MIX ---
+  const handleChangeClipAudioMix = useCallback((clipId: string, mix: ClipAudioMix) => {
+    const currentClips = editorStateRef.current.clips;
+    const clip = currentClips.find(c => c.id === clipId);
+    const sourceChanged = !!clip && getClipAudioMix(clip).source !== mix.source;
+    const nextClips = currentClips.map(c => (c.id === clipId ? { ...c, audioMix: mix } : c));
+    // The source decides the clip's span in the master track, so a new one needs new audio
+    const patch: EditorPatch = sourceChanged ? { clips: nextClips, masterAudio: null } : { clips: nextClips };
+    commitEdit('Change clip audio', patch);
+  }, [commitEdit]);
+
+  // --- OVERLAY TRACKS ---
+  const handleChangeTracks = useCallback((label: string, nextTracks: TimelineTrack[]) => {
+    commitEdit(label, { tracks: nextTracks });
+  }, [commitEdit]);
+
+  const handleTrackToggle = useCallback((trackId: string, flag: TimelineTrackFlag) => {
+    const nextTracks = editorStateRef.current.tracks.map(t => (t.id === trackId ? { ...t, [flag]: !t[flag] } : t));
+    commitEdit('Toggle track', { tracks: nextTracks });
+  }, [commitEdit]);
+
+  const handleTrackItemChange = useCallback((trackId: string, itemId: string, itemPatch: Partial<TrackItem>) => {
+    const nextTracks = editorStateRef.current.tracks.map(t => (t.id !== trackId ? t : {
+      ...t,
+      items: t.items.map(i => (i.id === itemId ? { ...i, ...itemPatch } : i))
+    }));
+    commitEdit('Move track item', { tracks: nextTracks });
+  }, [commitEdit]);
+
+  const handleTrackItemSelect = useCallback((_trackId: string, itemId: string) => {
+    setSelectedTrackItemId(prev => (prev === itemId ? null : itemId));
+    setActiveTab('clips');
+  }, []);
+
+  const handleUploadTrackAsset = useCallback(async (file: File, type: TrackType) => {
+    if (!activeProjectId) return null;
+    try {
+      return await uploadProjectAsset(activeProjectId, file, {
+        type: isAudioOnlyType(type) ? 'audio' : type === 'video' ? 'video' : 'other',
+        fileName: file.name,
+        contentType: file.type || 'application/octet-stream'
+      });
+    } catch (error: any) {
+      console.error('Track asset upload failed', error);
+      alert(`Upload failed: ${error.message || error}`);
+      return null;
+    }
+  }, [activeProjectId]);
 
   const handleCancelEdit = useCallback(() => {
     setEditingClipId(null);
@@ -1799,7 +2477,7 @@ function AuthenticatedApp() {
       // Check if rawVideoTime falls within this clip's video boundaries
       if (rawVideoTime >= clip.startTime && rawVideoTime < clip.endTime) {
         // Calculate how far into this clip the seek position is
-        const offsetInClip = rawVideoTime - clip.startTime;
+        const offsetInClip = getClipTimeAtSourceTime(clip, rawVideoTime);
         // Set sequence time = accumulated time from previous clips + offset in current clip
         setCurrentSequenceTime(accumulatedSequenceTime + offsetInClip);
         return;
@@ -1901,10 +2579,20 @@ function AuthenticatedApp() {
     [clips, activeClipId]
   );
 
+  // Double-clicking a transcript word (or clicking a fragment start) seeks to it
+  const handleSourceSeek = useCallback((sourceTime: number) => {
+    if (videoRef.current) videoRef.current.currentTime = sourceTime;
+    handleTimelineSeek(sourceTime, activeClipId, sourceTime);
+  }, [activeClipId, handleTimelineSeek]);
+
   // PERFORMANCE: Keyboard shortcuts for timeline/video controls
   useKeyboardShortcuts({
     videoRef,
     seekAmount: 5,
+    onUndo: handleUndo,
+    onRedo: handleRedo,
+    canUndo,
+    canRedo,
   });
 
   // Spacebar shortcut for play/pause
@@ -2094,7 +2782,15 @@ function AuthenticatedApp() {
           </div>
       )}
 
-      <audio ref={audioPlayerRef} className="hidden" />
+      <audio
+        ref={audioPlayerRef}
+        crossOrigin="anonymous"
+        onLoadedMetadata={() => setPreviewLoadCount(n => n + 1)}
+        onError={e => reloadWithoutCors(e.currentTarget)}
+        className="hidden"
+      />
+
+      <JobsPanel jobs={jobs} onCancel={cancelJob} onResume={handleResumeJob} onDismiss={dismissJobs} />
 
       {/* Export Progress Overlay */}
       {isExporting && (
@@ -2110,10 +2806,70 @@ function AuthenticatedApp() {
                       <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${exportProgress}%` }}></div>
                   </div>
                   <p className="text-xs text-zinc-500 mt-2 font-mono">{exportProgress}%</p>
+
+                  <button
+                      onClick={handleCancelExport}
+                      className="mt-6 text-xs text-zinc-400 hover:text-white border border-zinc-700 hover:border-zinc-500 px-4 py-1.5 rounded-lg transition-colors"
+                  >
+                      Cancel Export
+                  </button>
               </div>
           </div>
       )}
 
+      {showExportDialog && (
+          <ExportDialog
+              selectedPresetId={exportPresetId}
+              hasMasterAudio={!!masterAudioUrl}
+              aspectRatio={exportAspectRatio}
+              reframedClipCount={clips.filter(c => c.cropKeyframes && c.cropKeyframes.length > 0).length}
+              totalClipCount={clips.length}
+              isReframing={isReframing}
+              onSelectPreset={setExportPresetId}
+              onSelectAspectRatio={setExportAspectRatio}
+              onAutoReframe={handleAutoReframe}
+              onClearReframe={handleClearReframe}
+              captionStyle={captionStyle}
+              burnInCaptions={burnInCaptions}
+              onCaptionStyleChange={setCaptionStyle}
+              onBurnInCaptionsChange={setBurnInCaptions}
+              onDownloadCaptions={handleDownloadCaptions}
+              audioProcessing={audioProcessing}
+              onAudioProcessingChange={setAudioProcessing}
+              onExport={handleExport}
+              onClose={() => setShowExportDialog(false)}
+          />
+      )}
+
+      {showHighlightDialog && (
+          <HighlightReelDialog
+              clips={clips}
+              plan={highlightPlan}
+              isPlanning={isPlanningHighlights}
+              sequenceName={sequenceName}
+              onGenerate={handleGenerateHighlightReel}
+              onChangePlan={setHighlightPlan}
+              onSave={handleSaveHighlightReel}
+              onClose={() => setShowHighlightDialog(false)}
+          />
+      )}
+
+      {showSequencesDialog && (
+          <SequencesDialog
+              sequences={liveSequences}
+              activeSequenceId={activeSequenceId}
+              onSwitch={handleSwitchSequence}
+              onDuplicate={handleDuplicateSequence}
+              onRename={handleRenameSequence}
+              onDelete={handleDeleteSequence}
+              onClose={() => setShowSequencesDialog(false)}
+          />
+      )}
+
+      {loudnessReport && (
+          <LoudnessReportDialog report={loudnessReport} onClose={() => setLoudnessReport(null)} />
+      )}
+
       {showSettings && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
               <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
@@ -2131,6 +2887,21 @@ function AuthenticatedApp() {
                           />
                       </div>
 
+                      {elevenLabsSettings.elevenLabsApiKey && video && (
+                          <div>
+                              <button
+                                  onClick={handleCloneVoice}
+                                  disabled={isCloningVoice || !hasAnalyzed}
+                                  className="w-full bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 text-white text-xs font-bold py-2 rounded"
+                              >
+                                  {isCloningVoice ? 'Cloning voice...' : 'Clone my voice from this video'}
+                              </button>
+                              <p className="text-[11px] text-zinc-500 mt-1">
+                                  {hasAnalyzed ? 'Uses the analysed speech, skipping redundant takes and silences.' : 'Run a deep analysis first to find the narration.'}
+                              </p>
+                          </div>
+                      )}
+
                       {availableVoices.length > 0 && (
                           <>
                             <div>
@@ -2250,6 +3021,87 @@ function AuthenticatedApp() {
                           </>
                       )}
                   </div>
+
+                  <h2 className="text-lg font-bold text-white mt-8 mb-6">Pronunciation</h2>
+                  <PronunciationSettings
+                      entries={elevenLabsSettings.pronunciationLexicon}
+                      modelId={elevenLabsSettings.elevenLabsModelId}
+                      onChange={(pronunciationLexicon) => setElevenLabsSettings({...elevenLabsSettings, pronunciationLexicon})}
+                  />
+
+                  <h2 className="text-lg font-bold text-white mt-8 mb-6">AI Models</h2>
+                  <ModelSettings
+                      models={elevenLabsSettings.llmModels}
+                      onChange={(llmModels) => setElevenLabsSettings({...elevenLabsSettings, llmModels})}
+                  />
+
+                  <h2 className="text-lg font-bold text-white mt-8 mb-6">Silence Detection</h2>
+                  <div className="space-y-6">
+                      <div>
+                          <div className="flex justify-between mb-2">
+                            <label className="text-xs font-bold text-zinc-400">Silence Threshold</label>
+                            <span className="text-xs text-zinc-500">{silenceSettings.thresholdDb} dB</span>
+                          </div>
+                          <input 
+                            type="range" min="-70" max="-20" step="1"
+                            value={silenceSettings.thresholdDb}
+                            onChange={(e) => setSilenceSettings({...silenceSettings, thresholdDb: parseFloat(e.target.value)})}
+                            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                          />
+                      </div>
+
+                      <div>
+                          <div className="flex justify-between mb-2">
+                            <label className="text-xs font-bold text-zinc-400">Minimum Duration</label>
+                            <span className="text-xs text-zinc-500">{silenceSettings.minDuration}s</span>
+                          </div>
+                          <input 
+                            type="range" min="0.5" max="10" step="0.5"
+                            value={silenceSettings.minDuration}
+                            onChange={(e) => setSilenceSettings({...silenceSettings, minDuration: parseFloat(e.target.value)})}
+                            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                          />
+                      </div>
+
+                      <div>
+                          <div className="flex justify-between mb-2">
+                            <label className="text-xs font-bold text-zinc-400">Padding</label>
+                            <span className="text-xs text-zinc-500">{silenceSettings.padding}s</span>
+                          </div>
+                          <input 
+                            type="range" min="0" max="1" step="0.05"
+                            value={silenceSettings.padding}
+                            onChange={(e) => setSilenceSettings({...silenceSettings, padding: parseFloat(e.target.value)})}
+                            className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                          />
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                          <label className="text-xs font-bold text-zinc-400">Only When Screen Is Static</label>
+                          <button 
+                            onClick={() => setSilenceSettings({...silenceSettings, requireStaticScreen: !silenceSettings.requireStaticScreen})}
+                            className={`w-10 h-5 rounded-full relative transition-colors ${silenceSettings.requireStaticScreen ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+                          >
+                            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${silenceSettings.requireStaticScreen ? 'left-6' : 'left-1'}`}></div>
+                          </button>
+                      </div>
+
+                      {silenceSettings.requireStaticScreen && (
+                          <div>
+                              <div className="flex justify-between mb-2">
+                                <label className="text-xs font-bold text-zinc-400">Motion Sensitivity</label>
+                                <span className="text-xs text-zinc-500">{(silenceSettings.frameDiffThreshold * 100).toFixed(1)}%</span>
+                              </div>
+                              <input 
+                                type="range" min="0.002" max="0.05" step="0.002"
+                                value={silenceSettings.frameDiffThreshold}
+                                onChange={(e) => setSilenceSettings({...silenceSettings, frameDiffThreshold: parseFloat(e.target.value)})}
+                                className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                          </div>
+                      )}
+                  </div>
+
                   <div className="mt-8 pt-4 border-t border-zinc-800 space-y-3">
                       <div className="flex justify-end gap-2">
                           <button onClick={() => setShowSettings(false)} className="px-4 py-2 rounded text-sm text-zinc-400 hover:text-white transition-colors">Close</button>
@@ -2283,20 +3135,37 @@ function AuthenticatedApp() {
            <h1 className="font-semibold text-zinc-100 tracking-tight">{APP_NAME} <span className="text-zinc-500 font-normal text-sm ml-2">Video Intelligence</span></h1>
            <div className="flex gap-2 text-xs items-center">
              {video && !hasAnalyzed && !isDeepScanning && (
-                <button onClick={startDeepAnalysis} className="bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg flex items-center gap-2 transition-colors">
+                <button onClick={() => startDeepAnalysis()} className="bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg flex items-center gap-2 transition-colors">
                    <SparkleIcon /> Analyze & Transcribe
                 </button>
              )}
              {hasAnalyzed && clips.length > 0 && !isDeepScanning && (
                  <button 
-                    onClick={handleExport} 
+                    onClick={() => setShowExportDialog(true)} 
                     disabled={isExporting}
                     className="bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 px-3 py-1.5 rounded-lg flex items-center gap-2 transition-colors"
                  >
-                     <ArrowDownTrayIcon /> Export Video (4K Ready)
+                     <ArrowDownTrayIcon /> Export
+                 </button>
+             )}
+             {hasAnalyzed && clips.length > 0 && !isDeepScanning && (
+                 <button
+                    onClick={() => setShowHighlightDialog(true)}
+                    className="bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 px-3 py-1.5 rounded-lg flex items-center gap-2 transition-colors"
+                 >
+                     <SparkleIcon /> Highlight reel
+                 </button>
+             )}
+             {hasAnalyzed && !isDeepScanning && (
+                 <button
+                    onClick={() => setShowSequencesDialog(true)}
+                    className="bg-zinc-800 hover:bg-zinc-700 text-white border border-zinc-700 px-3 py-1.5 rounded-lg flex items-center gap-2 transition-colors max-w-[12rem]"
+                    title="Switch, duplicate or compare sequences"
+                 >
+                     <RectangleStackIcon /> <span className="truncate">{sequenceName}</span>
                  </button>
              )}
-             {isDeepScanning && <span className="px-3 py-1.5 rounded-lg bg-indigo-500/20 text-indigo-400 animate-pulse flex items-center gap-2"><LoadingSpinner /> Analyzing...</span>}
+             {isDeepScanning && <span className="px-3 py-1.5 rounded-lg bg-indigo-500/20 text-indigo-400 animate-pulse flex items-center gap-2"><LoadingSpinner /> {analysisState.progress || 'Analyzing'}...</span>}
              {hasAnalyzed && <span className="px-3 py-1.5 rounded-lg bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">Analysis Ready</span>}
            </div>
         </header>
@@ -2333,9 +3202,22 @@ function AuthenticatedApp() {
                   <video 
                     ref={videoRef} 
                     src={video.previewUrl} 
+                    crossOrigin="anonymous"
+                    onLoadedMetadata={() => setPreviewLoadCount(n => n + 1)}
+                    onError={e => reloadWithoutCors(e.currentTarget)}
                     className="w-full h-full object-contain" 
                     controls={clips.length === 0} 
                   />
+                  {tracks.length > 0 && (
+                      <TrackPreview
+                        tracks={tracks}
+                        sequenceTime={currentSequenceTime}
+                        sequenceDuration={totalSequenceDuration}
+                        speechRanges={speechRanges}
+                        isPlaying={isPlaying}
+                        videoRef={videoRef as React.RefObject<HTMLVideoElement>}
+                      />
+                  )}
                   
                   {clips.length > 0 && (
                       <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black/90 via-black/60 to-transparent pt-12 pb-4 px-6 opacity-0 group-hover/player:opacity-100 transition-opacity duration-200 flex flex-col gap-3 z-30">
@@ -2469,6 +3351,23 @@ function AuthenticatedApp() {
                             >
                                 <ScissorsIcon />
                             </button>
+                            <div className="h-4 w-px bg-zinc-700"></div>
+                            <button 
+                                onClick={handleUndo}
+                                disabled={!canUndo}
+                                className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                title={canUndo ? `Undo ${historyPast[historyPast.length - 1].label} (Ctrl/Cmd + Z)` : 'Nothing to undo'}
+                            >
+                                <UndoIcon />
+                            </button>
+                            <button 
+                                onClick={handleRedo}
+                                disabled={!canRedo}
+                                className="p-1.5 rounded hover:bg-zinc-800 text-zinc-400 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                title={canRedo ? `Redo ${historyFuture[0].label} (Ctrl/Cmd + Shift + Z)` : 'Nothing to redo'}
+                            >
+                                <RedoIcon />
+                            </button>
                         </div>
                         <div className="flex items-center gap-1.5">
                              <button 
@@ -2487,13 +3386,15 @@ function AuthenticatedApp() {
                                 title="Find silence"
                             >
                                 {isDetectingSilence ? <LoadingSpinner /> : <MoonIcon />}
-                                Silence
+                                {silenceProgress
+                                    ? `${silenceProgress.stage === 'audio' ? 'Audio' : 'Frames'} ${Math.round(silenceProgress.progress * 100)}%`
+                                    : 'Silence'}
                             </button>
                             <button 
                                 onClick={handleValidateContext}
                                 disabled={isValidatingContext || timelineEvents.length === 0}
                                 className="text-[10px] px-2.5 py-1 rounded bg-zinc-800/80 border border-zinc-700/50 text-cyan-400 hover:bg-zinc-700 hover:text-cyan-300 flex items-center gap-1.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                title="Re-validate parallel actions and context switches"
+                                title={analysisState.progress && isValidatingContext ? analysisState.progress : "Re-validate parallel actions and context switches"}
                             >
                                 {isValidatingContext ? <LoadingSpinner /> : '🔄'}
                                 {isValidatingContext ? 'Validating...' : 'Validate'}
@@ -2518,7 +3419,16 @@ function AuthenticatedApp() {
                         onCancelEdit={handleCancelEdit}
                         onEditTextChange={handleEditTextChange}
                         onFixRedundancy={fixRedundancy}
+                        onRemoveFragment={handleRemoveFragment}
                         onSeek={handleTimelineSeek}
+                        tracks={tracks}
+                        selectedTrackItemId={selectedTrackItemId}
+                        onTrackToggle={handleTrackToggle}
+                        onTrackItemSelect={handleTrackItemSelect}
+                        onClipReorder={reorderClip}
+                        onClipTrim={trimClipEdge}
+                        onTrackItemChange={handleTrackItemChange}
+                        eventTimes={timelineEventTimes}
                     />
                                                                 </div>
             )}
@@ -2553,6 +3463,49 @@ function AuthenticatedApp() {
                 </>
             ) : (
                 <div className="flex-1 overflow-y-auto bg-zinc-950 p-4 space-y-4">
+                     <TranscriptEditor
+                        clip={activeClipIndex !== -1 ? clips[activeClipIndex] : null}
+                        onChangeWords={handleUpdateTranscriptWords}
+                        onSeek={handleSourceSeek}
+                     />
+                     <FragmentEditor
+                        clip={activeClipIndex !== -1 ? clips[activeClipIndex] : null}
+                        onChangeFragments={handleUpdateFragments}
+                        onSeek={handleSourceSeek}
+                     />
+                     <SpeakerPanel
+                        speakers={speakers}
+                        clips={clips}
+                        voices={availableVoices}
+                        activeClip={activeClipIndex !== -1 ? clips[activeClipIndex] : null}
+                        onChangeSpeaker={handleChangeSpeaker}
+                        onMergeSpeaker={handleMergeSpeaker}
+                        onAssignClip={handleAssignClipSpeaker}
+                     />
+                     <ChaptersPanel
+                        chapters={chapters}
+                        activeClip={activeClipIndex !== -1 ? clips[activeClipIndex] : null}
+                        publishing={publishing}
+                        isSuggesting={isSuggestingChapters}
+                        isGeneratingPublishing={isGeneratingPublishing}
+                        onSuggestChapters={handleSuggestChapters}
+                        onSetChapterTitle={handleSetChapterTitle}
+                        onGeneratePublishing={handleGeneratePublishing}
+                        onChangePublishing={setPublishing}
+                     />
+                     <ClipAudioPanel
+                        clip={activeClipIndex !== -1 ? clips[activeClipIndex] : null}
+                        onChangeMix={handleChangeClipAudioMix}
+                     />
+                     <TracksPanel
+                        tracks={tracks}
+                        currentTime={currentSequenceTime}
+                        sequenceDuration={totalSequenceDuration}
+                        selectedItemId={selectedTrackItemId}
+                        onSelectItem={setSelectedTrackItemId}
+                        onChangeTracks={handleChangeTracks}
+                        onUploadAsset={handleUploadTrackAsset}
+                     />
                      <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Context-Aware Analysis Events</h3>
                      <div className="space-y-3">
                         {timelineEvents.map((evt, idx) => (
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Clip, PublishingMetadata } from '../types';
+import { Chapter, composeDescription, formatChapterTimestamp, formatYouTubeChapters, getChapterWarnings } from '../services/chapterService';
+
+interface ChaptersPanelProps {
+  chapters: Chapter[];
+  activeClip: Clip | null;
+  publishing: PublishingMetadata | null;
+  isSuggesting: boolean;
+  isGeneratingPublishing: boolean;
+  onSuggestChapters: () => void;
+  onSetChapterTitle: (clipId: string, title: string | undefined) => void; // undefined removes the chapter
+  onGeneratePublishing: () => void;
+  onChangePublishing: (metadata: PublishingMetadata) => void;
+}
+
+const copyText = (text: string) => {
+  navigator.clipboard.writeText(text).catch(error => {
+    console.error('Copy failed', error);
+    alert('Could not copy to the clipboard.');
+  });
+};
+
+const ChaptersPanel: React.FC<ChaptersPanelProps> = ({
+  chapters,
+  activeClip,
+  publishing,
+  isSuggesting,
+  isGeneratingPublishing,
+  onSuggestChapters,
+  onSetChapterTitle,
+  onGeneratePublishing,
+  onChangePublishing
+}) => {
+  const warnings = getChapterWarnings(chapters);
+  const canStartChapter = activeClip && activeClip.chapterTitle === undefined;
+  const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-[11px] text-white outline-none focus:border-indigo-500';
+  const buttonClass = 'text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Chapters</h3>
+        <button onClick={onSuggestChapters} disabled={isSuggesting} className={buttonClass}>
+          {isSuggesting ? 'Suggesting...' : chapters.length > 0 ? 'Re-suggest' : 'Suggest'}
+        </button>
+      </div>
+
+      {chapters.length === 0 ? (
+        <p className="text-[11px] text-zinc-500">No chapters yet. Suggest them, or start one at the selected clip.</p>
+      ) : (
+        <div className="space-y-1.5">
+          {chapters.map(chapter => (
+            <div key={chapter.clipId} className="flex items-center gap-2">
+              <span className="font-mono text-[10px] text-indigo-400 w-12 shrink-0">{formatChapterTimestamp(chapter.start)}</span>
+              {/* Keyed by title so undo/redo and suggestions replace the draft */}
+              <input
+                key={chapter.title}
+                defaultValue={chapter.title}
+                onBlur={(e) => e.target.value.trim() !== chapter.title && onSetChapterTitle(chapter.clipId, e.target.value.trim())}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={inputClass}
+              />
+              <button
+                onClick={() => onSetChapterTitle(chapter.clipId, undefined)}
+                className="px-1 text-zinc-500 hover:text-rose-400"
+                title="Merge into the previous chapter"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {warnings.map(warning => (
+        <p key={warning} className="text-[10px] text-amber-400">{warning}</p>
+      ))}
+
+      <div className="flex flex-wrap gap-1.5">
+        {canStartChapter && (
+          <button onClick={() => onSetChapterTitle(activeClip.id, activeClip.title)} className={buttonClass}>
+            Start chapter at "{activeClip.title}"
+          </button>
+        )}
+        {chapters.length > 0 && (
+          <button onClick={() => copyText(formatYouTubeChapters(chapters))} className={buttonClass}>Copy YouTube chapters</button>
+        )}
+      </div>
+
+      <div className="pt-3 border-t border-zinc-800 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Title & Description</h3>
+          <button onClick={onGeneratePublishing} disabled={isGeneratingPublishing} className={buttonClass}>
+            {isGeneratingPublishing ? 'Writing...' : publishing ? 'Rewrite' : 'Generate'}
+          </button>
+        </div>
+        {publishing && (
+          <>
+            <input
+              value={publishing.title}
+              onChange={(e) => onChangePublishing({ ...publishing, title: e.target.value })}
+              className={inputClass}
+            />
+            <textarea
+              value={publishing.description}
+              onChange={(e) => onChangePublishing({ ...publishing, description: e.target.value })}
+              rows={5}
+              className={`${inputClass} resize-y`}
+            />
+            <input
+              key={publishing.tags.join(',')}
+              defaultValue={publishing.tags.join(', ')}
+              onBlur={(e) => onChangePublishing({ ...publishing, tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })}
+              placeholder="Tags, comma separated"
+              className={inputClass}
+            />
+            <div className="flex flex-wrap gap-1.5">
+              <button onClick={() => copyText(publishing.title)} className={buttonClass}>Copy title</button>
+              <button onClick={() => copyText(composeDescription(publishing, chapters))} className={buttonClass}>Copy description</button>
+              <button onClick={() => copyText(publishing.tags.join(', '))} className={buttonClass}>Copy tags</button>
+            </div>
+            {chapters.length > 0 && (
+              <p className="text-[10px] text-zinc-600">The copied description ends with the chapter list.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChaptersPanel;
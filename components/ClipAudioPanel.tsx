@@ -0,0 +1,49 @@
+import React from 'react';
+import { Clip, ClipAudioMix, ClipAudioSource } from '../types';
+import { CLIP_AUDIO_SOURCE_LABELS, getClipAudioMix } from '../services/audioMixService';
+
+interface ClipAudioPanelProps {
+  clip: Clip | null;
+  onChangeMix: (clipId: string, mix: ClipAudioMix) => void;
+}
+
+const ClipAudioPanel: React.FC<ClipAudioPanelProps> = ({ clip, onChangeMix }) => {
+  if (!clip) return null;
+  const mix = getClipAudioMix(clip);
+  const update = (patch: Partial<ClipAudioMix>) => onChangeMix(clip.id, { ...mix, ...patch });
+
+  const slider = (label: string, value: number, onChange: (value: number) => void) => (
+    <label className="block text-[10px] text-zinc-500">
+      {label} {Math.round(value * 100)}%
+      <input type="range" min={0} max={1} step={0.05} value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full accent-indigo-500" />
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Clip Audio</h3>
+      <div className="flex rounded-md overflow-hidden border border-zinc-800">
+        {(Object.keys(CLIP_AUDIO_SOURCE_LABELS) as ClipAudioSource[]).map(source => (
+          <button
+            key={source}
+            onClick={() => source !== mix.source && update({ source })}
+            className={`flex-1 py-1.5 text-[11px] transition-colors ${
+              mix.source === source ? 'bg-indigo-600 text-white' : 'bg-zinc-900 text-zinc-400 hover:text-white'
+            }`}
+          >
+            {CLIP_AUDIO_SOURCE_LABELS[source]}
+          </button>
+        ))}
+      </div>
+      {mix.source !== 'original' && slider('Voiceover', mix.voiceoverVolume, voiceoverVolume => update({ voiceoverVolume }))}
+      {mix.source !== 'voiceover' && slider('Original', mix.originalVolume, originalVolume => update({ originalVolume }))}
+      {mix.source === 'both' && slider('Original under speech', mix.duckOriginal, duckOriginal => update({ duckOriginal }))}
+      <p className="text-[10px] text-zinc-600">
+        Applies with generated voiceover. Changing the source needs the voiceover to be generated again.
+      </p>
+    </div>
+  );
+};
+
+export default ClipAudioPanel;
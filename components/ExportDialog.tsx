@@ -0,0 +1,303 @@
+import React from 'react';
+import { AudioProcessingSettings, CaptionPosition, CaptionStyle, ExportAspectRatio, ExportPreset } from '../types';
+import { DEFAULT_AUDIO_PROCESSING, EXPORT_PRESETS } from '../constants';
+import { ASPECT_RATIO_OPTIONS } from '../services/reframeService';
+
+interface ExportDialogProps {
+  selectedPresetId: string;
+  hasMasterAudio: boolean;
+  aspectRatio: ExportAspectRatio;
+  reframedClipCount: number;
+  totalClipCount: number;
+  isReframing: boolean;
+  onSelectPreset: (presetId: string) => void;
+  onSelectAspectRatio: (aspectRatio: ExportAspectRatio) => void;
+  onAutoReframe: () => void;
+  onClearReframe: () => void;
+  captionStyle: CaptionStyle;
+  burnInCaptions: boolean;
+  onCaptionStyleChange: (style: CaptionStyle) => void;
+  onBurnInCaptionsChange: (burnIn: boolean) => void;
+  onDownloadCaptions: (format: 'srt' | 'vtt') => void;
+  audioProcessing: AudioProcessingSettings;
+  onAudioProcessingChange: (settings: AudioProcessingSettings) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const CAPTION_FONTS = [
+  { label: 'Inter', value: 'Inter, Helvetica, Arial, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Mono', value: 'Menlo, Consolas, monospace' }
+];
+
+const CAPTION_POSITIONS: CaptionPosition[] = ['top', 'middle', 'bottom'];
+
+const LOUDNESS_TARGETS = [
+  { label: 'Streaming · -14 LUFS', value: -14 },
+  { label: 'Podcast · -16 LUFS', value: -16 },
+  { label: 'Broadcast · -23 LUFS', value: -23 }
+];
+
+const formatBitrate = (bitsPerSecond: number): string => {
+  if (bitsPerSecond >= 1000000) return `${(bitsPerSecond / 1000000).toFixed(1).replace(/\.0$/, '')} Mbps`;
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+const describePreset = (preset: ExportPreset): string => {
+  const audio = `${preset.audioCodec.toUpperCase()} ${formatBitrate(preset.audioBitrate)}`;
+  if (!preset.videoCodec) return `${preset.container.toUpperCase()} · ${audio}`;
+  const resolution = preset.resolution ? `${preset.resolution.height}p` : 'Source';
+  const codec = preset.videoCodec === 'avc' ? 'H.264' : preset.videoCodec.toUpperCase();
+  return `${preset.container.toUpperCase()} · ${codec} · ${resolution} · ${preset.fps}fps · ${formatBitrate(preset.videoBitrate)} · ${audio}`;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  selectedPresetId,
+  hasMasterAudio,
+  aspectRatio,
+  reframedClipCount,
+  totalClipCount,
+  isReframing,
+  onSelectPreset,
+  onSelectAspectRatio,
+  onAutoReframe,
+  onClearReframe,
+  captionStyle,
+  burnInCaptions,
+  onCaptionStyleChange,
+  onBurnInCaptionsChange,
+  onDownloadCaptions,
+  audioProcessing,
+  onAudioProcessingChange,
+  onExport,
+  onClose
+}) => {
+  const selectedPreset = EXPORT_PRESETS.find(p => p.id === selectedPresetId);
+  const hasVideo = !!selectedPreset?.videoCodec;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-2xl w-full max-w-md shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-white mb-1">Export</h2>
+        <p className="text-xs text-zinc-500 mb-6">
+          {hasMasterAudio ? 'Uses the generated voiceover as the soundtrack.' : 'Uses the original video audio as the soundtrack.'}
+        </p>
+
+        <div className="space-y-2">
+          {EXPORT_PRESETS.map(preset => {
+            const isSelected = preset.id === selectedPresetId;
+            return (
+              <button
+                key={preset.id}
+                onClick={() => onSelectPreset(preset.id)}
+                className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                  isSelected
+                    ? 'border-indigo-500 bg-indigo-500/10'
+                    : 'border-zinc-800 bg-zinc-950 hover:border-zinc-700'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-white">{preset.name}</span>
+                  {isSelected && <span className="text-[10px] uppercase tracking-wide text-indigo-400">Selected</span>}
+                </div>
+                {preset.description && <p className="text-xs text-zinc-400 mt-1">{preset.description}</p>}
+                <p className="text-[10px] text-zinc-500 mt-1 font-mono">{describePreset(preset)}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        {hasVideo && (
+          <div className="mt-6">
+            <label className="block text-xs font-bold text-zinc-400 mb-2">Aspect Ratio</label>
+            <div className="grid grid-cols-4 gap-2">
+              {ASPECT_RATIO_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onSelectAspectRatio(option.value)}
+                  className={`px-2 py-2 rounded text-[11px] border transition-colors ${
+                    option.value === aspectRatio
+                      ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                      : 'border-zinc-800 bg-zinc-950 text-zinc-400 hover:border-zinc-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {aspectRatio !== 'source' && (
+              <div className="mt-3 flex items-center justify-between gap-2 bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2">
+                <p className="text-[11px] text-zinc-400">
+                  {reframedClipCount > 0
+                    ? `${reframedClipCount} of ${totalClipCount} clips follow the action. The rest are centre-cropped.`
+                    : 'Clips are centre-cropped.'}
+                </p>
+                <div className="flex gap-1.5 shrink-0">
+                  {reframedClipCount > 0 && (
+                    <button onClick={onClearReframe} disabled={isReframing} className="text-[11px] px-2 py-1 rounded text-zinc-400 hover:text-white transition-colors disabled:opacity-50">
+                      Reset
+                    </button>
+                  )}
+                  <button
+                    onClick={onAutoReframe}
+                    disabled={isReframing}
+                    className="text-[11px] px-2.5 py-1 rounded bg-zinc-800 border border-zinc-700 text-indigo-300 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                  >
+                    {isReframing ? 'Tracking...' : 'Follow the action'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-xs font-bold text-zinc-400">Captions</label>
+            <div className="flex gap-1.5">
+              <button onClick={() => onDownloadCaptions('srt')} className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors">.srt</button>
+              <button onClick={() => onDownloadCaptions('vtt')} className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors">.vtt</button>
+            </div>
+          </div>
+
+          {hasVideo && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={burnInCaptions}
+                  onChange={(e) => onBurnInCaptionsChange(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                Burn captions into the video
+              </label>
+
+              {burnInCaptions && (
+                <div className="mt-3 space-y-3 bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={captionStyle.fontFamily}
+                      onChange={(e) => onCaptionStyleChange({ ...captionStyle, fontFamily: e.target.value })}
+                      className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none"
+                    >
+                      {CAPTION_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                    </select>
+                    <select
+                      value={captionStyle.position}
+                      onChange={(e) => onCaptionStyleChange({ ...captionStyle, position: e.target.value as CaptionPosition })}
+                      className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none capitalize"
+                    >
+                      {CAPTION_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <div className="flex justify-between text-[11px] text-zinc-500 mb-1">
+                      <span>Size</span>
+                      <span>{captionStyle.fontSize}%</span>
+                    </div>
+                    <input
+                      type="range" min="3" max="10" step="0.5"
+                      value={captionStyle.fontSize}
+                      onChange={(e) => onCaptionStyleChange({ ...captionStyle, fontSize: parseFloat(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={captionStyle.highlightCurrentWord}
+                        onChange={(e) => onCaptionStyleChange({ ...captionStyle, highlightCurrentWord: e.target.checked })}
+                        className="accent-indigo-500"
+                      />
+                      Highlight current word
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={captionStyle.textColor}
+                        onChange={(e) => onCaptionStyleChange({ ...captionStyle, textColor: e.target.value })}
+                        title="Text color"
+                        className="w-6 h-6 bg-transparent border-0 cursor-pointer"
+                      />
+                      <input
+                        type="color"
+                        value={captionStyle.highlightColor}
+                        onChange={(e) => onCaptionStyleChange({ ...captionStyle, highlightColor: e.target.value })}
+                        title="Highlight color"
+                        disabled={!captionStyle.highlightCurrentWord}
+                        className="w-6 h-6 bg-transparent border-0 cursor-pointer disabled:opacity-30"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="mt-6">
+          <label className="block text-xs font-bold text-zinc-400 mb-2">Audio</label>
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={audioProcessing.enabled}
+              onChange={(e) => onAudioProcessingChange({ ...audioProcessing, enabled: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Clean up and normalise loudness
+          </label>
+
+          {audioProcessing.enabled && (
+            <div className="mt-3 space-y-2 bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+              <select
+                value={audioProcessing.targetLufs}
+                onChange={(e) => onAudioProcessingChange({ ...audioProcessing, targetLufs: parseFloat(e.target.value) })}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none"
+              >
+                {LOUDNESS_TARGETS.map(target => <option key={target.value} value={target.value}>{target.label}</option>)}
+              </select>
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={audioProcessing.highPassHz > 0}
+                  onChange={(e) => onAudioProcessingChange({ ...audioProcessing, highPassHz: e.target.checked ? DEFAULT_AUDIO_PROCESSING.highPassHz : 0 })}
+                  className="accent-indigo-500"
+                />
+                Remove rumble (high-pass {DEFAULT_AUDIO_PROCESSING.highPassHz} Hz)
+              </label>
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={audioProcessing.noiseGateDb !== null}
+                  onChange={(e) => onAudioProcessingChange({ ...audioProcessing, noiseGateDb: e.target.checked ? DEFAULT_AUDIO_PROCESSING.noiseGateDb : null })}
+                  className="accent-indigo-500"
+                />
+                Quieten room noise between words
+              </label>
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={audioProcessing.compress}
+                  onChange={(e) => onAudioProcessingChange({ ...audioProcessing, compress: e.target.checked })}
+                  className="accent-indigo-500"
+                />
+                Compress to even out levels
+              </label>
+              <p className="text-[10px] text-zinc-500">Peaks are limited to {audioProcessing.truePeakDb} dBTP.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8 pt-4 border-t border-zinc-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm text-zinc-400 hover:text-white transition-colors">Cancel</button>
+          <button onClick={onExport} disabled={isReframing} className="px-4 py-2 rounded text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium shadow-lg shadow-indigo-900/20 transition-all disabled:opacity-50">Export</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
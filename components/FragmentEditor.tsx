@@ -0,0 +1,97 @@
+import React from 'react';
+import { Clip, VisualFragment } from '../types';
+import { formatTime } from '../utils';
+import { getClipFragments, getClipVisualDuration } from '../services/sequenceService';
+
+interface FragmentEditorProps {
+  clip: Clip | null;
+  onChangeFragments: (clipId: string, fragments: VisualFragment[] | undefined) => void;
+  onSeek: (sourceTime: number) => void;
+}
+
+const FragmentEditor: React.FC<FragmentEditorProps> = ({ clip, onChangeFragments, onSeek }) => {
+  if (!clip) return null;
+
+  const fragments = getClipFragments(clip);
+  const cutDuration = (clip.endTime - clip.startTime) - getClipVisualDuration(clip);
+
+  const inputClass = 'w-16 bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-white outline-none focus:border-indigo-500';
+
+  const updateFragment = (index: number, patch: Partial<VisualFragment>) => {
+    onChangeFragments(clip.id, fragments.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  // Typed times are a draft until blur/Enter, so half-typed values aren't normalised or put in history
+  const commitTime = (index: number, edge: 'start' | 'end', text: string, fallback: number) => {
+    const parsed = parseFloat(text);
+    updateFragment(index, { [edge]: Number.isFinite(parsed) ? parsed : fallback });
+  };
+
+  const renderTimeInput = (index: number, edge: 'start' | 'end', fallback: number) => {
+    const value = Number(fragments[index][edge].toFixed(2));
+    return (
+      <input
+        key={`${edge}-${value}`}
+        type="number" step="0.1" min={clip.startTime} max={clip.endTime}
+        defaultValue={value}
+        onBlur={(e) => {
+          if (parseFloat(e.target.value) === value) return;
+          commitTime(index, edge, e.target.value, fallback);
+          e.target.value = String(value); // Shows the normalised time if the edit was clamped away
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={inputClass}
+      />
+    );
+  };
+
+  const removeFragment = (index: number) => {
+    onChangeFragments(clip.id, fragments.filter((_, i) => i !== index));
+  };
+
+  // Splits the longest fragment in half so there is something to trim
+  const addFragment = () => {
+    const longest = fragments.reduce((best, f, i) => (f.end - f.start > fragments[best].end - fragments[best].start ? i : best), 0);
+    const target = fragments[longest];
+    const middle = target.start + (target.end - target.start) / 2;
+    const next = [...fragments];
+    next.splice(longest, 1, { start: target.start, end: middle }, { start: middle, end: target.end });
+    onChangeFragments(clip.id, next);
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Fragments</h3>
+        <div className="flex items-center gap-1.5">
+          {cutDuration > 0.05 && <span className="text-[10px] text-rose-400">{cutDuration.toFixed(1)}s cut</span>}
+          <button onClick={addFragment} className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors">
+            Split
+          </button>
+          {clip.visualFragments && (
+            <button onClick={() => onChangeFragments(clip.id, undefined)} className="text-[11px] px-2 py-1 rounded text-zinc-400 hover:text-white transition-colors">
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {fragments.map((fragment, i) => (
+          <div key={i} className="flex items-center gap-2 text-[11px] text-zinc-400">
+            <button onClick={() => onSeek(fragment.start)} className="font-mono text-indigo-400 hover:underline w-10 text-left">{formatTime(fragment.start)}</button>
+            {renderTimeInput(i, 'start', clip.startTime)}
+            <span>→</span>
+            {renderTimeInput(i, 'end', clip.endTime)}
+            <span className="text-zinc-600">{(fragment.end - fragment.start).toFixed(1)}s</span>
+            {fragments.length > 1 && (
+              <button onClick={() => removeFragment(i)} className="ml-auto text-zinc-500 hover:text-rose-400 transition-colors" title="Cut this fragment">✕</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FragmentEditor;
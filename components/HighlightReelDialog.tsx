@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Clip, HighlightReelPlan } from '../types';
+import { DEFAULT_HIGHLIGHT_SECONDS, HIGHLIGHT_MAX_OVERRUN, getHighlightClipDuration, getHighlightDuration, getHighlightTotal } from '../services/highlightService';
+
+interface HighlightReelDialogProps {
+  clips: Clip[];
+  plan: HighlightReelPlan | null;
+  isPlanning: boolean;
+  sequenceName: string; // The sequence open in the editor
+  onGenerate: (targetSeconds: number) => void;
+  onChangePlan: (plan: HighlightReelPlan) => void;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}
+
+const TARGET_OPTIONS = [30, 45, 60];
+
+const formatSeconds = (seconds: number) => `${Math.round(seconds)}s`;
+
+const ScoreBar: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex items-center gap-1" title={`${label}: ${value}/10`}>
+    <span className="text-[9px] text-zinc-500 w-3">{label[0]}</span>
+    <div className="w-10 h-1 rounded bg-zinc-800 overflow-hidden">
+      <div className="h-full bg-indigo-500" style={{ width: `${value * 10}%` }} />
+    </div>
+  </div>
+);
+
+const HighlightReelDialog: React.FC<HighlightReelDialogProps> = ({
+  clips,
+  plan,
+  isPlanning,
+  sequenceName,
+  onGenerate,
+  onChangePlan,
+  onSave,
+  onClose
+}) => {
+  const [targetSeconds, setTargetSeconds] = useState(plan?.targetSeconds ?? DEFAULT_HIGHLIGHT_SECONDS);
+  const [name, setName] = useState('');
+
+  const selected = plan ? plan.clipIds.map(id => clips.find(c => c.id === id)).filter((c): c is Clip => !!c) : [];
+  const unselected = plan
+    ? plan.scores
+        .filter(s => !plan.clipIds.includes(s.clipId))
+        .sort((a, b) => getHighlightTotal(b) - getHighlightTotal(a))
+    : [];
+  const duration = plan ? getHighlightDuration(clips, plan.clipIds) : 0;
+  const defaultName = `Highlight reel (${formatSeconds(plan?.targetSeconds ?? targetSeconds)})`;
+
+  const moveClip = (index: number, offset: number) => {
+    if (!plan) return;
+    const clipIds = [...plan.clipIds];
+    const [moved] = clipIds.splice(index, 1);
+    clipIds.splice(index + offset, 0, moved);
+    onChangePlan({ ...plan, clipIds });
+  };
+
+  const renderClip = (clip: Clip, actions: React.ReactNode) => {
+    const score = plan?.scores.find(s => s.clipId === clip.id);
+    const hookLine = plan?.hookLines.find(h => h.clipId === clip.id);
+    return (
+      <div key={clip.id} className="px-3 py-2 rounded-lg border border-zinc-800 bg-zinc-950">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-zinc-200 truncate">{clip.title}</span>
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="font-mono text-[10px] text-zinc-500 mr-1">{formatSeconds(getHighlightClipDuration(clip))}</span>
+            {actions}
+          </div>
+        </div>
+        {score && (
+          <div className="mt-1 flex items-center gap-2">
+            <ScoreBar label="Hook" value={score.hook} />
+            <ScoreBar label="Completeness" value={score.completeness} />
+            <ScoreBar label="Visual interest" value={score.visualInterest} />
+            <span className="text-[10px] text-zinc-500 truncate">{score.reason}</span>
+          </div>
+        )}
+        {hookLine && <p className="mt-1 text-[11px] text-amber-300">New hook: “{hookLine.text}”</p>}
+      </div>
+    );
+  };
+
+  const actionClass = 'px-1 text-zinc-500 hover:text-white disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-white mb-1">Highlight Reel</h2>
+        <p className="text-xs text-zinc-500 mb-5">
+          Scores every clip of "{sequenceName}" and cuts a short teaser from them. The reel is saved as a new sequence and "{sequenceName}" is left unchanged.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={targetSeconds}
+            onChange={(e) => setTargetSeconds(Number(e.target.value))}
+            className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500"
+          >
+            {TARGET_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds} seconds</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onGenerate(targetSeconds)}
+            disabled={isPlanning || clips.length === 0}
+            className="px-3 py-1.5 rounded text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium transition-colors disabled:opacity-50"
+          >
+            {isPlanning ? 'Scoring clips...' : plan ? 'Generate again' : 'Generate'}
+          </button>
+        </div>
+
+        {plan && (
+          <div className="mt-5 space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Reel · {selected.length} clips</h3>
+                <span className={`font-mono text-xs ${duration > plan.targetSeconds * HIGHLIGHT_MAX_OVERRUN ? 'text-amber-400' : 'text-zinc-400'}`}>
+                  {formatSeconds(duration)} / {formatSeconds(plan.targetSeconds)}
+                </span>
+              </div>
+              {selected.length === 0 ? (
+                <p className="text-[11px] text-zinc-500">No clips selected. Add some from the list below.</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {selected.map((clip, index) => renderClip(clip, (
+                    <>
+                      <button onClick={() => moveClip(index, -1)} disabled={index === 0} className={actionClass} title="Move earlier">↑</button>
+                      <button onClick={() => moveClip(index, 1)} disabled={index === selected.length - 1} className={actionClass} title="Move later">↓</button>
+                      <button
+                        onClick={() => onChangePlan({ ...plan, clipIds: plan.clipIds.filter(id => id !== clip.id) })}
+                        className="px-1 text-zinc-500 hover:text-rose-400"
+                        title="Leave out of the reel"
+                      >
+                        ✕
+                      </button>
+                    </>
+                  )))}
+                </div>
+              )}
+            </div>
+
+            {unselected.length > 0 && (
+              <div>
+                <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Other clips</h3>
+                <div className="space-y-1.5">
+                  {unselected.map(score => {
+                    const clip = clips.find(c => c.id === score.clipId);
+                    return clip && renderClip(clip, (
+                      <button
+                        onClick={() => onChangePlan({ ...plan, clipIds: [...plan.clipIds, clip.id] })}
+                        className="px-1 text-zinc-500 hover:text-emerald-400"
+                        title="Add to the end of the reel"
+                      >
+                        +
+                      </button>
+                    ));
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={defaultName}
+                className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500"
+              />
+              <button
+                onClick={() => onSave(name.trim() || defaultName)}
+                disabled={selected.length === 0}
+                className="px-3 py-1.5 rounded text-xs bg-zinc-800 border border-zinc-700 text-white hover:bg-zinc-700 transition-colors disabled:opacity-50"
+              >
+                Save as sequence
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-zinc-800 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm bg-zinc-800 hover:bg-zinc-700 text-white transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HighlightReelDialog;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Job, JobStatus } from '../types';
+import { canResumeJob, isJobActive } from '../services/jobService';
+
+interface JobsPanelProps {
+  jobs: Job[];
+  onCancel: (jobId: string) => void;
+  onResume: (job: Job) => void; // Re-runs an interrupted or failed job
+  onDismiss: (jobIds: string[]) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-zinc-400',
+  running: 'text-indigo-400',
+  succeeded: 'text-emerald-400',
+  failed: 'text-rose-400',
+  cancelled: 'text-zinc-500',
+  interrupted: 'text-amber-400'
+};
+
+const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, onCancel, onResume, onDismiss }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isJobActive).length;
+  const finishedIds = jobs.filter(j => !isJobActive(j) && j.status !== 'interrupted').map(j => j.id);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-72 bg-zinc-900/95 border border-zinc-800 rounded-xl shadow-2xl backdrop-blur text-xs">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+        <button onClick={() => setIsOpen(!isOpen)} className="font-bold text-zinc-300 hover:text-white">
+          Jobs {activeCount > 0 && <span className="text-indigo-400">({activeCount} active)</span>} {isOpen ? '▾' : '▸'}
+        </button>
+        {finishedIds.length > 0 && (
+          <button onClick={() => onDismiss(finishedIds)} className="text-[10px] text-zinc-500 hover:text-zinc-300">Clear finished</button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="max-h-64 overflow-y-auto divide-y divide-zinc-800/60">
+          {[...jobs].reverse().map(job => (
+            <div key={job.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-zinc-200 truncate">{job.label}</span>
+                <span className={`text-[10px] uppercase tracking-wide ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+              </div>
+              {job.status === 'running' && (
+                <div className="h-1 bg-zinc-800 rounded overflow-hidden">
+                  <div
+                    className={`h-full bg-indigo-500 ${job.progress === null ? 'w-1/3 animate-pulse' : ''}`}
+                    style={job.progress !== null ? { width: `${Math.round(job.progress * 100)}%` } : undefined}
+                  />
+                </div>
+              )}
+              <p className="text-[10px] text-zinc-500 truncate" title={job.error || job.message}>{job.error || job.message}</p>
+              <div className="flex gap-3 text-[10px]">
+                {isJobActive(job) && (
+                  <button onClick={() => onCancel(job.id)} className="text-zinc-400 hover:text-rose-400">Cancel</button>
+                )}
+                {(job.status === 'interrupted' || job.status === 'failed') && (
+                  <button onClick={() => onResume(job)} className="text-indigo-400 hover:text-indigo-300">
+                    {canResumeJob(job) ? 'Resume' : 'Retry'}
+                  </button>
+                )}
+                {!isJobActive(job) && (
+                  <button onClick={() => onDismiss([job.id])} className="text-zinc-500 hover:text-zinc-300">Dismiss</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { LoudnessReport } from '../types';
+
+interface LoudnessReportDialogProps {
+  report: LoudnessReport;
+  onClose: () => void;
+}
+
+const ON_TARGET_LU = 1; // Platforms treat anything within 1 LU of their target as compliant
+
+const formatLufs = (value: number | null) => (value === null ? 'Silent' : `${value.toFixed(1)} LUFS`);
+
+const LoudnessReportDialog: React.FC<LoudnessReportDialogProps> = ({ report, onClose }) => {
+  const onTarget = report.outputLufs !== null && Math.abs(report.outputLufs - report.targetLufs) <= ON_TARGET_LU;
+  const rows = [
+    { label: 'Before processing', value: formatLufs(report.inputLufs) },
+    { label: 'Exported loudness', value: formatLufs(report.outputLufs) },
+    { label: 'Target', value: `${report.targetLufs} LUFS` },
+    { label: 'Gain applied', value: `${report.gainDb >= 0 ? '+' : ''}${report.gainDb.toFixed(1)} dB` },
+    { label: 'True peak', value: Number.isFinite(report.truePeakDb) ? `${report.truePeakDb.toFixed(1)} dBTP` : '—' },
+    { label: 'Loudness range', value: `${report.loudnessRange.toFixed(1)} LU` },
+    { label: 'Limited', value: `${report.limitedPercent.toFixed(1)}% of the audio` }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-2xl w-full max-w-sm shadow-2xl">
+        <h2 className="text-lg font-bold text-white mb-1">Loudness Report</h2>
+        <p className={`text-xs mb-5 ${onTarget ? 'text-emerald-400' : 'text-amber-400'}`}>
+          {onTarget
+            ? 'The export is on target.'
+            : 'The export missed the target, usually because the mix is very quiet or heavily limited.'}
+        </p>
+        <dl className="space-y-2">
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between text-xs">
+              <dt className="text-zinc-500">{row.label}</dt>
+              <dd className="font-mono text-zinc-200">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="mt-6 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm bg-zinc-800 hover:bg-zinc-700 text-white transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoudnessReportDialog;
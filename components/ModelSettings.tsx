@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { LLMModelSelection, LLMProviderId, LLMTask } from '../types';
+import { LLM_TASK_LABELS, getProvider, getUnsupportedReason, listProviders, taskNeedsVideo } from '../services/llmService';
+import { clearRecordings, getRecordings, importRecordings, isRecordingEnabled, setRecordingEnabled } from '../services/mockLlmProvider';
+
+interface ModelSettingsProps {
+  models: Record<LLMTask, LLMModelSelection>;
+  onChange: (models: Record<LLMTask, LLMModelSelection>) => void;
+}
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ models, onChange }) => {
+  const [recording, setRecording] = useState(isRecordingEnabled());
+  const [recordingCount, setRecordingCount] = useState(() => getRecordings().length);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectProvider = (task: LLMTask, providerId: LLMProviderId) => {
+    onChange({ ...models, [task]: { provider: providerId, model: getProvider(providerId).models[0] } });
+  };
+
+  const toggleRecording = () => {
+    setRecordingEnabled(!recording);
+    setRecording(!recording);
+  };
+
+  const exportRecordings = () => {
+    const blob = new Blob([JSON.stringify(getRecordings(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'visionary-llm-recordings.json';
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importRecordings(await file.text());
+      setRecordingCount(getRecordings().length);
+      alert(`Imported ${count} recorded responses.`);
+    } catch (error: any) {
+      console.error('Failed to import recordings', error);
+      alert(`Import failed: ${error.message || error}`);
+    }
+  };
+
+  const selectClass = 'bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500';
+
+  return (
+    <div className="space-y-4">
+      {(Object.keys(LLM_TASK_LABELS) as LLMTask[]).map(task => {
+        const selection = models[task];
+        const provider = getProvider(selection.provider);
+        // Video tasks always attach the upload; flag providers that can't take it
+        const warning = taskNeedsVideo(task)
+          ? getUnsupportedReason(provider, { task, messages: [{ role: 'user', parts: [{ fileData: { fileUri: '', mimeType: '' } }] }] })
+          : null;
+        return (
+          <div key={task}>
+            <label className="block text-xs font-bold text-zinc-400 mb-2">{LLM_TASK_LABELS[task]}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <select value={selection.provider} onChange={(e) => selectProvider(task, e.target.value as LLMProviderId)} className={selectClass}>
+                {listProviders().map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+              <input
+                list={`llm-models-${selection.provider}`}
+                value={selection.model}
+                onChange={(e) => onChange({ ...models, [task]: { ...selection, model: e.target.value } })}
+                className={selectClass}
+              />
+            </div>
+            {warning && <p className="text-[10px] text-amber-400 mt-1">{warning}; this task sends the video.</p>}
+          </div>
+        );
+      })}
+      {listProviders().map(p => (
+        <datalist key={p.id} id={`llm-models-${p.id}`}>
+          {p.models.map(m => <option key={m} value={m} />)}
+        </datalist>
+      ))}
+
+      <div className="border-t border-zinc-800 pt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-xs font-bold text-zinc-400">Record Responses</label>
+            <p className="text-[10px] text-zinc-600">Saved for the Mock provider to replay offline ({recordingCount} stored)</p>
+          </div>
+          <button
+            onClick={toggleRecording}
+            className={`w-10 h-5 rounded-full relative transition-colors shrink-0 ${recording ? 'bg-indigo-600' : 'bg-zinc-700'}`}
+          >
+            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${recording ? 'left-6' : 'left-1'}`}></div>
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={exportRecordings} disabled={recordingCount === 0} className="flex-1 text-xs py-1.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 disabled:opacity-40">Export</button>
+          <button onClick={() => importInputRef.current?.click()} className="flex-1 text-xs py-1.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700">Import</button>
+          <button onClick={() => { clearRecordings(); setRecordingCount(0); }} disabled={recordingCount === 0} className="flex-1 text-xs py-1.5 rounded text-zinc-400 hover:text-rose-400 disabled:opacity-40">Clear</button>
+        </div>
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
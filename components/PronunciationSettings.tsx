@@ -0,0 +1,66 @@
+import React from 'react';
+import { PronunciationEntry } from '../types';
+import { generateId } from '../utils';
+import { supportsPhonemes } from '../services/speechMarkupService';
+
+interface PronunciationSettingsProps {
+  entries: PronunciationEntry[];
+  modelId: string;
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+const PronunciationSettings: React.FC<PronunciationSettingsProps> = ({ entries, modelId, onChange }) => {
+  const updateEntry = (id: string, patch: Partial<PronunciationEntry>) => {
+    onChange(entries.map(e => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const inputClass = 'min-w-0 flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500';
+  const phonemesUsed = supportsPhonemes(modelId);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[11px] text-zinc-500 leading-relaxed">
+        Terms are replaced by their respelling when the voiceover is generated.
+        {phonemesUsed ? ' IPA phonemes take precedence on this model.' : ' IPA phonemes are only used by Turbo v2 and Monolingual v1.'}
+        {' '}In scripts, <code className="text-zinc-400">[pause 1.5s]</code> adds a break and <code className="text-zinc-400">*word*</code> adds emphasis.
+      </p>
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center gap-2">
+          <input
+            value={entry.term}
+            onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+            placeholder="Nano Banana"
+            className={inputClass}
+          />
+          <input
+            value={entry.alias}
+            onChange={(e) => updateEntry(entry.id, { alias: e.target.value })}
+            placeholder="Nah-no buh-nah-nah"
+            className={inputClass}
+          />
+          <input
+            value={entry.phoneme || ''}
+            onChange={(e) => updateEntry(entry.id, { phoneme: e.target.value || undefined })}
+            placeholder="IPA (optional)"
+            className={`${inputClass} ${phonemesUsed ? '' : 'opacity-50'}`}
+          />
+          <button
+            onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+            className="text-zinc-500 hover:text-rose-400 text-xs px-1"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...entries, { id: generateId(), term: '', alias: '' }])}
+        className="text-xs text-indigo-400 hover:text-indigo-300"
+      >
+        + Add term
+      </button>
+    </div>
+  );
+};
+
+export default PronunciationSettings;
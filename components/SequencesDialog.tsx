@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Clip, ProjectSequence } from '../types';
+import { EXPORT_PRESETS } from '../constants';
+import { ASPECT_RATIO_OPTIONS } from '../services/reframeService';
+import { compareSequences, getSequenceDuration } from '../services/projectSequenceService';
+
+interface SequencesDialogProps {
+  sequences: ProjectSequence[]; // The open one with its live, unsaved state
+  activeSequenceId: string | null;
+  onSwitch: (sequenceId: string) => void;
+  onDuplicate: (sequenceId: string) => void;
+  onRename: (sequenceId: string, name: string) => void;
+  onDelete: (sequenceId: string) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const describeExport = (sequence: ProjectSequence) => {
+  const preset = EXPORT_PRESETS.find(p => p.id === sequence.exportSettings.presetId);
+  const aspect = ASPECT_RATIO_OPTIONS.find(o => o.value === sequence.exportSettings.aspectRatio);
+  return [preset?.name, aspect && aspect.value !== 'source' ? aspect.label : null].filter(Boolean).join(' · ');
+};
+
+const ClipList: React.FC<{ title: string; clips: Clip[] }> = ({ title, clips }) => (
+  clips.length === 0 ? null : (
+    <div>
+      <p className="text-[10px] text-zinc-500 mb-1">{title}</p>
+      <ul className="space-y-0.5">
+        {clips.map(clip => (
+          <li key={clip.id} className="text-[11px] text-zinc-300 truncate">{clip.title}</li>
+        ))}
+      </ul>
+    </div>
+  )
+);
+
+const SequencesDialog: React.FC<SequencesDialogProps> = ({
+  sequences,
+  activeSequenceId,
+  onSwitch,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onClose
+}) => {
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string]>(() => [
+    activeSequenceId ?? sequences[0]?.id ?? '',
+    sequences.find(s => s.id !== activeSequenceId)?.id ?? ''
+  ]);
+
+  const compareA = sequences.find(s => s.id === compareIds[0]);
+  const compareB = sequences.find(s => s.id === compareIds[1]);
+  const comparison = compareA && compareB && compareA.id !== compareB.id ? compareSequences(compareA, compareB) : null;
+  const selectClass = 'flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 p-6 rounded-2xl w-full max-w-lg shadow-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-white mb-1">Sequences</h2>
+        <p className="text-xs text-zinc-500 mb-5">
+          Versions of this project's edit. Each keeps its own clips, voiceover and export settings.
+        </p>
+
+        <div className="space-y-2">
+          {sequences.map(sequence => {
+            const isActive = sequence.id === activeSequenceId;
+            return (
+              <div
+                key={sequence.id}
+                className={`px-3 py-2 rounded-lg border ${isActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-zinc-800 bg-zinc-950'}`}
+              >
+                <div className="flex items-center gap-2">
+                  {/* Keyed by name so a rename elsewhere replaces the draft */}
+                  <input
+                    key={sequence.name}
+                    defaultValue={sequence.name}
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== sequence.name) onRename(sequence.id, name);
+                      else e.target.value = sequence.name;
+                    }}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="flex-1 min-w-0 bg-transparent text-sm text-white outline-none border-b border-transparent focus:border-indigo-500"
+                  />
+                  {isActive && <span className="text-[10px] text-indigo-300 uppercase tracking-wider">Open</span>}
+                </div>
+                <div className="mt-1 flex items-center justify-between gap-2">
+                  <span className="text-[10px] text-zinc-500 truncate">
+                    {sequence.clips.length} clips · {formatDuration(getSequenceDuration(sequence))}
+                    {sequence.masterAudio ? ' · voiceover' : ''} · {describeExport(sequence)}
+                  </span>
+                  <div className="flex items-center gap-2 text-xs shrink-0">
+                    {!isActive && <button onClick={() => onSwitch(sequence.id)} className="text-indigo-400 hover:text-indigo-300">Open</button>}
+                    <button onClick={() => onDuplicate(sequence.id)} className="text-zinc-400 hover:text-white">Duplicate</button>
+                    {!isActive && (pendingDeleteId === sequence.id ? (
+                      <button onClick={() => onDelete(sequence.id)} className="text-rose-400 hover:text-rose-300">Confirm delete</button>
+                    ) : (
+                      <button onClick={() => setPendingDeleteId(sequence.id)} className="text-zinc-500 hover:text-rose-400">Delete</button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {sequences.length > 1 && (
+          <div className="mt-6 pt-4 border-t border-zinc-800">
+            <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Compare</h3>
+            <div className="flex items-center gap-2">
+              <select value={compareIds[0]} onChange={(e) => setCompareIds([e.target.value, compareIds[1]])} className={selectClass}>
+                {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              <span className="text-xs text-zinc-500">vs</span>
+              <select value={compareIds[1]} onChange={(e) => setCompareIds([compareIds[0], e.target.value])} className={selectClass}>
+                {sequences.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </div>
+
+            {comparison && compareA && compareB ? (
+              <div className="mt-3 space-y-3">
+                <dl className="grid grid-cols-3 gap-y-1 text-xs">
+                  <dt className="text-zinc-500">Length</dt>
+                  <dd className="font-mono text-zinc-200">{formatDuration(comparison.duration[0])}</dd>
+                  <dd className="font-mono text-zinc-200">{formatDuration(comparison.duration[1])}</dd>
+                  <dt className="text-zinc-500">Clips</dt>
+                  <dd className="font-mono text-zinc-200">{comparison.clipCount[0]}</dd>
+                  <dd className="font-mono text-zinc-200">{comparison.clipCount[1]}</dd>
+                  <dt className="text-zinc-500">Export</dt>
+                  <dd className="text-zinc-300 truncate">{describeExport(compareA)}</dd>
+                  <dd className="text-zinc-300 truncate">{describeExport(compareB)}</dd>
+                </dl>
+                <div className="grid grid-cols-2 gap-3">
+                  <ClipList title={`Only in ${compareA.name}`} clips={comparison.onlyIn[0]} />
+                  <ClipList title={`Only in ${compareB.name}`} clips={comparison.onlyIn[1]} />
+                </div>
+                <ClipList title="Cut or script differs" clips={comparison.changed} />
+                {comparison.reordered && <p className="text-[10px] text-zinc-500">Shared clips play in a different order.</p>}
+                {comparison.onlyIn[0].length === 0 && comparison.onlyIn[1].length === 0 && comparison.changed.length === 0 && !comparison.reordered && (
+                  <p className="text-[11px] text-zinc-500">Both sequences have the same clips.</p>
+                )}
+              </div>
+            ) : (
+              <p className="mt-3 text-[11px] text-zinc-500">Pick two different sequences.</p>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 pt-4 border-t border-zinc-800 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm bg-zinc-800 hover:bg-zinc-700 text-white transition-colors">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SequencesDialog;
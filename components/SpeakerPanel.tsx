@@ -0,0 +1,83 @@
+import React from 'react';
+import { Clip, ElevenLabsVoice, Speaker } from '../types';
+
+interface SpeakerPanelProps {
+  speakers: Speaker[];
+  clips: Clip[];
+  voices: ElevenLabsVoice[];
+  activeClip: Clip | null;
+  onChangeSpeaker: (speaker: Speaker) => void;
+  onMergeSpeaker: (fromId: string, toId: string) => void;
+  onAssignClip: (clipId: string, speakerId: string) => void;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, clips, voices, activeClip, onChangeSpeaker, onMergeSpeaker, onAssignClip }) => {
+  if (speakers.length === 0) return null;
+
+  const selectClass = 'bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-[11px] text-white outline-none focus:border-indigo-500';
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Speakers</h3>
+      {speakers.map(speaker => {
+        const clipCount = clips.filter(c => c.speaker === speaker.id).length;
+        const others = speakers.filter(s => s.id !== speaker.id);
+        return (
+          <div key={speaker.id} className="bg-zinc-900/60 border border-zinc-800 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-[10px] text-zinc-500">{speaker.id}</span>
+              <input
+                value={speaker.name}
+                onChange={(e) => onChangeSpeaker({ ...speaker, name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent border-b border-zinc-800 focus:border-indigo-500 text-sm text-white outline-none"
+              />
+              <span className="text-[10px] text-zinc-500">{clipCount} clip{clipCount === 1 ? '' : 's'}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={speaker.voiceId ?? ''}
+                onChange={(e) => onChangeSpeaker({ ...speaker, voiceId: e.target.value || null })}
+                className={`${selectClass} flex-1`}
+              >
+                <option value="">Project voice</option>
+                {voices.map(v => (
+                  <option key={v.voice_id} value={v.voice_id}>{v.name}</option>
+                ))}
+              </select>
+              {others.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onMergeSpeaker(speaker.id, e.target.value)}
+                  className={selectClass}
+                  title="Same person labelled twice? Merge into another speaker"
+                >
+                  <option value="">Merge into…</option>
+                  {others.map(o => (
+                    <option key={o.id} value={o.id}>{o.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {activeClip && (
+        <div className="flex items-center justify-between gap-2 text-[11px] text-zinc-400">
+          <span className="truncate">Speaker of "{activeClip.title}"</span>
+          <select
+            value={activeClip.speaker ?? ''}
+            onChange={(e) => e.target.value && onAssignClip(activeClip.id, e.target.value)}
+            className={selectClass}
+          >
+            {!activeClip.speaker && <option value="">Unassigned</option>}
+            {speakers.map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
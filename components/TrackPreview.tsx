@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimelineTrack, TrackItem } from '../types';
+import { getAudibleTracks, getItemMediaTime, getItemRect, getVisibleTracks, isAudioOnlyType, isItemActiveAt } from '../services/trackService';
+import { getMusicGain } from '../services/audioMixService';
+
+interface TrackPreviewProps {
+  tracks: TimelineTrack[];
+  sequenceTime: number;
+  sequenceDuration: number;
+  speechRanges: { start: number; end: number }[]; // Where music ducks, in sequence time
+  isPlaying: boolean;
+  videoRef: React.RefObject<HTMLVideoElement>;
+}
+
+// Displayed video frame inside the (object-contain) player, in CSS pixels
+interface FrameBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const DRIFT_TOLERANCE = 0.3; // Seconds before an overlay element is re-seeked
+
+/**
+ * Live preview of the overlay tracks on top of the player: images and lower-thirds as DOM layers,
+ * B-roll, sounds and music as media elements kept in sync with the sequence time.
+ */
+const TrackPreview: React.FC<TrackPreviewProps> = ({ tracks, sequenceTime, sequenceDuration, speechRanges, isPlaying, videoRef }) => {
+  const [frame, setFrame] = useState<FrameBox | null>(null);
+  const mediaRefs = useRef(new Map<string, HTMLMediaElement>());
+
+  // Follow the letterboxed video frame so normalized rects land where the export draws them
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const measure = () => {
+      if (!video.videoWidth || !video.videoHeight) return;
+      const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      setFrame({
+        left: video.offsetLeft + (video.clientWidth - width) / 2,
+        top: video.offsetTop + (video.clientHeight - height) / 2,
+        width,
+        height
+      });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', measure);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', measure);
+    };
+  }, [videoRef]);
+
+  const audibleIds = new Set(getAudibleTracks(tracks).map(t => t.id));
+  const mediaItems = tracks.flatMap(track =>
+    track.items
+      .filter(item => item.type !== 'image' && item.type !== 'text' && item.assetUrl)
+      .map(item => ({ track, item }))
+  );
+
+  // Keep every media element at the right offset; inactive ones stay paused
+  useEffect(() => {
+    for (const { track, item } of mediaItems) {
+      const element = mediaRefs.current.get(item.id);
+      if (!element) continue;
+      const active = isItemActiveAt(item, sequenceTime);
+      const volume = item.type === 'music' ? getMusicGain(item, sequenceTime, speechRanges, sequenceDuration) : item.volume ?? 1;
+      element.muted = !audibleIds.has(track.id);
+      element.volume = Math.min(1, Math.max(0, volume));
+
+      if (!active) {
+        if (!element.paused) element.pause();
+        continue;
+      }
+      const target = getItemMediaTime(item, sequenceTime, Number.isFinite(element.duration) ? element.duration : undefined);
+      if (Math.abs(element.currentTime - target) > DRIFT_TOLERANCE) element.currentTime = target;
+      if (isPlaying && element.paused) element.play().catch(() => {});
+      if (!isPlaying && !element.paused) element.pause();
+    }
+  });
+
+  const setMediaRef = (id: string) => (element: HTMLMediaElement | null) => {
+    if (element) mediaRefs.current.set(id, element);
+    else mediaRefs.current.delete(id);
+  };
+
+  const visibleIds = new Set(getVisibleTracks(tracks).map(t => t.id));
+
+  const renderVisual = (track: TimelineTrack, item: TrackItem) => {
+    if (!frame) return null;
+    const rect = getItemRect(item);
+    const active = visibleIds.has(track.id) && isItemActiveAt(item, sequenceTime);
+    const style: React.CSSProperties = {
+      position: 'absolute',
+      left: `${rect.x * 100}%`,
+      top: `${rect.y * 100}%`,
+      width: `${rect.width * 100}%`,
+      height: `${rect.height * 100}%`,
+      opacity: active ? item.opacity ?? 1 : 0
+    };
+
+    if (item.type === 'video') {
+      return (
+        <video
+          key={item.id}
+          ref={setMediaRef(item.id)}
+          src={item.assetUrl}
+          preload="auto"
+          playsInline
+          style={{ ...style, objectFit: 'cover' }}
+        />
+      );
+    }
+    if (!active) return null;
+    if (item.type === 'image') {
+      return <img key={item.id} src={item.assetUrl} alt={item.label || ''} style={{ ...style, objectFit: 'contain' }} />;
+    }
+    const boxHeight = rect.height * frame.height;
+    return (
+      <div key={item.id} style={{ ...style, background: 'rgba(0, 0, 0, 0.65)' }} className="flex flex-col justify-center overflow-hidden border-l-4 border-indigo-500">
+        <span className="text-white font-bold truncate" style={{ fontSize: boxHeight * (item.subtitle ? 0.38 : 0.5), paddingLeft: boxHeight * 0.22 }}>
+          {item.text}
+        </span>
+        {item.subtitle && (
+          <span className="text-white/75 font-medium truncate" style={{ fontSize: boxHeight * 0.24, paddingLeft: boxHeight * 0.22 }}>
+            {item.subtitle}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {frame && (
+        <div
+          className="absolute pointer-events-none overflow-hidden z-20"
+          style={{ left: frame.left, top: frame.top, width: frame.width, height: frame.height }}
+        >
+          {tracks.filter(t => !isAudioOnlyType(t.type)).map(track => track.items.map(item => renderVisual(track, item)))}
+        </div>
+      )}
+      {tracks.filter(t => isAudioOnlyType(t.type)).map(track => track.items.filter(item => item.assetUrl).map(item => (
+        <audio key={item.id} ref={setMediaRef(item.id)} src={item.assetUrl} preload="auto" className="hidden" />
+      )))}
+    </>
+  );
+};
+
+export default TrackPreview;
@@ -0,0 +1,269 @@
+import React, { useRef, useState } from 'react';
+import { TimelineTrack, TrackItem, TrackType } from '../types';
+import { formatTime } from '../utils';
+import {
+  DEFAULT_MUSIC_DUCK,
+  TRACK_TYPE_LABELS,
+  createTrack,
+  createTrackItem,
+  fitItemToSequence,
+  hasSoundType,
+  isAudioOnlyType,
+  moveTrack,
+  readMediaDuration
+} from '../services/trackService';
+
+interface TracksPanelProps {
+  tracks: TimelineTrack[];
+  currentTime: number; // Sequence time new items are placed at
+  sequenceDuration: number; // Music beds span the whole sequence
+  selectedItemId: string | null;
+  onSelectItem: (itemId: string | null) => void;
+  onChangeTracks: (label: string, tracks: TimelineTrack[]) => void;
+  onUploadAsset: (file: File, type: TrackType) => Promise<{ path: string; publicUrl: string } | null>;
+}
+
+const ACCEPT: Partial<Record<TrackType, string>> = {
+  audio: 'audio/*',
+  music: 'audio/*',
+  image: 'image/*',
+  video: 'video/*'
+};
+
+const DEFAULT_STILL_DURATION = 5; // Seconds for logos and lower-thirds
+
+const TracksPanel: React.FC<TracksPanelProps> = ({ tracks, currentTime, sequenceDuration, selectedItemId, onSelectItem, onChangeTracks, onUploadAsset }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingType, setPendingType] = useState<TrackType | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const selectedTrack = tracks.find(t => t.items.some(i => i.id === selectedItemId)) || null;
+  const selectedItem = selectedTrack?.items.find(i => i.id === selectedItemId) || null;
+
+  // New items go on the topmost unlocked track of their type, or a fresh track on top
+  const addItem = (type: TrackType, item: TrackItem) => {
+    const target = [...tracks].reverse().find(t => t.type === type && !t.locked);
+    const next = target
+      ? tracks.map(t => (t.id === target.id ? { ...t, items: [...t.items, item] } : t))
+      : [...tracks, { ...createTrack(type), items: [item] }];
+    onChangeTracks(`Add ${TRACK_TYPE_LABELS[type].toLowerCase()}`, next);
+    onSelectItem(item.id);
+  };
+
+  const startAdd = (type: TrackType) => {
+    if (type === 'text') {
+      addItem('text', createTrackItem('text', currentTime, DEFAULT_STILL_DURATION, { text: 'Name Surname', subtitle: 'Title' }));
+      return;
+    }
+    setPendingType(type);
+    if (fileInputRef.current) {
+      fileInputRef.current.accept = ACCEPT[type] || '';
+      fileInputRef.current.click();
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !pendingType) return;
+    const type = pendingType;
+    setIsUploading(true);
+    try {
+      const uploaded = await onUploadAsset(file, type);
+      if (!uploaded) return;
+      const mediaDuration = type === 'image' ? 0 : await readMediaDuration(uploaded.publicUrl, isAudioOnlyType(type) ? 'audio' : 'video');
+      const item = createTrackItem(type, currentTime, mediaDuration || DEFAULT_STILL_DURATION, {
+        label: file.name,
+        assetUrl: uploaded.publicUrl,
+        assetStoragePath: uploaded.path,
+        mimeType: file.type,
+        ...(type === 'music' && mediaDuration ? { mediaDuration } : {})
+      });
+      addItem(type, type === 'music' && sequenceDuration > 0 ? fitItemToSequence(item, sequenceDuration) : item);
+    } finally {
+      setIsUploading(false);
+      setPendingType(null);
+    }
+  };
+
+  const updateTrack = (label: string, trackId: string, patch: Partial<TimelineTrack>) => {
+    onChangeTracks(label, tracks.map(t => (t.id === trackId ? { ...t, ...patch } : t)));
+  };
+
+  const updateItem = (patch: Partial<TrackItem>) => {
+    if (!selectedTrack || !selectedItem || selectedTrack.locked) return;
+    updateTrack('Edit track item', selectedTrack.id, {
+      items: selectedTrack.items.map(i => (i.id === selectedItem.id ? { ...i, ...patch } : i))
+    });
+  };
+
+  const removeItem = () => {
+    if (!selectedTrack || !selectedItem || selectedTrack.locked) return;
+    updateTrack('Remove track item', selectedTrack.id, { items: selectedTrack.items.filter(i => i.id !== selectedItem.id) });
+    onSelectItem(null);
+  };
+
+  const removeTrack = (track: TimelineTrack) => {
+    onChangeTracks('Remove track', tracks.filter(t => t.id !== track.id));
+    if (track.items.some(i => i.id === selectedItemId)) onSelectItem(null);
+  };
+
+  const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded px-1.5 py-0.5 text-[11px] text-white outline-none focus:border-indigo-500 disabled:opacity-50';
+  const toggleClass = (active: boolean, color: string) =>
+    `w-5 h-5 rounded text-[9px] font-bold transition-colors ${active ? color : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+  const readOnly = selectedTrack?.locked === true;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Tracks</h3>
+        {isUploading && <span className="text-[10px] text-indigo-400 animate-pulse">Uploading...</span>}
+      </div>
+
+      <div className="grid grid-cols-5 gap-1.5 mb-3">
+        {(['music', 'audio', 'image', 'text', 'video'] as TrackType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => startAdd(type)}
+            disabled={isUploading}
+            className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-40"
+          >
+            + {TRACK_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+
+      {tracks.length === 0 ? (
+        <p className="text-xs text-zinc-500">No overlay tracks yet. Add a music bed, a sound, a logo, a lower-third or B-roll at the playhead.</p>
+      ) : (
+        <div className="space-y-2">
+          {/* Topmost track first, matching the timeline */}
+          {[...tracks].reverse().map((track, reversedIndex) => {
+            const index = tracks.length - 1 - reversedIndex;
+            const hasSound = hasSoundType(track.type);
+            return (
+              <div key={track.id} className="border border-zinc-800 rounded-lg p-2">
+                <div className="flex items-center gap-1">
+                  <span className="text-[11px] font-medium text-zinc-300 truncate flex-1">{track.name}</span>
+                  {hasSound && (
+                    <>
+                      <button onClick={() => updateTrack('Toggle track', track.id, { muted: !track.muted })} className={toggleClass(!!track.muted, 'bg-rose-500/80 text-white')} title="Mute">M</button>
+                      <button onClick={() => updateTrack('Toggle track', track.id, { solo: !track.solo })} className={toggleClass(!!track.solo, 'bg-amber-500/80 text-black')} title="Solo">S</button>
+                    </>
+                  )}
+                  {!isAudioOnlyType(track.type) && (
+                    <button onClick={() => updateTrack('Toggle track', track.id, { hidden: !track.hidden })} className={toggleClass(!!track.hidden, 'bg-zinc-500 text-white')} title="Hide">H</button>
+                  )}
+                  <button onClick={() => updateTrack('Toggle track', track.id, { locked: !track.locked })} className={toggleClass(!!track.locked, 'bg-indigo-500/80 text-white')} title="Lock">L</button>
+                  <button onClick={() => onChangeTracks('Reorder tracks', moveTrack(tracks, track.id, 'up'))} disabled={index === tracks.length - 1} className="px-1 text-zinc-500 hover:text-white disabled:opacity-30" title="Move up">▲</button>
+                  <button onClick={() => onChangeTracks('Reorder tracks', moveTrack(tracks, track.id, 'down'))} disabled={index === 0} className="px-1 text-zinc-500 hover:text-white disabled:opacity-30" title="Move down">▼</button>
+                  <button onClick={() => removeTrack(track)} disabled={track.locked} className="px-1 text-zinc-500 hover:text-rose-400 disabled:opacity-30" title="Delete track">✕</button>
+                </div>
+                {track.items.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1.5">
+                    {track.items.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => onSelectItem(item.id === selectedItemId ? null : item.id)}
+                        className={`text-[10px] px-1.5 py-0.5 rounded border transition-colors ${
+                          item.id === selectedItemId ? 'border-indigo-500 bg-indigo-500/20 text-white' : 'border-zinc-700 text-zinc-400 hover:text-white'
+                        }`}
+                      >
+                        {formatTime(item.start)} · {item.label || item.text || TRACK_TYPE_LABELS[item.type]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedItem && (
+        <div className="mt-3 pt-3 border-t border-zinc-800 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[11px] text-zinc-400">{readOnly ? 'Track is locked' : 'Selected item'}</span>
+            <button onClick={removeItem} disabled={readOnly} className="text-[11px] text-zinc-500 hover:text-rose-400 disabled:opacity-30">Remove</button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-zinc-500">
+              Start (s)
+              <input type="number" step="0.1" min={0} disabled={readOnly} value={Number(selectedItem.start.toFixed(2))}
+                onChange={(e) => updateItem({ start: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+            </label>
+            <label className="text-[10px] text-zinc-500">
+              Duration (s)
+              <input type="number" step="0.1" min={0.1} disabled={readOnly} value={Number(selectedItem.duration.toFixed(2))}
+                onChange={(e) => updateItem({ duration: Math.max(0.1, parseFloat(e.target.value) || 0.1) })} className={inputClass} />
+            </label>
+          </div>
+          {hasSoundType(selectedItem.type) && (
+            <label className="block text-[10px] text-zinc-500">
+              Volume {Math.round((selectedItem.volume ?? 1) * 100)}%
+              <input type="range" min={0} max={1} step={0.05} disabled={readOnly} value={selectedItem.volume ?? 1}
+                onChange={(e) => updateItem({ volume: parseFloat(e.target.value) })} className="w-full accent-indigo-500" />
+            </label>
+          )}
+          {selectedItem.type === 'music' && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1.5 text-[10px] text-zinc-500">
+                  <input type="checkbox" disabled={readOnly} checked={!!selectedItem.loop}
+                    onChange={(e) => updateItem({ loop: e.target.checked })} className="accent-indigo-500" />
+                  Loop
+                </label>
+                <button onClick={() => updateItem(fitItemToSequence(selectedItem, sequenceDuration))} disabled={readOnly || sequenceDuration <= 0}
+                  className="text-[10px] text-indigo-400 hover:text-indigo-300 disabled:opacity-30">
+                  Fit to sequence
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[10px] text-zinc-500">
+                  Fade in (s)
+                  <input type="number" step="0.5" min={0} disabled={readOnly} value={selectedItem.fadeIn ?? 0}
+                    onChange={(e) => updateItem({ fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+                </label>
+                <label className="text-[10px] text-zinc-500">
+                  Fade out (s)
+                  <input type="number" step="0.5" min={0} disabled={readOnly} value={selectedItem.fadeOut ?? 0}
+                    onChange={(e) => updateItem({ fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+                </label>
+              </div>
+              <label className="flex items-center gap-1.5 text-[10px] text-zinc-500">
+                <input type="checkbox" disabled={readOnly} checked={selectedItem.duckUnderSpeech !== undefined}
+                  onChange={(e) => updateItem({ duckUnderSpeech: e.target.checked ? DEFAULT_MUSIC_DUCK : undefined })} className="accent-indigo-500" />
+                Duck under narration
+              </label>
+              {selectedItem.duckUnderSpeech !== undefined && (
+                <label className="block text-[10px] text-zinc-500">
+                  Level under speech {Math.round(selectedItem.duckUnderSpeech * 100)}%
+                  <input type="range" min={0} max={1} step={0.05} disabled={readOnly} value={selectedItem.duckUnderSpeech}
+                    onChange={(e) => updateItem({ duckUnderSpeech: parseFloat(e.target.value) })} className="w-full accent-indigo-500" />
+                </label>
+              )}
+            </>
+          )}
+          {selectedItem.type === 'text' && (
+            <>
+              <input type="text" placeholder="Title" disabled={readOnly} value={selectedItem.text || ''}
+                onChange={(e) => updateItem({ text: e.target.value })} className={inputClass} />
+              <input type="text" placeholder="Subtitle" disabled={readOnly} value={selectedItem.subtitle || ''}
+                onChange={(e) => updateItem({ subtitle: e.target.value || undefined })} className={inputClass} />
+            </>
+          )}
+          {!isAudioOnlyType(selectedItem.type) && (
+            <label className="block text-[10px] text-zinc-500">
+              Opacity {Math.round((selectedItem.opacity ?? 1) * 100)}%
+              <input type="range" min={0.1} max={1} step={0.05} disabled={readOnly} value={selectedItem.opacity ?? 1}
+                onChange={(e) => updateItem({ opacity: parseFloat(e.target.value) })} className="w-full accent-indigo-500" />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TracksPanel;
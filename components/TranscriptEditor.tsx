@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { Clip, TranscriptWord } from '../types';
+import { formatTime } from '../utils';
+
+interface TranscriptEditorProps {
+  clip: Clip | null;
+  onChangeWords: (clipId: string, words: TranscriptWord[]) => void;
+  onSeek: (sourceTime: number) => void;
+}
+
+// Selected word range, inclusive, in word indices
+interface WordSelection {
+  anchor: number;
+  focus: number;
+}
+
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ clip, onChangeWords, onSeek }) => {
+  const [selection, setSelection] = useState<WordSelection | null>(null);
+
+  // Selection indices only make sense for the clip they were made in
+  useEffect(() => {
+    setSelection(null);
+  }, [clip?.id]);
+
+  if (!clip) return null;
+
+  const words = clip.words || [];
+  const from = selection ? Math.min(selection.anchor, selection.focus) : -1;
+  const to = selection ? Math.max(selection.anchor, selection.focus) : -1;
+  const deletedCount = words.filter(w => w.deleted).length;
+
+  const handleWordClick = (index: number, e: React.MouseEvent) => {
+    if (e.shiftKey && selection) {
+      setSelection({ anchor: selection.anchor, focus: index });
+    } else {
+      setSelection({ anchor: index, focus: index });
+    }
+  };
+
+  const setDeleted = (deleted: boolean) => {
+    if (!selection) return;
+    onChangeWords(clip.id, words.map((w, i) => (i >= from && i <= to ? { ...w, deleted } : w)));
+    setSelection(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selection) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      setDeleted(true);
+    } else if (e.key === 'Escape') {
+      setSelection(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Transcript</h3>
+        <div className="flex items-center gap-1.5">
+          {deletedCount > 0 && <span className="text-[10px] text-rose-400">{deletedCount} words cut</span>}
+          <button
+            onClick={() => setDeleted(true)}
+            disabled={!selection}
+            className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-rose-300 hover:bg-zinc-700 transition-colors disabled:opacity-40"
+          >
+            Cut
+          </button>
+          <button
+            onClick={() => setDeleted(false)}
+            disabled={!selection}
+            className="text-[11px] px-2 py-1 rounded bg-zinc-800 border border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-40"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+
+      {words.length === 0 ? (
+        <p className="text-xs text-zinc-500">No word timings for this clip. Run the deep analysis again to edit it by text.</p>
+      ) : (
+        <div tabIndex={0} onKeyDown={handleKeyDown} className="text-sm leading-relaxed outline-none max-h-48 overflow-y-auto select-none">
+          {words.map((word, i) => {
+            const isSelected = i >= from && i <= to;
+            return (
+              <span
+                key={`${word.start}-${i}`}
+                onClick={(e) => handleWordClick(i, e)}
+                onDoubleClick={() => onSeek(word.start)}
+                title={formatTime(word.start)}
+                className={`cursor-pointer rounded px-0.5 ${
+                  isSelected ? 'bg-indigo-500/30 text-white' : ''
+                } ${word.deleted ? 'line-through text-zinc-600' : isSelected ? '' : 'text-zinc-300 hover:bg-zinc-800'}`}
+              >
+                {word.text}{' '}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptEditor;
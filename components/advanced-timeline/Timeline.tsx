@@ -12,12 +12,15 @@
  * - Mouse wheel zoom with Ctrl/Cmd key
  * - 60fps playhead updates
  * - Perfect ruler/playhead/clip synchronization
+ * - Drag to reorder clips, edge trimming with snapping and ripple
  */
 
-import React, { memo, useCallback, useRef, useEffect, useMemo } from 'react';
-import { useZoomStore, usePlaybackStore, ZOOM_CONSTRAINTS } from './stores';
-import { RULER } from './constants';
+import React, { memo, useCallback, useRef, useEffect, useMemo, useState } from 'react';
+import { useZoomStore, usePlaybackStore, useTimelineStore, ZOOM_CONSTRAINTS } from './stores';
+import type { DragInfoState } from './stores';
+import { ITEM_COLORS, RULER, SNAP } from './constants';
 import { formatTime } from './utils';
+import { getClipTimeAtSourceTime, getClipVisualDuration, getSourceTimeAtClipTime } from '../../services/sequenceService';
 
 // Types
 export interface TimelineClip {
@@ -30,12 +33,40 @@ export interface TimelineClip {
   audioStartTime?: number;
   audioEndTime?: number;
   redundancies?: Array<{ type: string; duration: number }>;
+  visualFragments?: TimelineFragment[]; // Raw video ranges actually played, in order
 }
 
-// Helper: Get clip duration
-const getClipDuration = (clip: TimelineClip): number => {
-  return clip.endTime - clip.startTime;
-};
+export interface TimelineFragment {
+  start: number;
+  end: number;
+}
+
+// Overlay track rows (music, logos, lower-thirds, B-roll) laid out in sequence time
+export interface TimelineTrackData {
+  id: string;
+  name: string;
+  type: string; // Key into ITEM_COLORS
+  items: Array<{ id: string; start: number; duration: number; label?: string; text?: string; mediaStart?: number }>;
+  muted?: boolean;
+  solo?: boolean;
+  locked?: boolean;
+  hidden?: boolean;
+}
+
+export type TimelineTrackFlag = 'muted' | 'solo' | 'locked' | 'hidden';
+
+export type TimelineDragAction = DragInfoState['action'];
+
+// What is being dragged: a clip (by sequence index) or an overlay item
+type DragTarget =
+  | { kind: 'clip'; index: number }
+  | { kind: 'item'; trackId: string; itemId: string };
+
+const TRACK_ROW_HEIGHT = 40;
+const ISSUES_ROW_HEIGHT = 70;
+const BASE_CONTENT_HEIGHT = 206; // Ruler (24) + clips (56) + polished (56) + issues
+const DRAG_START_PX = 4; // Movement before a mousedown becomes a drag (keeps clicks working)
+const MIN_DRAG_DURATION = 0.2; // Shortest clip/item a trim can leave, in seconds
 
 // Helper: Calculate sequence position for each clip (accumulated durations)
 interface ClipSequenceInfo {
@@ -61,7 +92,16 @@ interface TimelineProps {
   onCancelEdit: () => void;
   onEditTextChange: (text: string) => void;
   onFixRedundancy: (clipId: string, issue: any) => void;
+  onRemoveFragment?: (clipId: string, fragmentIndex: number) => void;
   onSeek?: (rawVideoTime: number, clipId: string | null, clipStartTime: number) => void;
+  tracks?: TimelineTrackData[]; // Drawn below the clip rows, topmost layer first
+  selectedTrackItemId?: string | null;
+  onTrackToggle?: (trackId: string, flag: TimelineTrackFlag) => void;
+  onTrackItemSelect?: (trackId: string, itemId: string) => void;
+  onClipReorder?: (fromIndex: number, toIndex: number) => void;
+  onClipTrim?: (clipId: string, edge: 'start' | 'end', rawVideoTime: number, ripple: boolean) => void;
+  onTrackItemChange?: (trackId: string, itemId: string, patch: { start: number; duration: number; mediaStart?: number }) => void;
+  eventTimes?: number[]; // Raw video times of analysis events, used as snap points
 }
 
 // Content styles for zoom
@@ -172,6 +212,9 @@ const TimelineClipItem = memo(function TimelineClipItem({
   onSelect,
   onMove,
   onDelete,
+  onRemoveFragment,
+  isDragSource,
+  onDragStart,
 }: {
   clip: TimelineClip;
   index: number;
@@ -182,6 +225,9 @@ const TimelineClipItem = memo(function TimelineClipItem({
   onSelect: (id: string, startTime: number) => void;
   onMove: (index: number, direction: 'left' | 'right') => void;
   onDelete: (id: string) => void;
+  onRemoveFragment?: (clipId: string, fragmentIndex: number) => void;
+  isDragSource?: boolean;
+  onDragStart?: (e: React.MouseEvent, index: number, action: TimelineDragAction) => void;
 }) {
   const duration = sequenceEnd - sequenceStart;
   // Position based on SEQUENCE time, not raw video time
@@ -208,6 +254,16 @@ const TimelineClipItem = memo(function TimelineClipItem({
     onDelete(clip.id);
   }, [clip.id, onDelete]);
 
+  // Buttons keep their own clicks; anywhere else on the body starts a move
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    onDragStart?.(e, index, 'move');
+  }, [index, onDragStart]);
+
+  // Sub-segments are only drawn for clips that skip part of their source range
+  const fragments = clip.visualFragments;
+  const fragmentsDuration = fragments ? getClipVisualDuration(clip) : 0;
+
   return (
     <div
       data-clip="true"
@@ -215,7 +271,7 @@ const TimelineClipItem = memo(function TimelineClipItem({
         isActive
           ? 'ring-2 ring-orange-500 ring-offset-1 ring-offset-[#1a1a1f] z-10'
           : 'hover:brightness-110'
-      }`}
+      } ${isDragSource ? 'opacity-50' : ''}`}
       style={{
         left: `${leftPercentage}%`,
         width: `${widthPercentage}%`,
@@ -225,8 +281,31 @@ const TimelineClipItem = memo(function TimelineClipItem({
         background: 'linear-gradient(135deg, #7c3aed 0%, #5b21b6 100%)',
       }}
       onClick={handleClick}
+      onMouseDown={handleMouseDown}
     >
-      <div className="absolute inset-0 p-1.5 flex flex-col justify-between overflow-hidden">
+      {fragments && fragmentsDuration > 0 && (
+        <div className="absolute inset-0 flex">
+          {fragments.map((fragment, i) => (
+            <div
+              key={`${fragment.start}-${i}`}
+              className="group/fragment relative h-full border-r-2 border-dashed border-black/40 last:border-r-0"
+              style={{ width: `${((fragment.end - fragment.start) / fragmentsDuration) * 100}%` }}
+              title={`${formatTime(fragment.start)} - ${formatTime(fragment.end)}`}
+            >
+              {onRemoveFragment && fragments.length > 1 && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemoveFragment(clip.id, i); }}
+                  className="absolute bottom-0.5 left-1/2 -translate-x-1/2 z-10 px-1 rounded bg-black/40 text-[8px] text-white/80 hover:bg-red-500/60 opacity-0 group-hover/fragment:opacity-100 transition-opacity"
+                  title="Cut this fragment"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="absolute inset-0 p-1.5 flex flex-col justify-between overflow-hidden pointer-events-none [&_button]:pointer-events-auto">
         <div className="flex items-start justify-between gap-1">
           <span className="text-[9px] font-medium text-white/90 line-clamp-2 leading-tight flex-1">
             {clip.transcript || clip.title}
@@ -248,8 +327,17 @@ const TimelineClipItem = memo(function TimelineClipItem({
           <span className="text-[8px] font-mono text-white/60">{formatTime(sequenceEnd)}</span>
         </div>
       </div>
-      <div className="absolute left-0 top-0 bottom-0 w-1 bg-violet-300/30 rounded-l-md" />
-      <div className="absolute right-0 top-0 bottom-0 w-1 bg-violet-300/30 rounded-r-md" />
+      {/* Trim handles */}
+      <div
+        className="absolute left-0 top-0 bottom-0 w-1.5 bg-violet-300/30 rounded-l-md cursor-ew-resize hover:bg-violet-200/70 z-20"
+        onMouseDown={(e) => onDragStart?.(e, index, 'resize-start')}
+        title="Drag to trim the start"
+      />
+      <div
+        className="absolute right-0 top-0 bottom-0 w-1.5 bg-violet-300/30 rounded-r-md cursor-ew-resize hover:bg-violet-200/70 z-20"
+        onMouseDown={(e) => onDragStart?.(e, index, 'resize-end')}
+        title="Drag to trim the end"
+      />
     </div>
   );
 });
@@ -376,6 +464,49 @@ const PolishedClipItem = memo(function PolishedClipItem({
   );
 });
 
+// Header of an overlay track row: name plus mute/solo/lock/hide toggles
+const TrackLabel = memo(function TrackLabel({
+  track,
+  onToggle,
+}: {
+  track: TimelineTrackData;
+  onToggle?: (trackId: string, flag: TimelineTrackFlag) => void;
+}) {
+  const colors = ITEM_COLORS[track.type as keyof typeof ITEM_COLORS] ?? ITEM_COLORS.default;
+  const hasSound = track.type === 'audio' || track.type === 'music' || track.type === 'video';
+  const toggles: Array<{ flag: TimelineTrackFlag; label: string; title: string; active: boolean }> = [
+    ...(hasSound ? [
+      { flag: 'muted' as const, label: 'M', title: 'Mute', active: !!track.muted },
+      { flag: 'solo' as const, label: 'S', title: 'Solo', active: !!track.solo },
+    ] : [
+      { flag: 'hidden' as const, label: 'H', title: 'Hide', active: !!track.hidden },
+    ]),
+    { flag: 'locked', label: 'L', title: 'Lock', active: !!track.locked },
+  ];
+
+  return (
+    <div className="flex items-center justify-between gap-1 px-2 border-b border-zinc-800/30" style={{ height: TRACK_ROW_HEIGHT }}>
+      <span className="text-[9px] font-bold uppercase tracking-wider truncate" style={{ color: colors.border }} title={track.name}>
+        {track.name}
+      </span>
+      <div className="flex gap-0.5 shrink-0">
+        {toggles.map(t => (
+          <button
+            key={t.flag}
+            onClick={() => onToggle?.(track.id, t.flag)}
+            title={t.title}
+            className={`w-4 h-4 rounded text-[8px] font-bold transition-colors ${
+              t.active ? 'bg-indigo-500 text-white' : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+});
+
 // Main Timeline Component
 const Timeline: React.FC<TimelineProps> = ({
   clips,
@@ -393,9 +524,20 @@ const Timeline: React.FC<TimelineProps> = ({
   onCancelEdit,
   onEditTextChange,
   onFixRedundancy,
+  onRemoveFragment,
   onSeek,
+  tracks = [],
+  selectedTrackItemId,
+  onTrackToggle,
+  onTrackItemSelect,
+  onClipReorder,
+  onClipTrim,
+  onTrackItemChange,
+  eventTimes = [],
 }) => {
   const { isPlaying } = usePlaybackStore();
+  const { dragInfo, isDragging, setDragInfo, setIsDragging, resetDragState } = useTimelineStore();
+  const [rippleEnabled, setRippleEnabled] = useState(true);
   const { 
     zoomScale, 
     setZoomScale, 
@@ -414,16 +556,19 @@ const Timeline: React.FC<TimelineProps> = ({
   const animationFrameRef = useRef<number>();
   const lastZoomTimeRef = useRef(0);
 
+  // Topmost layer first, like the stacking order in the preview
+  const displayTracks = useMemo(() => [...tracks].reverse(), [tracks]);
+
   // Calculate total SEQUENCE duration (sum of clip durations)
   const totalSequenceDuration = useMemo(() => {
-    return clips.reduce((acc, clip) => acc + getClipDuration(clip), 0) || 60;
+    return clips.reduce((acc, clip) => acc + getClipVisualDuration(clip), 0) || 60;
   }, [clips]);
 
   // Calculate sequence info for each clip (start/end positions in sequence time)
   const clipsWithSequenceInfo = useMemo((): ClipSequenceInfo[] => {
     let accumulatedTime = 0;
     return clips.map(clip => {
-      const duration = getClipDuration(clip);
+      const duration = getClipVisualDuration(clip);
       const info: ClipSequenceInfo = {
         clip,
         sequenceStart: accumulatedTime,
@@ -444,7 +589,7 @@ const Timeline: React.FC<TimelineProps> = ({
       
       // Check if rawVideoTime falls within this clip's video boundaries
       if (rawVideoTime >= clip.startTime && rawVideoTime < clip.endTime) {
-        const offsetInClip = rawVideoTime - clip.startTime;
+        const offsetInClip = getClipTimeAtSourceTime(clip, rawVideoTime);
         return accumulatedSequenceTime + offsetInClip;
       }
       
@@ -465,7 +610,7 @@ const Timeline: React.FC<TimelineProps> = ({
     for (const clipInfo of clipsWithSequenceInfo) {
       if (clampedSeqTime >= clipInfo.sequenceStart && clampedSeqTime < clipInfo.sequenceEnd) {
         const offsetInClip = clampedSeqTime - clipInfo.sequenceStart;
-        const rawTime = clipInfo.clip.startTime + offsetInClip;
+        const rawTime = getSourceTimeAtClipTime(clipInfo.clip, offsetInClip);
         return { rawTime, clipInfo };
       }
     }
@@ -474,16 +619,223 @@ const Timeline: React.FC<TimelineProps> = ({
     if (clipsWithSequenceInfo.length > 0) {
       const lastClip = clipsWithSequenceInfo[clipsWithSequenceInfo.length - 1];
       if (clampedSeqTime >= lastClip.sequenceEnd - 0.001) {
-        return { rawTime: lastClip.clip.endTime, clipInfo: lastClip };
+        return { rawTime: getSourceTimeAtClipTime(lastClip.clip, lastClip.duration), clipInfo: lastClip };
       }
       // At the very beginning
       const firstClip = clipsWithSequenceInfo[0];
-      return { rawTime: firstClip.clip.startTime, clipInfo: firstClip };
+      return { rawTime: getSourceTimeAtClipTime(firstClip.clip, 0), clipInfo: firstClip };
     }
     
     return { rawTime: 0, clipInfo: null };
   }, [clipsWithSequenceInfo, totalSequenceDuration]);
 
+  // Snap points in sequence time: sequence ends, clip boundaries, overlay item edges, events
+  const getSnapTargets = useCallback((exclude: DragTarget): number[] => {
+    const targets = [0, totalSequenceDuration];
+    clipsWithSequenceInfo.forEach((info, index) => {
+      if (exclude.kind === 'clip' && exclude.index === index) return;
+      targets.push(info.sequenceStart, info.sequenceEnd);
+    });
+    tracks.forEach(track => track.items.forEach(item => {
+      if (exclude.kind === 'item' && exclude.itemId === item.id) return;
+      targets.push(item.start, item.start + item.duration);
+    }));
+    eventTimes.forEach(time => targets.push(rawVideoTimeToSequenceTime(time)));
+    return targets;
+  }, [totalSequenceDuration, clipsWithSequenceInfo, tracks, eventTimes, rawVideoTimeToSequenceTime]);
+
+  /**
+   * Drag-and-drop for clips and overlay items. Moves snap either edge, trims snap the moving edge;
+   * the playhead pulls from further away (SNAP.MAGNETIC_THRESHOLD_PX) than other snap points.
+   * Clips are reordered by where the dragged clip's centre lands.
+   */
+  const handleDragStart = useCallback((e: React.MouseEvent, target: DragTarget, action: TimelineDragAction) => {
+    if (e.button !== 0) return;
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    let startPosition = 0;
+    let startDuration = 0;
+    let minStart = 0; // Earliest the start edge may go
+    let maxEnd = Infinity; // Latest the end edge may go
+    let startRow = 0;
+
+    if (target.kind === 'clip') {
+      const info = clipsWithSequenceInfo[target.index];
+      if (!info) return;
+      startPosition = info.sequenceStart;
+      startDuration = info.duration;
+      // Trims can extend into unused source, but not past the ends of the video
+      minStart = info.sequenceStart - info.clip.startTime;
+      const sourceDuration = videoRef.current?.duration;
+      if (sourceDuration && Number.isFinite(sourceDuration)) {
+        maxEnd = info.sequenceEnd + Math.max(0, sourceDuration - info.clip.endTime);
+      }
+    } else {
+      const trackIndex = displayTracks.findIndex(t => t.id === target.trackId);
+      const track = displayTracks[trackIndex];
+      const item = track?.items.find(i => i.id === target.itemId);
+      if (!track || !item || track.locked) return;
+      startPosition = item.start;
+      startDuration = item.duration;
+      if (item.mediaStart !== undefined) minStart = Math.max(0, item.start - item.mediaStart);
+      startRow = trackIndex + 1;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const secondsPerPixel = totalSequenceDuration / container.scrollWidth;
+    const snapTargets = getSnapTargets(target);
+    const playheadTime = videoRef.current ? rawVideoTimeToSequenceTime(videoRef.current.currentTime) : null;
+    let info: DragInfoState = {
+      id: target.kind === 'clip' ? clipsWithSequenceInfo[target.index].clip.id : target.itemId,
+      action,
+      startX: e.clientX,
+      startY: e.clientY,
+      startPosition,
+      startDuration,
+      startRow,
+      isValidDrop: true,
+      currentStart: startPosition,
+      currentDuration: startDuration,
+      currentRow: target.kind === 'clip' ? target.index : startRow,
+    };
+    let started = false;
+
+    // Returns the snapped time and the snap point, or the time itself when nothing is close
+    const snap = (time: number): { time: number; snappedTo?: number } => {
+      let best: { time: number; snappedTo?: number; distance: number } = { time, distance: Infinity };
+      const consider = (point: number, thresholdPx: number) => {
+        const distance = Math.abs(point - time);
+        if (distance <= thresholdPx * secondsPerPixel && distance < best.distance) {
+          best = { time: point, snappedTo: point, distance };
+        }
+      };
+      snapTargets.forEach(point => consider(point, SNAP.THRESHOLD_PX));
+      if (playheadTime !== null) consider(playheadTime, SNAP.MAGNETIC_THRESHOLD_PX);
+      return best;
+    };
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const dx = moveEvent.clientX - info.startX;
+      if (!started) {
+        if (Math.abs(dx) < DRAG_START_PX) return;
+        started = true;
+        setIsDragging(true);
+        document.body.style.cursor = action === 'move' ? 'grabbing' : 'ew-resize';
+        document.body.style.userSelect = 'none';
+      }
+
+      const delta = dx * secondsPerPixel;
+      let currentStart = startPosition;
+      let currentDuration = startDuration;
+      let snappedTo: number | undefined;
+
+      if (action === 'move') {
+        const maxStart = target.kind === 'clip' ? totalSequenceDuration - startDuration : Infinity;
+        const rawStart = Math.max(0, Math.min(startPosition + delta, maxStart));
+        const byStart = snap(rawStart);
+        const byEnd = snap(rawStart + startDuration);
+        if (byStart.snappedTo !== undefined && (byEnd.snappedTo === undefined || Math.abs(byStart.time - rawStart) <= Math.abs(byEnd.time - rawStart - startDuration))) {
+          currentStart = byStart.time;
+          snappedTo = byStart.snappedTo;
+        } else if (byEnd.snappedTo !== undefined) {
+          currentStart = Math.max(0, byEnd.time - startDuration);
+          snappedTo = byEnd.snappedTo;
+        } else {
+          currentStart = rawStart;
+        }
+      } else if (action === 'resize-start') {
+        const end = startPosition + startDuration;
+        const edge = snap(Math.max(minStart, Math.min(startPosition + delta, end - MIN_DRAG_DURATION)));
+        currentStart = Math.max(minStart, Math.min(edge.time, end - MIN_DRAG_DURATION));
+        currentDuration = end - currentStart;
+        snappedTo = edge.snappedTo;
+      } else {
+        const edge = snap(Math.max(startPosition + MIN_DRAG_DURATION, Math.min(startPosition + startDuration + delta, maxEnd)));
+        currentDuration = Math.max(MIN_DRAG_DURATION, Math.min(edge.time, maxEnd) - startPosition);
+        snappedTo = edge.snappedTo;
+      }
+
+      // Reorder slot: how many other clips sit left of the dragged clip's centre
+      let currentRow = info.currentRow;
+      if (target.kind === 'clip' && action === 'move') {
+        const centre = currentStart + startDuration / 2;
+        currentRow = clipsWithSequenceInfo.filter((c, i) => i !== target.index && c.sequenceStart + c.duration / 2 < centre).length;
+      }
+
+      info = {
+        ...info,
+        currentStart,
+        currentDuration,
+        currentRow,
+        finalSnappedFrom: snappedTo,
+        ghostLeft: (currentStart / totalSequenceDuration) * 100,
+        ghostWidth: (currentDuration / totalSequenceDuration) * 100,
+      };
+      setDragInfo(info);
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+      resetDragState();
+      if (!started) return;
+
+      // Swallow the click that follows the drag so it doesn't select/seek
+      const swallowClick = (clickEvent: MouseEvent) => clickEvent.stopPropagation();
+      window.addEventListener('click', swallowClick, true);
+      setTimeout(() => window.removeEventListener('click', swallowClick, true), 0);
+
+      const currentStart = info.currentStart ?? startPosition;
+      const currentDuration = info.currentDuration ?? startDuration;
+
+      if (target.kind === 'clip') {
+        const clip = clipsWithSequenceInfo[target.index].clip;
+        if (action === 'move') {
+          if (info.currentRow !== undefined && info.currentRow !== target.index) onClipReorder?.(target.index, info.currentRow);
+        } else if (action === 'resize-start') {
+          const trimmed = currentStart - startPosition;
+          if (Math.abs(trimmed) < 0.01) return;
+          const rawTime = trimmed >= 0 ? getSourceTimeAtClipTime(clip, trimmed) : clip.startTime + trimmed;
+          onClipTrim?.(clip.id, 'start', rawTime, rippleEnabled);
+        } else {
+          if (Math.abs(currentDuration - startDuration) < 0.01) return;
+          const rawTime = currentDuration <= startDuration
+            ? getSourceTimeAtClipTime(clip, currentDuration)
+            : clip.endTime + (currentDuration - startDuration);
+          onClipTrim?.(clip.id, 'end', rawTime, rippleEnabled);
+        }
+        return;
+      }
+
+      const item = tracks.find(t => t.id === target.trackId)?.items.find(i => i.id === target.itemId);
+      if (!item) return;
+      onTrackItemChange?.(target.trackId, target.itemId, {
+        start: currentStart,
+        duration: currentDuration,
+        ...(item.mediaStart !== undefined && action === 'resize-start'
+          ? { mediaStart: Math.max(0, item.mediaStart + (currentStart - startPosition)) }
+          : {}),
+      });
+    };
+
+    setDragInfo(info);
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [
+    clipsWithSequenceInfo, displayTracks, tracks, totalSequenceDuration, videoRef, rippleEnabled,
+    getSnapTargets, rawVideoTimeToSequenceTime, setDragInfo, setIsDragging, resetDragState,
+    onClipReorder, onClipTrim, onTrackItemChange,
+  ]);
+
+  const handleClipDragStart = useCallback((e: React.MouseEvent, index: number, action: TimelineDragAction) => {
+    handleDragStart(e, { kind: 'clip', index }, action);
+  }, [handleDragStart]);
+
   // Content styles for zoom
   const contentStyles = useMemo(() => getContentStyles(zoomScale), [zoomScale]);
 
@@ -601,8 +953,8 @@ const Timeline: React.FC<TimelineProps> = ({
 
       // Sync audio if master audio exists
       if (masterAudioUrl && clipInfo.clip.audioStartTime !== undefined && audioRef?.current) {
-        const offsetInClip = rawTime - clipInfo.clip.startTime;
-        const videoDuration = getClipDuration(clipInfo.clip);
+        const offsetInClip = getClipTimeAtSourceTime(clipInfo.clip, rawTime);
+        const videoDuration = getClipVisualDuration(clipInfo.clip);
         const audioDuration = (clipInfo.clip.audioEndTime! - clipInfo.clip.audioStartTime!);
         const audioOffset = (offsetInClip / videoDuration) * audioDuration;
         audioRef.current.currentTime = clipInfo.clip.audioStartTime + audioOffset;
@@ -700,8 +1052,8 @@ const Timeline: React.FC<TimelineProps> = ({
 
       // Sync audio if master audio exists
       if (masterAudioUrl && clipInfo.clip.audioStartTime !== undefined && audioRef?.current) {
-        const offsetInClip = rawTime - clipInfo.clip.startTime;
-        const videoDuration = getClipDuration(clipInfo.clip);
+        const offsetInClip = getClipTimeAtSourceTime(clipInfo.clip, rawTime);
+        const videoDuration = getClipVisualDuration(clipInfo.clip);
         const audioDuration = (clipInfo.clip.audioEndTime! - clipInfo.clip.audioStartTime!);
         const audioOffset = (offsetInClip / videoDuration) * audioDuration;
         audioRef.current.currentTime = clipInfo.clip.audioStartTime + audioOffset;
@@ -740,6 +1092,29 @@ const Timeline: React.FC<TimelineProps> = ({
     });
   }, [totalSequenceDuration, zoomScale]);
 
+  // Drag feedback: ghost box, reorder slot and snap guide
+  const activeDrag = isDragging && dragInfo?.ghostLeft !== undefined ? dragInfo : null;
+  const draggedClipIndex = activeDrag && activeDrag.startRow === 0
+    ? clipsWithSequenceInfo.findIndex(c => c.clip.id === activeDrag.id)
+    : -1;
+  const reorderSlotTime = useMemo(() => {
+    if (!activeDrag || draggedClipIndex === -1 || activeDrag.action !== 'move' || activeDrag.currentRow === undefined) return null;
+    return clipsWithSequenceInfo
+      .filter((_, i) => i !== draggedClipIndex)
+      .slice(0, activeDrag.currentRow)
+      .reduce((acc, c) => acc + c.duration, 0);
+  }, [activeDrag, draggedClipIndex, clipsWithSequenceInfo]);
+
+  const renderGhost = (row: number) => {
+    if (!activeDrag || activeDrag.startRow !== row) return null;
+    return (
+      <div
+        className="absolute top-1 bottom-1 rounded-md border-2 border-dashed border-orange-400 bg-orange-400/10 pointer-events-none z-20"
+        style={{ left: `${activeDrag.ghostLeft}%`, width: `${activeDrag.ghostWidth}%` }}
+      />
+    );
+  };
+
   return (
     <div ref={timelineContainerRef} className="flex flex-col bg-[#0f0f12] border-t border-zinc-800/50">
       {/* Timeline Header with Zoom Controls */}
@@ -749,6 +1124,15 @@ const Timeline: React.FC<TimelineProps> = ({
           <span className="text-[9px] text-zinc-600">
             {formatTime(totalSequenceDuration)} total
           </span>
+          <button
+            onClick={() => setRippleEnabled(prev => !prev)}
+            title="Ripple: overlay items after a trimmed clip move with it"
+            className={`px-1.5 py-0.5 rounded text-[9px] font-medium transition-colors ${
+              rippleEnabled ? 'bg-indigo-500/20 text-indigo-300' : 'bg-zinc-800 text-zinc-500 hover:text-zinc-300'
+            }`}
+          >
+            Ripple {rippleEnabled ? 'on' : 'off'}
+          </button>
         </div>
         
         <ZoomControls
@@ -762,7 +1146,7 @@ const Timeline: React.FC<TimelineProps> = ({
       </div>
 
       {/* Timeline Content Area - Ruler and Tracks share the same scroll */}
-      <div className="flex flex-1" style={{ height: '206px' }}>
+      <div className="flex flex-1" style={{ height: `${BASE_CONTENT_HEIGHT + displayTracks.length * TRACK_ROW_HEIGHT}px` }}>
         {/* Track Labels Column */}
         <div className="w-28 shrink-0 bg-[#16161a] border-r border-zinc-800/30 flex flex-col">
           {/* Ruler Label */}
@@ -774,9 +1158,12 @@ const Timeline: React.FC<TimelineProps> = ({
           <div className="h-14 flex items-center px-3 border-b border-zinc-800/30">
             <span className="text-[10px] font-bold text-teal-400 uppercase tracking-wider">POLISHED</span>
           </div>
-          <div className="flex-1 flex items-center px-3">
+          <div className="flex items-center px-3" style={{ height: ISSUES_ROW_HEIGHT }}>
             <span className="text-[10px] font-bold text-amber-400 uppercase tracking-wider">ISSUES</span>
           </div>
+          {displayTracks.map(track => (
+            <TrackLabel key={track.id} track={track} onToggle={onTrackToggle} />
+          ))}
         </div>
 
         {/* Shared Scroll Container for Ruler + Tracks */}
@@ -822,6 +1209,14 @@ const Timeline: React.FC<TimelineProps> = ({
                 />
               )}
 
+              {/* Snap guide while dragging */}
+              {activeDrag?.finalSnappedFrom !== undefined && (
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-yellow-300 z-30 pointer-events-none"
+                  style={{ left: `${(activeDrag.finalSnappedFrom / totalSequenceDuration) * 100}%` }}
+                />
+              )}
+
               {/* Transcript Clips Track */}
             <div className="h-14 border-b border-zinc-800/30 relative bg-[#1a1a1f]">
               {clipsWithSequenceInfo.map((clipInfo, index) => (
@@ -836,8 +1231,18 @@ const Timeline: React.FC<TimelineProps> = ({
                   onSelect={onClipSelect}
                   onMove={onClipMove}
                   onDelete={onClipDelete}
+                  onRemoveFragment={onRemoveFragment}
+                  isDragSource={index === draggedClipIndex}
+                  onDragStart={onClipReorder || onClipTrim ? handleClipDragStart : undefined}
                 />
               ))}
+              {renderGhost(0)}
+              {reorderSlotTime !== null && (
+                <div
+                  className="absolute top-1 bottom-1 w-1 -ml-0.5 rounded bg-orange-400 pointer-events-none z-20"
+                  style={{ left: `${(reorderSlotTime / totalSequenceDuration) * 100}%` }}
+                />
+              )}
             </div>
 
             {/* Polished Transcript Track */}
@@ -863,7 +1268,7 @@ const Timeline: React.FC<TimelineProps> = ({
             </div>
 
             {/* Issues/Redundancy Track */}
-            <div className="flex-1 relative bg-[#1a1a1f]">
+            <div className="relative bg-[#1a1a1f]" style={{ height: ISSUES_ROW_HEIGHT }}>
               {clipsWithSequenceInfo.map((clipInfo) => {
                 const hasRedundancy = clipInfo.clip.redundancies && clipInfo.clip.redundancies.length > 0;
                 const leftPercentage = (clipInfo.sequenceStart / totalSequenceDuration) * 100;
@@ -900,6 +1305,58 @@ const Timeline: React.FC<TimelineProps> = ({
                 );
               })}
             </div>
+
+            {/* Overlay Tracks */}
+            {displayTracks.map((track, trackIndex) => {
+              const colors = ITEM_COLORS[track.type as keyof typeof ITEM_COLORS] ?? ITEM_COLORS.default;
+              const isDimmed = track.hidden || track.muted;
+              return (
+                <div key={track.id} className="relative border-t border-zinc-800/30 bg-[#16161a]" style={{ height: TRACK_ROW_HEIGHT }}>
+                  {track.items.map(item => {
+                    const leftPercentage = (item.start / totalSequenceDuration) * 100;
+                    const widthPercentage = Math.max((item.duration / totalSequenceDuration) * 100, 0.5);
+                    const isSelected = selectedTrackItemId === item.id;
+                    const canDrag = !!onTrackItemChange && !track.locked;
+                    const startItemDrag = (e: React.MouseEvent, action: TimelineDragAction) => {
+                      if (canDrag) handleDragStart(e, { kind: 'item', trackId: track.id, itemId: item.id }, action);
+                    };
+                    return (
+                      <div
+                        key={item.id}
+                        data-clip="true"
+                        onClick={(e) => { e.stopPropagation(); onTrackItemSelect?.(track.id, item.id); }}
+                        onMouseDown={(e) => startItemDrag(e, 'move')}
+                        className={`group absolute top-1 bottom-1 rounded px-1.5 flex items-center overflow-hidden cursor-pointer transition-opacity ${
+                          isSelected ? 'ring-2 ring-orange-500' : ''
+                        } ${isDimmed || activeDrag?.id === item.id ? 'opacity-40' : ''} ${track.locked ? 'cursor-not-allowed' : ''}`}
+                        style={{
+                          left: `${leftPercentage}%`,
+                          width: `${widthPercentage}%`,
+                          background: colors.gradient,
+                          border: `1px solid ${colors.border}`,
+                        }}
+                        title={`${item.label || item.text || track.name} · ${formatTime(item.start)} - ${formatTime(item.start + item.duration)}`}
+                      >
+                        <span className="text-[9px] font-medium text-white/90 truncate">{item.label || item.text || track.name}</span>
+                        {canDrag && (
+                          <>
+                            <div
+                              className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-white/40"
+                              onMouseDown={(e) => { e.stopPropagation(); startItemDrag(e, 'resize-start'); }}
+                            />
+                            <div
+                              className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-white/40"
+                              onMouseDown={(e) => { e.stopPropagation(); startItemDrag(e, 'resize-end'); }}
+                            />
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {renderGhost(trackIndex + 1)}
+                </div>
+              );
+            })}
             </div>{/* End Track Content Area */}
           </div>{/* End Content wrapper */}
         </div>{/* End Scroll Container */}
@@ -52,6 +52,10 @@ export const ITEM_COLORS = {
     gradient: 'linear-gradient(135deg, #0d9488 0%, #0f766e 100%)',
     border: '#14b8a6',
   },
+  music: {
+    gradient: 'linear-gradient(135deg, #0891b2 0%, #0e7490 100%)',
+    border: '#22d3ee',
+  },
   text: {
     gradient: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)',
     border: '#60a5fa',
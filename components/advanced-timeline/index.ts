@@ -5,15 +5,19 @@
 
 // Main Timeline Component
 export { default as Timeline } from './Timeline';
-export type { TimelineClip } from './Timeline';
+export type { TimelineClip, TimelineFragment, TimelineTrackData, TimelineTrackFlag, TimelineDragAction } from './Timeline';
 
 // Stores
 export { 
   useTimelineStore, 
   usePlaybackStore, 
   useZoomStore,
+  useHistoryStore,
   ZOOM_CONSTRAINTS,
+  MAX_HISTORY_ENTRIES,
+  pickHistorySlices,
 } from './stores';
+export type { HistoryCommand, HistoryPatch, HistorySnapshot } from './stores';
 
 // Hooks
 export {
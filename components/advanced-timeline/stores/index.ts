@@ -6,9 +6,11 @@
 export { default as useTimelineStore } from './use-timeline-store';
 export { default as usePlaybackStore } from './use-playback-store';
 export { default as useZoomStore, ZOOM_CONSTRAINTS } from './use-zoom-store';
+export { default as useHistoryStore, MAX_HISTORY_ENTRIES, pickHistorySlices } from './use-history-store';
 
 // Re-export types
 export type { ITimelineStore, DragInfoState, GhostInstanceData, FloatingGhostData, DraggedItemSnapshot } from './use-timeline-store';
 export type { IPlaybackStore } from './use-playback-store';
 export type { IZoomStore } from './use-zoom-store';
+export type { IHistoryStore, HistoryCommand, HistoryPatch, HistorySnapshot } from './use-history-store';
 
@@ -0,0 +1,174 @@
+import { create } from 'zustand';
+import { EditorSnapshot } from '../../../types';
+
+/**
+ * History Store - Command-based undo/redo stack for editor mutations
+ * Each command stores the before/after values of the state slices it touched,
+ * so it can be replayed in either direction and serialized with the project.
+ */
+
+// Partial editor state keyed by slice name (e.g. clips, timelineEvents, masterAudio)
+export type HistoryPatch = Partial<EditorSnapshot>;
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: HistoryPatch;
+  after: HistoryPatch;
+}
+
+// Serializable form of the stack, stored per project
+export interface HistorySnapshot {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+interface PendingTransaction {
+  label: string;
+  depth: number;
+  before: HistoryPatch;
+  after: HistoryPatch;
+}
+
+interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+  transaction: PendingTransaction | null;
+}
+
+interface HistoryActions {
+  record: (label: string, before: HistoryPatch, after: HistoryPatch) => void;
+  beginTransaction: (label: string) => void;
+  commitTransaction: () => void;
+  undo: () => HistoryCommand | null;
+  redo: () => HistoryCommand | null;
+  loadHistory: (snapshot: HistorySnapshot | null | undefined) => void;
+  clearHistory: () => void;
+  getSnapshot: () => HistorySnapshot;
+}
+
+export type IHistoryStore = HistoryState & HistoryActions;
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+const createCommandId = (): string => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * The given slices of `source`, e.g. the values an edit is about to replace.
+ */
+export const pickHistorySlices = (source: HistoryPatch, keys: (keyof EditorSnapshot)[]): HistoryPatch => {
+  const picked: HistoryPatch = {};
+  const copy = <K extends keyof EditorSnapshot>(key: K) => {
+    picked[key] = source[key];
+  };
+  keys.forEach(copy);
+  return picked;
+};
+
+const trimPast = (past: HistoryCommand[]): HistoryCommand[] => {
+  return past.length > MAX_HISTORY_ENTRIES ? past.slice(past.length - MAX_HISTORY_ENTRIES) : past;
+};
+
+const useHistoryStore = create<IHistoryStore>()((set, get) => ({
+  // Initial state
+  past: [],
+  future: [],
+  transaction: null,
+
+  // Actions
+  record: (label, before, after) => {
+    const { transaction, past } = get();
+
+    if (transaction) {
+      // Inside a transaction: keep the earliest "before" per slice, the latest "after"
+      const newKeys = (Object.keys(before) as (keyof EditorSnapshot)[]).filter((key) => !(key in transaction.before));
+      set({
+        transaction: {
+          ...transaction,
+          before: { ...transaction.before, ...pickHistorySlices(before, newKeys) },
+          after: { ...transaction.after, ...after },
+        },
+      });
+      return;
+    }
+
+    const command: HistoryCommand = {
+      id: createCommandId(),
+      label,
+      timestamp: Date.now(),
+      before,
+      after,
+    };
+    set({ past: trimPast([...past, command]), future: [] });
+  },
+
+  beginTransaction: (label) => {
+    const { transaction } = get();
+    if (transaction) {
+      // Nested transactions fold into the outermost one
+      set({ transaction: { ...transaction, depth: transaction.depth + 1 } });
+      return;
+    }
+    set({ transaction: { label, depth: 1, before: {}, after: {} } });
+  },
+
+  commitTransaction: () => {
+    const { transaction, past } = get();
+    if (!transaction) return;
+
+    if (transaction.depth > 1) {
+      set({ transaction: { ...transaction, depth: transaction.depth - 1 } });
+      return;
+    }
+
+    if (Object.keys(transaction.after).length === 0) {
+      set({ transaction: null });
+      return;
+    }
+
+    const command: HistoryCommand = {
+      id: createCommandId(),
+      label: transaction.label,
+      timestamp: Date.now(),
+      before: transaction.before,
+      after: transaction.after,
+    };
+    set({ transaction: null, past: trimPast([...past, command]), future: [] });
+  },
+
+  undo: () => {
+    const { past, future, transaction } = get();
+    if (transaction || past.length === 0) return null;
+
+    const command = past[past.length - 1];
+    set({ past: past.slice(0, -1), future: [command, ...future] });
+    return command;
+  },
+
+  redo: () => {
+    const { past, future, transaction } = get();
+    if (transaction || future.length === 0) return null;
+
+    const [command, ...rest] = future;
+    set({ past: trimPast([...past, command]), future: rest });
+    return command;
+  },
+
+  loadHistory: (snapshot) => set({
+    past: trimPast(snapshot?.past ?? []),
+    future: snapshot?.future ?? [],
+    transaction: null,
+  }),
+
+  clearHistory: () => set({ past: [], future: [], transaction: null }),
+
+  getSnapshot: () => {
+    const { past, future } = get();
+    return { past, future };
+  },
+}));
+
+export default useHistoryStore;
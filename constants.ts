@@ -1,3 +1,5 @@
+import { AudioProcessingSettings, CaptionStyle, ExportPreset, LLMModelSelection, LLMTask, SilenceDetectionSettings } from "./types";
+
 
 export const APP_NAME = "Visionary";
 
@@ -75,3 +77,101 @@ At **00:43**, the user says 'Okay, looks like it's done' and navigates back to t
 `;
 
 export const MAX_VIDEO_SIZE_MB = 2000; // Increased to 2GB for File API support
+
+// Built-in export presets. The first entry is the default for new projects.
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: "mp4-1080p",
+    name: "1080p MP4",
+    description: "H.264 + AAC. Plays everywhere: LMS, social, YouTube.",
+    container: "mp4",
+    videoCodec: "avc",
+    resolution: { width: 1920, height: 1080 },
+    fps: 30,
+    videoBitrate: 8000000,
+    audioCodec: "aac",
+    audioBitrate: 192000
+  },
+  {
+    id: "mp4-4k",
+    name: "4K MP4",
+    description: "H.264 + AAC at 2160p for high-resolution delivery.",
+    container: "mp4",
+    videoCodec: "avc",
+    resolution: { width: 3840, height: 2160 },
+    fps: 30,
+    videoBitrate: 35000000,
+    audioCodec: "aac",
+    audioBitrate: 256000
+  },
+  {
+    id: "webm-720p",
+    name: "720p Web",
+    description: "Small VP9 + Opus file for web embeds and previews.",
+    container: "webm",
+    videoCodec: "vp9",
+    resolution: { width: 1280, height: 720 },
+    fps: 30,
+    videoBitrate: 2500000,
+    audioCodec: "opus",
+    audioBitrate: 128000
+  },
+  {
+    id: "audio-only",
+    name: "Audio Only",
+    description: "AAC audio track (.m4a), e.g. for podcasts.",
+    container: "mp4",
+    videoCodec: null,
+    resolution: null,
+    fps: 30,
+    videoBitrate: 0,
+    audioCodec: "aac",
+    audioBitrate: 192000
+  }
+];
+
+export const DEFAULT_EXPORT_PRESET_ID = EXPORT_PRESETS[0].id;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: "Inter, Helvetica, Arial, sans-serif",
+  fontSize: 5,
+  textColor: "#ffffff",
+  backgroundColor: "rgba(0, 0, 0, 0.6)",
+  position: "bottom",
+  highlightCurrentWord: true,
+  highlightColor: "#facc15"
+};
+
+export const DEFAULT_SILENCE_DETECTION: SilenceDetectionSettings = {
+  thresholdDb: -45,
+  minDuration: 1.5,
+  padding: 0.25,
+  requireStaticScreen: true,
+  frameDiffThreshold: 0.01,
+  frameInterval: 0.5
+};
+
+// -14 LUFS / -1 dBTP is what YouTube and most streaming platforms normalise to
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  enabled: true,
+  highPassHz: 80,
+  noiseGateDb: -50,
+  compress: true,
+  targetLufs: -14,
+  truePeakDb: -1
+};
+
+// Name of a project's first edit, before any alternate sequences exist
+export const DEFAULT_SEQUENCE_NAME = 'Main edit';
+
+// Which provider/model handles each LLM task. Video tasks need a provider that accepts video.
+export const DEFAULT_LLM_MODELS: Record<LLMTask, LLMModelSelection> = {
+  analysis: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  silence: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  validation: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  reframe: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  polish: { provider: 'claude', model: 'claude-sonnet-4-5' },
+  publishing: { provider: 'claude', model: 'claude-sonnet-4-5' },
+  highlights: { provider: 'claude', model: 'claude-sonnet-4-5' },
+  chat: { provider: 'gemini', model: 'gemini-3-pro-preview' }
+};
@@ -0,0 +1,227 @@
+import { HighlightScore, PublishingMetadata, TimelineEvent } from '../types';
+import type { FocusPoint } from './reframeService';
+
+/**
+ * Minimal runtime schemas for model output. Each schema validates (with light coercion of
+ * stringified numbers/booleans) and describes itself for providers with structured output.
+ */
+
+// Provider-neutral description (maps onto Gemini's responseSchema / JSON Schema)
+export interface SchemaDescription {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  enum?: string[];
+  items?: SchemaDescription;
+  properties?: Record<string, SchemaDescription>;
+  required?: string[];
+  nullable?: boolean;
+}
+
+export interface Schema<T> {
+  description: SchemaDescription;
+  optional?: boolean;
+  check: (value: unknown, path: string, issues: string[]) => T;
+}
+
+type OptionalSchema<T> = Schema<T | undefined> & { optional: true };
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type ObjectOutput<S extends Record<string, Schema<any>>> =
+  { [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as S[K] extends { optional: true } ? K : never]?: Exclude<Infer<S[K]>, undefined> };
+
+const MAX_REPORTED_ISSUES = 8;
+
+export class SchemaValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Response did not match the expected format: ${issues.slice(0, MAX_REPORTED_ISSUES).join('; ')}${issues.length > MAX_REPORTED_ISSUES ? ` (+${issues.length - MAX_REPORTED_ISSUES} more)` : ''}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+const describeValue = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+export const string = (): Schema<string> => ({
+  description: { type: 'string' },
+  check: (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    issues.push(`${path} should be a string, got ${describeValue(value)}`);
+    return '';
+  }
+});
+
+export const number = (): Schema<number> => ({
+  description: { type: 'number' },
+  check: (value, path, issues) => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed === 'number' && Number.isFinite(parsed)) return parsed;
+    issues.push(`${path} should be a number, got ${describeValue(value)}`);
+    return 0;
+  }
+});
+
+export const boolean = (): Schema<boolean> => ({
+  description: { type: 'boolean' },
+  check: (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    issues.push(`${path} should be a boolean, got ${describeValue(value)}`);
+    return false;
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  description: { type: 'string', enum: [...values] },
+  check: (value, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as T;
+    issues.push(`${path} should be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    return values[0];
+  }
+});
+
+/**
+ * Marks an object field as optional. Missing and null both read as "not set".
+ */
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  description: { ...schema.description, nullable: true },
+  optional: true,
+  check: (value, path, issues) => (value === undefined || value === null ? undefined : schema.check(value, path, issues))
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  description: { type: 'array', items: item.description },
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} should be an array, got ${describeValue(value)}`);
+      return [];
+    }
+    return value.map((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+  }
+});
+
+/**
+ * Object with known fields. Unknown fields are kept as-is so extra model output isn't lost.
+ */
+export const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<ObjectOutput<S>> => ({
+  description: {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.description])),
+    required: Object.keys(shape).filter(key => !shape[key].optional)
+  },
+  check: (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path} should be an object, got ${describeValue(value)}`);
+      return {} as ObjectOutput<S>;
+    }
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, schema] of Object.entries(shape)) {
+      const checked = schema.check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+      if (checked === undefined) delete result[key];
+      else result[key] = checked;
+    }
+    return result as ObjectOutput<S>;
+  }
+});
+
+/**
+ * Validates a value, throwing SchemaValidationError with every issue found.
+ */
+export const validate = <T>(schema: Schema<T>, value: unknown): T => {
+  const issues: string[] = [];
+  const result = schema.check(value, '$', issues);
+  if (issues.length > 0) throw new SchemaValidationError(issues);
+  return result;
+};
+
+/**
+ * Extracts the JSON from a model response: strips markdown fences and any prose around the
+ * outermost array/object. Throws SyntaxError when nothing parses.
+ */
+export const parseJsonResponse = (text: string): unknown => {
+  const cleaned = text.replace(/```(?:json)?/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+};
+
+// --- Response schemas ---
+
+const timedWord = object({ text: string(), start: number(), end: number() });
+
+const timelineEventFields = {
+  timestamp: string(),
+  seconds: number(),
+  duration: optional(number()),
+  description: string(),
+  position: optional(object({ x: number(), y: number() })),
+  words: optional(array(timedWord)),
+  isParallelAction: optional(boolean()),
+  context: optional(string()),
+  contextId: optional(string()),
+  intent: optional(string()),
+  speaker: optional(string())
+};
+
+export const timelineEventsSchema: Schema<TimelineEvent[]> = array(object({
+  ...timelineEventFields,
+  type: oneOf(['visual', 'audio', 'redundancy', 'silence'] as const)
+}));
+
+export const silenceEventsSchema: Schema<TimelineEvent[]> = array(object({
+  ...timelineEventFields,
+  duration: number(),
+  type: oneOf(['silence'] as const)
+}));
+
+// The validation pass echoes each event's id and may add explicit context switches (without one)
+export const validatedEventsSchema: Schema<(TimelineEvent & { id?: number })[]> = array(object({
+  ...timelineEventFields,
+  id: optional(number()),
+  type: oneOf(['visual', 'audio', 'redundancy', 'silence', 'context_switch'] as const)
+}));
+
+export const polishResultsSchema: Schema<{ id: string; improvedText: string }[]> = array(object({
+  id: string(),
+  improvedText: string()
+}));
+
+export const chapterSuggestionsSchema: Schema<{ firstClipId: string; title: string }[]> = array(object({
+  firstClipId: string(),
+  title: string()
+}));
+
+export const publishingMetadataSchema: Schema<PublishingMetadata> = object({
+  title: string(),
+  description: string(),
+  tags: array(string())
+});
+
+export const highlightReelSchema: Schema<{
+  scores: HighlightScore[];
+  clipIds: string[];
+  hookLines?: { clipId: string; text: string }[];
+}> = object({
+  scores: array(object({
+    clipId: string(),
+    hook: number(),
+    completeness: number(),
+    visualInterest: number(),
+    reason: string()
+  })),
+  clipIds: array(string()),
+  hookLines: optional(array(object({ clipId: string(), text: string() })))
+});
+
+export const focusPointsSchema: Schema<FocusPoint[]> = array(object({
+  time: number(),
+  x: number(),
+  y: number()
+}));
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { AlignmentData } from './elevenLabsService';
+import { describeAlignmentIssues, mapSegmentsToAlignment, normalizeForAlignment } from './alignmentService';
+
+const CHAR_SECONDS = 0.1;
+
+// Character timings as ElevenLabs returns them, one character every 100ms
+const alignmentFor = (spoken: string): AlignmentData => {
+  const characters = [...spoken];
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i * CHAR_SECONDS),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) * CHAR_SECONDS)
+  };
+};
+
+const spokenText = (alignment: AlignmentData, charStart: number, charEnd: number) =>
+  alignment.characters.slice(charStart, charEnd).join('');
+
+describe('normalizeForAlignment', () => {
+  it('keeps only case-folded, accent-free letters and digits', () => {
+    expect(normalizeForAlignment('Café, "naïve" — 42!')).toBe('cafenaive42');
+  });
+});
+
+describe('mapSegmentsToAlignment', () => {
+  it('maps segments that were spoken exactly as written', () => {
+    const segments = ['Open the settings. ', 'Then click save.'];
+    const alignment = alignmentFor(segments.join(''));
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(boundaries).toHaveLength(2);
+    expect(spokenText(alignment, boundaries[0].charStart, boundaries[0].charEnd)).toBe('Open the settings');
+    expect(spokenText(alignment, boundaries[1].charStart, boundaries[1].charEnd)).toBe('Then click save');
+    expect(boundaries[0].start).toBe(0);
+    expect(boundaries[1].start).toBeCloseTo(19 * CHAR_SECONDS);
+    expect(boundaries[1].end).toBeCloseTo(34 * CHAR_SECONDS);
+    expect(boundaries.map(b => b.confidence)).toEqual([1, 1]);
+  });
+
+  it('ignores an ellipsis the API collapsed into a single character', () => {
+    const segments = ['Wait for it... ', 'Done.'];
+    const alignment = alignmentFor('Wait for it… Done.');
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(spokenText(alignment, boundaries[0].charStart, boundaries[0].charEnd)).toBe('Wait for it');
+    expect(spokenText(alignment, boundaries[1].charStart, boundaries[1].charEnd)).toBe('Done');
+    expect(boundaries.map(b => b.confidence)).toEqual([1, 1]);
+  });
+
+  it('ignores punctuation, quotes and spacing the API normalised', () => {
+    const segments = ['He said "don\'t" -- twice. ', 'Café  time!'];
+    const alignment = alignmentFor('He said “don’t” — twice. Cafe time!');
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(spokenText(alignment, boundaries[0].charStart, boundaries[0].charEnd)).toBe('He said “don’t” — twice');
+    expect(spokenText(alignment, boundaries[1].charStart, boundaries[1].charEnd)).toBe('Cafe time');
+    expect(boundaries.map(b => b.confidence)).toEqual([1, 1]);
+  });
+
+  it('resynchronises after characters the API dropped', () => {
+    const segments = ['Click the big button. ', 'Now export.'];
+    const alignment = alignmentFor('Click the button. Now export.');
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(spokenText(alignment, boundaries[0].charStart, boundaries[0].charEnd)).toBe('Click the button');
+    expect(spokenText(alignment, boundaries[1].charStart, boundaries[1].charEnd)).toBe('Now export');
+    expect(boundaries[0].confidence).toBeCloseTo(14 / 17);
+    expect(boundaries[1].confidence).toBe(1);
+  });
+
+  it('resynchronises after characters the API added', () => {
+    const segments = ['Press play. ', 'Watch closely.'];
+    const alignment = alignmentFor('Press the play. Watch closely.');
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(spokenText(alignment, boundaries[0].charStart, boundaries[0].charEnd)).toBe('Press the play');
+    expect(spokenText(alignment, boundaries[1].charStart, boundaries[1].charEnd)).toBe('Watch closely');
+    expect(boundaries.map(b => b.confidence)).toEqual([1, 1]);
+  });
+
+  it('places an empty segment where its neighbours meet', () => {
+    const segments = ['First part. ', '', 'Second part.'];
+    const alignment = alignmentFor(segments.join(''));
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(boundaries[1]).toEqual({
+      index: 1,
+      start: boundaries[0].end,
+      end: boundaries[0].end,
+      charStart: boundaries[0].charEnd,
+      charEnd: boundaries[0].charEnd,
+      confidence: 1
+    });
+    expect(spokenText(alignment, boundaries[2].charStart, boundaries[2].charEnd)).toBe('Second part');
+  });
+
+  it('gives a segment that was not spoken a zero-length boundary with no confidence', () => {
+    const segments = ['Hello there. ', 'Qzxv wkjp. ', 'Goodbye now.'];
+    const alignment = alignmentFor('Hello there. Goodbye now.');
+    const boundaries = mapSegmentsToAlignment(segments, alignment);
+
+    expect(boundaries[1].confidence).toBe(0);
+    expect(boundaries[1].charStart).toBe(boundaries[0].charEnd);
+    expect(boundaries[1].charEnd).toBe(boundaries[1].charStart);
+    expect(boundaries[1].start).toBe(boundaries[0].end);
+    expect(boundaries[1].end).toBe(boundaries[1].start);
+    expect(spokenText(alignment, boundaries[2].charStart, boundaries[2].charEnd)).toBe('Goodbye now');
+  });
+
+  it('starts a leading unmatched segment at the first character', () => {
+    const alignment = alignmentFor('Spoken words.');
+    const boundaries = mapSegmentsToAlignment(['', 'Spoken words.'], alignment);
+
+    expect(boundaries[0]).toMatchObject({ start: 0, end: 0, charStart: 0, charEnd: 0 });
+  });
+
+  it('returns no timing for an empty alignment', () => {
+    const boundaries = mapSegmentsToAlignment(['Nothing came back.'], alignmentFor(''));
+
+    expect(boundaries).toEqual([{ index: 0, start: 0, end: 0, charStart: 0, charEnd: 0, confidence: 0 }]);
+  });
+});
+
+describe('describeAlignmentIssues', () => {
+  it('lists only boundaries below the confidence threshold', () => {
+    const segments = ['Click the big button. ', 'Now export.'];
+    const boundaries = mapSegmentsToAlignment(segments, alignmentFor('Click the button. Now export.'));
+
+    expect(describeAlignmentIssues(boundaries, ['Intro', 'Export'], 0.9)).toEqual(['"Intro" matched 82% of its script']);
+    expect(describeAlignmentIssues(boundaries, ['Intro', 'Export'])).toEqual([]);
+  });
+});
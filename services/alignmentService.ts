@@ -0,0 +1,132 @@
+import { AlignmentData } from './elevenLabsService';
+
+/**
+ * Maps the text segments a voiceover was synthesized from onto ElevenLabs character timings.
+ * Only letters and digits are compared (after case folding and accent stripping), so spacing,
+ * punctuation and quote styles the API normalises can't shift a boundary. Characters the API
+ * changed or dropped are skipped by resynchronising on the next matching run.
+ */
+
+// Where one segment landed in the audio
+export interface AlignmentBoundary {
+  index: number; // Position in the segments passed in
+  start: number; // Seconds
+  end: number;
+  charStart: number; // Range in alignment.characters, end exclusive
+  charEnd: number;
+  confidence: number; // Share of the segment's letters and digits found in the alignment (0-1)
+}
+
+interface ComparableChar {
+  char: string;
+  index: number; // Into the source string or alignment.characters
+}
+
+export const MIN_ALIGNMENT_CONFIDENCE = 0.8;
+
+const RESYNC_LOOKAHEAD = 48; // How far either side may run ahead after a mismatch
+const RESYNC_RUN = 3; // Matching characters needed to trust a resync point
+
+/**
+ * Case-folded, accent-free letters and digits of a string; everything else is ignored.
+ */
+export const normalizeForAlignment = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const toComparable = (chars: string[]): ComparableChar[] =>
+  chars.flatMap((char, index) => [...normalizeForAlignment(char)].map(c => ({ char: c, index })));
+
+const runMatches = (a: ComparableChar[], i: number, b: ComparableChar[], j: number) => {
+  for (let k = 0; k < RESYNC_RUN; k++) {
+    if (i + k >= a.length || j + k >= b.length) return k > 0;
+    if (a[i + k].char !== b[j + k].char) return false;
+  }
+  return true;
+};
+
+/**
+ * Pairs up the two character streams: walks them together, and on a mismatch looks ahead on
+ * both sides for the nearest point where they agree again. Returns, for every text character,
+ * the alignment character it matched (or -1).
+ */
+const matchStreams = (text: ComparableChar[], spoken: ComparableChar[]): number[] => {
+  const matched = new Array<number>(text.length).fill(-1);
+  let i = 0;
+  let j = 0;
+
+  while (i < text.length && j < spoken.length) {
+    if (text[i].char === spoken[j].char) {
+      matched[i++] = j++;
+      continue;
+    }
+    let resync: [number, number] | null = null;
+    for (let skip = 1; skip <= RESYNC_LOOKAHEAD && !resync; skip++) {
+      for (let si = 0; si <= skip; si++) {
+        const ti = i + si;
+        const tj = j + (skip - si);
+        if (ti < text.length && tj < spoken.length && runMatches(text, ti, spoken, tj)) {
+          resync = [ti, tj];
+          break;
+        }
+      }
+    }
+    if (!resync) break;
+    [i, j] = resync;
+  }
+
+  return matched;
+};
+
+/**
+ * Locates each segment in the alignment of their concatenation. A segment none of whose
+ * characters could be matched gets a zero-length boundary where its neighbours meet, with
+ * confidence 0, so callers can report it instead of trusting the timing.
+ */
+export const mapSegmentsToAlignment = (segments: string[], alignment: AlignmentData): AlignmentBoundary[] => {
+  const text: (ComparableChar & { segment: number })[] = segments.flatMap((segment, s) =>
+    toComparable([...segment]).map(c => ({ ...c, segment: s }))
+  );
+  const spoken = toComparable(alignment.characters);
+  const matched = matchStreams(text, spoken);
+  const starts = alignment.character_start_times_seconds;
+  const ends = alignment.character_end_times_seconds;
+
+  const boundaries: AlignmentBoundary[] = segments.map((_, index) => {
+    const own = text.map((c, t) => (c.segment === index ? matched[t] : null)).filter((m): m is number => m !== null);
+    const hits = own.filter(m => m !== -1);
+    if (hits.length === 0) {
+      return { index, start: 0, end: 0, charStart: 0, charEnd: 0, confidence: own.length === 0 ? 1 : 0 };
+    }
+    const first = spoken[hits[0]].index;
+    const last = spoken[hits[hits.length - 1]].index;
+    return {
+      index,
+      start: starts[first],
+      end: ends[last],
+      charStart: first,
+      charEnd: last + 1,
+      confidence: hits.length / own.length
+    };
+  });
+
+  // Place empty or unmatched segments between their neighbours
+  return boundaries.map((boundary, i) => {
+    if (boundary.charEnd > boundary.charStart) return boundary;
+    const previous = boundaries.slice(0, i).reverse().find(b => b.charEnd > b.charStart);
+    const charStart = previous ? previous.charEnd : 0;
+    const time = previous ? previous.end : (starts[0] ?? 0);
+    return { ...boundary, start: time, end: time, charStart, charEnd: charStart };
+  });
+};
+
+/**
+ * Human-readable notes for boundaries that can't be trusted.
+ */
+export const describeAlignmentIssues = (
+  boundaries: AlignmentBoundary[],
+  labels: string[],
+  minConfidence: number = MIN_ALIGNMENT_CONFIDENCE
+): string[] =>
+  boundaries
+    .filter(b => b.confidence < minConfidence)
+    .map(b => `"${labels[b.index] ?? `Segment ${b.index + 1}`}" matched ${Math.round(b.confidence * 100)}% of its script`);
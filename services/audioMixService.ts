@@ -0,0 +1,190 @@
+import { Clip, ClipAudioMix, TrackItem } from '../types';
+import { layoutSequence } from './sequenceService';
+
+/**
+ * Per-clip mix of the AI voiceover and the source video's own audio, used by the preview
+ * (through a Web Audio graph on the two media elements) and by the offline export.
+ * Only applies while Master Audio drives the edit; without it clips play their original audio.
+ */
+
+export const DEFAULT_CLIP_AUDIO_MIX: ClipAudioMix = {
+  source: 'voiceover',
+  voiceoverVolume: 1,
+  originalVolume: 1,
+  duckOriginal: 0.25
+};
+
+export const CLIP_AUDIO_SOURCE_LABELS: Record<ClipAudioMix['source'], string> = {
+  voiceover: 'Voiceover',
+  original: 'Original',
+  both: 'Both'
+};
+
+const DUCK_PADDING = 0.15; // Seconds the duck opens early and releases late around each word
+export const DUCK_RAMP_SECONDS = 0.08;
+const MUSIC_DUCK_RAMP_SECONDS = 0.4; // Music dips and swells slower than the original audio so it isn't noticed
+
+export const getClipAudioMix = (clip: Clip): ClipAudioMix => ({ ...DEFAULT_CLIP_AUDIO_MIX, ...clip.audioMix });
+
+// Gains applied to each source at one moment
+export interface MixGains {
+  voiceover: number;
+  original: number;
+}
+
+/**
+ * Master Audio time ranges where the clip's voiceover is speaking (words padded and merged).
+ */
+export const getSpeechRanges = (clip: Clip): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  for (const word of clip.voiceoverWords ?? []) {
+    const start = word.start - DUCK_PADDING;
+    const end = word.end + DUCK_PADDING;
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) last.end = Math.max(last.end, end);
+    else ranges.push({ start, end });
+  }
+  return ranges;
+};
+
+/**
+ * Ducking gain at a time: `duck` inside the ranges, ramping back to 1 over `ramp` seconds
+ * outside them so the ducked audio never clicks in or out.
+ */
+export const getDuckGain = (time: number, ranges: { start: number; end: number }[], duck: number, ramp = DUCK_RAMP_SECONDS): number => {
+  let distance = Infinity;
+  for (const range of ranges) {
+    if (time >= range.start && time < range.end) return duck;
+    distance = Math.min(distance, Math.abs(time - range.start), Math.abs(time - range.end));
+  }
+  return distance >= ramp ? 1 : duck + (1 - duck) * (distance / ramp);
+};
+
+/**
+ * Gains for a clip at a Master Audio time. The original is ducked under the voiceover's words
+ * when both play.
+ */
+export const getClipGains = (clip: Clip, masterTime: number): MixGains => {
+  const mix = getClipAudioMix(clip);
+  const voiceover = mix.source === 'original' ? 0 : mix.voiceoverVolume;
+  if (mix.source === 'voiceover') return { voiceover, original: 0 };
+
+  const speaking = mix.source === 'both' && getSpeechRanges(clip).some(r => masterTime >= r.start && masterTime < r.end);
+  return { voiceover, original: mix.originalVolume * (speaking ? mix.duckOriginal : 1) };
+};
+
+/**
+ * Sequence time ranges where someone speaks. With Master Audio these are the voiceover's words
+ * (or the clip's whole voiceover span when no word timings exist); without it every clip is
+ * narration, so its whole span counts.
+ */
+export const getSequenceSpeechRanges = (clips: Clip[], useMasterAudio: boolean): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  for (const { clip, sequenceStart, duration, audioDriven } of layoutSequence(clips, useMasterAudio)) {
+    const mix = getClipAudioMix(clip);
+    if (audioDriven && mix.source === 'original') continue;
+    const toSequence = sequenceStart - (clip.audioStartTime ?? 0);
+    const clipRanges = audioDriven && clip.voiceoverWords?.length
+      ? getSpeechRanges(clip).map(r => ({ start: r.start + toSequence, end: r.end + toSequence }))
+      : [{ start: sequenceStart, end: sequenceStart + duration }];
+    for (const range of clipRanges) {
+      const last = ranges[ranges.length - 1];
+      if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+      else ranges.push({ ...range });
+    }
+  }
+  return ranges;
+};
+
+/**
+ * Gain of a music item at a sequence time: its volume, faded in from the item start and out
+ * towards whichever comes first of the item end and the sequence end, and ducked under speech.
+ */
+export const getMusicGain = (item: TrackItem, time: number, speechRanges: { start: number; end: number }[], sequenceDuration: number): number => {
+  const elapsed = time - item.start;
+  const remaining = Math.min(item.start + item.duration, sequenceDuration) - time;
+  let gain = item.volume ?? 1;
+  if (item.fadeIn && elapsed < item.fadeIn) gain *= Math.max(0, elapsed / item.fadeIn);
+  if (item.fadeOut && remaining < item.fadeOut) gain *= Math.max(0, remaining / item.fadeOut);
+  if (item.duckUnderSpeech !== undefined) gain *= getDuckGain(time, speechRanges, item.duckUnderSpeech, MUSIC_DUCK_RAMP_SECONDS);
+  return gain;
+};
+
+export const usesOriginalAudio = (clips: Clip[]): boolean => clips.some(c => getClipAudioMix(c).source !== 'voiceover');
+
+export interface PreviewMixer {
+  setGains: (gains: MixGains) => void;
+  resume: () => void;
+}
+
+// A media element can only be wired into one graph, ever
+const mixers = new WeakMap<HTMLMediaElement, PreviewMixer>();
+
+export const findPreviewMixer = (video: HTMLVideoElement): PreviewMixer | null => mixers.get(video) ?? null;
+
+// Web Audio outputs silence for cross-origin media loaded without CORS, so cross-origin media
+// only counts once its CORS request has succeeded
+const isCorsSafe = (element: HTMLMediaElement): boolean => {
+  const src = element.currentSrc || element.src;
+  if (!src) return true;
+  const url = new URL(src, window.location.href);
+  if (url.protocol === 'data:' || url.origin === window.location.origin) return true;
+  return element.crossOrigin !== null && element.readyState >= HTMLMediaElement.HAVE_METADATA;
+};
+
+/**
+ * Reloads media whose CORS request failed (the server sends no CORS headers) without CORS, at
+ * the same position, so it still plays; the mixer then leaves it on element volumes.
+ */
+export const reloadWithoutCors = (element: HTMLMediaElement) => {
+  if (element.crossOrigin === null) return;
+  if (mixers.has(element)) {
+    console.warn('Routed media failed to load, keeping CORS so the mixer can still hear it');
+    return;
+  }
+  const time = element.currentTime;
+  element.removeAttribute('crossorigin');
+  element.load();
+  if (time > 0) element.addEventListener('loadedmetadata', () => { element.currentTime = time; }, { once: true });
+};
+
+/**
+ * Routes the video and Master Audio elements through gain nodes. Returns null where Web Audio
+ * isn't available or either element plays cross-origin media without CORS; the caller then
+ * falls back to element volumes.
+ */
+export const getPreviewMixer = (video: HTMLVideoElement, audio: HTMLAudioElement): PreviewMixer | null => {
+  const existing = mixers.get(video);
+  if (existing) return existing;
+  if (typeof AudioContext === 'undefined') return null;
+  if (!isCorsSafe(video) || !isCorsSafe(audio)) {
+    console.warn('Media is cross-origin without CORS, using element volumes');
+    return null;
+  }
+
+  try {
+    const context = new AudioContext();
+    const voiceoverGain = context.createGain();
+    const originalGain = context.createGain();
+    context.createMediaElementSource(audio).connect(voiceoverGain).connect(context.destination);
+    context.createMediaElementSource(video).connect(originalGain).connect(context.destination);
+
+    const mixer: PreviewMixer = {
+      setGains: ({ voiceover, original }) => {
+        mixer.resume();
+        voiceoverGain.gain.setTargetAtTime(voiceover, context.currentTime, DUCK_RAMP_SECONDS / 3);
+        originalGain.gain.setTargetAtTime(original, context.currentTime, DUCK_RAMP_SECONDS / 3);
+      },
+      // Browsers start contexts suspended until a user gesture
+      resume: () => {
+        if (context.state === 'suspended') context.resume().catch(() => {});
+      }
+    };
+    mixers.set(video, mixer);
+    mixers.set(audio, mixer);
+    return mixer;
+  } catch (error) {
+    console.warn('Web Audio mixer unavailable, using element volumes', error);
+    return null;
+  }
+};
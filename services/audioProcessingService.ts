@@ -0,0 +1,310 @@
+import { AudioProcessingSettings, LoudnessReport } from '../types';
+
+/**
+ * Cleanup and loudness normalisation for the exported mix: high-pass, noise gate, compressor,
+ * gain to the target integrated loudness (ITU-R BS.1770 / EBU R128) and a true-peak limiter.
+ * The filters run in an OfflineAudioContext; the gate, the measurements and the limiter work
+ * on the samples directly. Channels are processed in place.
+ */
+
+const STEP_SECONDS = 0.1; // Gating blocks overlap by 75%, so they are built from 100ms steps
+const MOMENTARY_STEPS = 4; // 400ms blocks for integrated loudness
+const SHORT_TERM_STEPS = 30; // 3s blocks for loudness range (EBU Tech 3342)
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+const MAX_GAIN_DB = 20; // Very quiet mixes would otherwise bring the room noise up with them
+
+const GATE_WINDOW_SECONDS = 0.01;
+const GATE_HOLD_SECONDS = 0.1;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.15;
+const GATE_FLOOR_DB = -20; // Attenuated rather than muted, so pauses don't sound like dropouts
+
+const COMPRESSOR_DELAY_SECONDS = 0.006; // Look-ahead DynamicsCompressorNode adds to its output
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+const OVERSAMPLING = 4; // True peak is estimated on a 4x interpolated signal (BS.1770 Annex 2)
+const INTERPOLATION_TAPS = 4; // Per side
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(gain);
+const powerToLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+const smoothing = (seconds: number, sampleRate: number) => 1 - Math.exp(-1 / (seconds * sampleRate));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+/**
+ * BS.1770 K-weighting (high shelf + high-pass) as biquad coefficients for any sample rate.
+ */
+const getKWeighting = (sampleRate: number) => {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+  };
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = { b: [1, -2, 1], a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0] };
+  return [shelf, highPass];
+};
+
+/**
+ * Sum of K-weighted squared samples over every channel, per 100ms step.
+ */
+const getStepPowers = (channels: Float32Array[], sampleRate: number): Float64Array => {
+  const stepLength = Math.round(STEP_SECONDS * sampleRate);
+  const length = channels[0]?.length ?? 0;
+  const steps = new Float64Array(Math.floor(length / stepLength));
+  const [shelf, highPass] = getKWeighting(sampleRate);
+
+  for (const data of channels) {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let i = 0; i < steps.length * stepLength; i++) {
+      const x = data[i];
+      const y = shelf.b[0] * x + shelf.b[1] * x1 + shelf.b[2] * x2 - shelf.a[0] * y1 - shelf.a[1] * y2;
+      const z = y - 2 * y1 + y2 - highPass.a[0] * z1 - highPass.a[1] * z2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      z2 = z1; z1 = z;
+      steps[Math.floor(i / stepLength)] += z * z;
+    }
+  }
+  return steps;
+};
+
+// Mean power of every overlapping block of `blockSteps` steps
+const getBlockPowers = (steps: Float64Array, blockSteps: number, stepLength: number): number[] => {
+  const blocks: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < steps.length; i++) {
+    sum += steps[i];
+    if (i >= blockSteps) sum -= steps[i - blockSteps];
+    if (i >= blockSteps - 1) blocks.push(sum / (blockSteps * stepLength));
+  }
+  return blocks;
+};
+
+const gatedMean = (powers: number[], relativeGateLu: number): number[] => {
+  const audible = powers.filter(p => p > 0 && powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return [];
+  const threshold = powerToLufs(audible.reduce((acc, p) => acc + p, 0) / audible.length) + relativeGateLu;
+  return audible.filter(p => powerToLufs(p) > threshold);
+};
+
+/**
+ * Integrated loudness (LUFS, null when silent) and loudness range (LU).
+ */
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): { integrated: number | null; range: number } => {
+  const stepLength = Math.round(STEP_SECONDS * sampleRate);
+  const steps = getStepPowers(channels, sampleRate);
+
+  const gated = gatedMean(getBlockPowers(steps, MOMENTARY_STEPS, stepLength), RELATIVE_GATE_LU);
+  const integrated = gated.length > 0 ? powerToLufs(gated.reduce((acc, p) => acc + p, 0) / gated.length) : null;
+
+  const shortTerm = gatedMean(getBlockPowers(steps, SHORT_TERM_STEPS, stepLength), RANGE_RELATIVE_GATE_LU)
+    .map(powerToLufs)
+    .sort((a, b) => a - b);
+  const percentile = (p: number) => shortTerm[Math.min(shortTerm.length - 1, Math.round(p * (shortTerm.length - 1)))];
+  const range = shortTerm.length > 1 ? percentile(0.95) - percentile(0.1) : 0;
+
+  return { integrated, range };
+};
+
+// Hann-windowed sinc coefficients for the in-between positions 1/4, 2/4 and 3/4
+const INTERPOLATION_FILTERS = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+  const fraction = (p + 1) / OVERSAMPLING;
+  return Array.from({ length: INTERPOLATION_TAPS * 2 }, (_, j) => {
+    const t = fraction - (j - INTERPOLATION_TAPS + 1);
+    const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+    return sinc * 0.5 * (1 + Math.cos((Math.PI * t) / INTERPOLATION_TAPS));
+  });
+});
+
+/**
+ * Highest absolute level between sample i and i + 1 on one channel, including inter-sample peaks.
+ */
+const getTruePeakAt = (data: Float32Array, i: number): number => {
+  let peak = Math.abs(data[i]);
+  if (i < INTERPOLATION_TAPS - 1 || i + INTERPOLATION_TAPS >= data.length) return peak;
+  for (const filter of INTERPOLATION_FILTERS) {
+    let value = 0;
+    for (let j = 0; j < filter.length; j++) value += data[i + j - INTERPOLATION_TAPS + 1] * filter[j];
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+};
+
+/**
+ * True peak in dBTP. Inter-sample overs are only looked for where the samples come within
+ * 6 dB of the peak found so far; real programme material doesn't overshoot by more.
+ */
+export const measureTruePeak = (channels: Float32Array[]): number => {
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const level = Math.abs(data[i]);
+      peak = Math.max(peak, level * 2 > peak ? getTruePeakAt(data, i) : level);
+    }
+  }
+  return peak > 0 ? gainToDb(peak) : -Infinity;
+};
+
+/**
+ * Attenuates the audio between words when the level falls under the threshold. The detector
+ * ignores low rumble and opens one window early so word onsets aren't clipped.
+ */
+const applyNoiseGate = (channels: Float32Array[], sampleRate: number, thresholdDb: number) => {
+  const windowLength = Math.round(GATE_WINDOW_SECONDS * sampleRate);
+  const length = channels[0].length;
+  const windowCount = Math.ceil(length / windowLength);
+  const threshold = dbToGain(thresholdDb);
+  const highPass = Math.exp(-2 * Math.PI * 150 / sampleRate);
+
+  const open = new Uint8Array(windowCount);
+  let previous = 0, filtered = 0;
+  for (let w = 0; w < windowCount; w++) {
+    let sum = 0;
+    const end = Math.min(length, (w + 1) * windowLength);
+    for (let i = w * windowLength; i < end; i++) {
+      let mixed = 0;
+      for (const data of channels) mixed += data[i];
+      mixed /= channels.length;
+      filtered = highPass * (filtered + mixed - previous);
+      previous = mixed;
+      sum += filtered * filtered;
+    }
+    open[w] = Math.sqrt(sum / (end - w * windowLength)) >= threshold ? 1 : 0;
+  }
+
+  const holdWindows = Math.round(GATE_HOLD_SECONDS / GATE_WINDOW_SECONDS);
+  let lastOpen = -Infinity;
+  const attack = smoothing(GATE_ATTACK_SECONDS, sampleRate);
+  const release = smoothing(GATE_RELEASE_SECONDS, sampleRate);
+  const floor = dbToGain(GATE_FLOOR_DB);
+  let gain = 1;
+  for (let w = 0; w < windowCount; w++) {
+    if (open[w] || open[w + 1]) lastOpen = w;
+    const target = w - lastOpen <= holdWindows ? 1 : floor;
+    const end = Math.min(length, (w + 1) * windowLength);
+    for (let i = w * windowLength; i < end; i++) {
+      gain += (target - gain) * (target > gain ? attack : release);
+      for (const data of channels) data[i] *= gain;
+    }
+  }
+};
+
+/**
+ * High-pass and compressor through an OfflineAudioContext. Returns views of the rendered
+ * channels, shifted back by the compressor's look-ahead so the audio stays in sync.
+ */
+const runFilters = async (channels: Float32Array[], sampleRate: number, settings: AudioProcessingSettings): Promise<Float32Array[]> => {
+  const length = channels[0].length;
+  const delay = settings.compress ? Math.round(COMPRESSOR_DELAY_SECONDS * sampleRate) : 0;
+  const context = new OfflineAudioContext({ numberOfChannels: channels.length, length: length + delay, sampleRate });
+  const buffer = context.createBuffer(channels.length, length, sampleRate);
+  channels.forEach((data, c) => buffer.copyToChannel(data, c));
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  let node: AudioNode = source;
+  if (settings.highPassHz > 0) {
+    const highPass = context.createBiquadFilter();
+    highPass.type = 'highpass';
+    highPass.frequency.value = settings.highPassHz;
+    highPass.Q.value = Math.SQRT1_2;
+    node = node.connect(highPass);
+  }
+  if (settings.compress) {
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.value = -24;
+    compressor.knee.value = 12;
+    compressor.ratio.value = 3;
+    compressor.attack.value = 0.005;
+    compressor.release.value = 0.15;
+    node = node.connect(compressor);
+  }
+  node.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return channels.map((_, c) => rendered.getChannelData(c).subarray(delay, delay + length));
+};
+
+/**
+ * Look-ahead limiter holding true peaks under the ceiling: gain ramps down ahead of each
+ * over and recovers smoothly after it. Returns how many samples were pulled down.
+ */
+const applyLimiter = (channels: Float32Array[], sampleRate: number, ceilingDb: number): number => {
+  const length = channels[0].length;
+  const ceiling = dbToGain(ceilingDb);
+  const gains = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const data of channels) {
+      const level = Math.abs(data[i]);
+      peak = Math.max(peak, level * 2 > ceiling ? getTruePeakAt(data, i) : level);
+    }
+    gains[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  const attackStep = 1 / Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  for (let i = length - 2; i >= 0; i--) gains[i] = Math.min(gains[i], gains[i + 1] + attackStep);
+  const release = smoothing(LIMITER_RELEASE_SECONDS, sampleRate);
+  let limited = 0;
+  for (let i = 0; i < length; i++) {
+    if (i > 0) gains[i] = Math.min(gains[i], gains[i - 1] + (1 - gains[i - 1]) * release);
+    if (gains[i] < 0.999) limited++;
+    for (const data of channels) data[i] *= gains[i];
+  }
+  return limited;
+};
+
+/**
+ * Runs the whole chain over the mixed export audio and reports the loudness before and after.
+ */
+export const processExportAudio = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: AudioProcessingSettings,
+  signal?: AbortSignal
+): Promise<{ channels: Float32Array[]; report: LoudnessReport }> => {
+  const input = measureLoudness(channels, sampleRate);
+  throwIfAborted(signal);
+
+  if (settings.noiseGateDb !== null) applyNoiseGate(channels, sampleRate, settings.noiseGateDb);
+  const output = settings.highPassHz > 0 || settings.compress ? await runFilters(channels, sampleRate, settings) : channels;
+  throwIfAborted(signal);
+
+  const filtered = measureLoudness(output, sampleRate);
+  const gainDb = filtered.integrated === null ? 0 : Math.min(MAX_GAIN_DB, settings.targetLufs - filtered.integrated);
+  const gain = dbToGain(gainDb);
+  for (const data of output) {
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+  const limited = applyLimiter(output, sampleRate, settings.truePeakDb);
+  throwIfAborted(signal);
+
+  const result = measureLoudness(output, sampleRate);
+  return {
+    channels: output,
+    report: {
+      inputLufs: input.integrated,
+      outputLufs: result.integrated,
+      targetLufs: settings.targetLufs,
+      loudnessRange: result.range,
+      truePeakDb: measureTruePeak(output),
+      gainDb,
+      limitedPercent: output[0].length > 0 ? (limited / output[0].length) * 100 : 0
+    }
+  };
+};
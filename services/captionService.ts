@@ -0,0 +1,226 @@
+import { CaptionStyle, Clip, TimedWord } from '../types';
+import { AlignmentData } from './elevenLabsService';
+import { layoutSequence } from './sequenceService';
+import { stripSpeechMarkup } from './speechMarkupService';
+
+// One subtitle block, in sequence (output) time
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words: TimedWord[];
+}
+
+const MAX_CUE_CHARS = 84; // Two lines of ~42 characters
+const MAX_CUE_DURATION = 6;
+const MAX_WORD_GAP = 1.0; // A longer pause starts a new cue
+const DELIMITER_TOKEN = /^\.{3,}$/;
+
+/**
+ * Groups ElevenLabs character timings into words (Master Audio time).
+ * The " ... " clip delimiters are dropped.
+ */
+export const alignmentToWords = (alignment: AlignmentData): TimedWord[] => {
+  const words: TimedWord[] = [];
+  const chars = alignment.characters;
+  let current: TimedWord | null = null;
+
+  for (let i = 0; i < chars.length; i++) {
+    if (/\s/.test(chars[i])) {
+      if (current) words.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { text: '', start: alignment.character_start_times_seconds[i], end: 0 };
+    }
+    current.text += chars[i];
+    current.end = alignment.character_end_times_seconds[i];
+  }
+  if (current) words.push(current);
+
+  return words.filter(w => !DELIMITER_TOKEN.test(w.text));
+};
+
+/**
+ * Words that start inside [start, end), e.g. one clip's share of the master voiceover.
+ */
+export const getWordsInRange = (words: TimedWord[], start: number, end: number): TimedWord[] => {
+  return words.filter(w => w.start >= start && w.start < end);
+};
+
+// No word timings available: spread the text across the range, weighted by word length
+const estimateWordTimings = (text: string, start: number, duration: number): TimedWord[] => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((acc, t) => acc + t.length + 1, 0);
+  if (totalChars === 0) return [];
+
+  let cursor = start;
+  return tokens.map(token => {
+    const wordDuration = ((token.length + 1) / totalChars) * duration;
+    const word = { text: token, start: cursor, end: cursor + wordDuration };
+    cursor += wordDuration;
+    return word;
+  });
+};
+
+/**
+ * Builds caption cues for the whole sequence.
+ * Voiceover clips use their aligned word timings; everything else falls back to the
+ * clip transcript spread over the clip (Gemini segment timings).
+ */
+export const buildCaptionCues = (clips: Clip[], useMasterAudio: boolean): CaptionCue[] => {
+  const words: TimedWord[] = [];
+
+  for (const { clip, sequenceStart, duration, audioDriven } of layoutSequence(clips, useMasterAudio)) {
+    const sequenceEnd = sequenceStart + duration;
+    let clipWords: TimedWord[];
+
+    if (audioDriven && clip.voiceoverWords && clip.voiceoverWords.length > 0) {
+      const offset = sequenceStart - clip.audioStartTime!;
+      clipWords = clip.voiceoverWords.map(w => ({ text: w.text, start: w.start + offset, end: w.end + offset }));
+    } else {
+      const text = stripSpeechMarkup((audioDriven ? clip.improvedTranscript : clip.transcript) || clip.transcript || '');
+      clipWords = estimateWordTimings(text, sequenceStart, duration);
+    }
+
+    clipWords.forEach(w => {
+      const start = Math.max(sequenceStart, Math.min(w.start, sequenceEnd));
+      const end = Math.max(start, Math.min(w.end, sequenceEnd));
+      if (end > start) words.push({ text: w.text, start, end });
+    });
+  }
+
+  const cues: CaptionCue[] = [];
+  let pending: TimedWord[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    cues.push({
+      start: pending[0].start,
+      end: pending[pending.length - 1].end,
+      text: pending.map(w => w.text).join(' '),
+      words: pending
+    });
+    pending = [];
+  };
+
+  for (const word of words) {
+    if (pending.length > 0) {
+      const first = pending[0];
+      const last = pending[pending.length - 1];
+      const textLength = pending.reduce((acc, w) => acc + w.text.length + 1, 0) + word.text.length;
+      if (
+        textLength > MAX_CUE_CHARS ||
+        word.end - first.start > MAX_CUE_DURATION ||
+        word.start - last.end > MAX_WORD_GAP ||
+        /[.!?]$/.test(last.text)
+      ) {
+        flush();
+      }
+    }
+    pending.push(word);
+  }
+  flush();
+
+  return cues;
+};
+
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+/**
+ * Serializes cues as SubRip (.srt).
+ */
+export const cuesToSrt = (cues: CaptionCue[]): string => {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+};
+
+/**
+ * Serializes cues as WebVTT (.vtt).
+ */
+export const cuesToWebVtt = (cues: CaptionCue[]): string => {
+  const body = cues.map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`
+  ).join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+/**
+ * Finds the cue on screen at a sequence time.
+ */
+export const getActiveCue = (cues: CaptionCue[], time: number): CaptionCue | null => {
+  return cues.find(c => time >= c.start && time < c.end) ?? null;
+};
+
+/**
+ * Draws a cue onto a video frame (burn-in). Lines are wrapped to 90% of the frame width.
+ */
+export const drawCaption = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  cue: CaptionCue,
+  time: number,
+  width: number,
+  height: number,
+  style: CaptionStyle
+) => {
+  const fontSize = Math.round((style.fontSize / 100) * height);
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.35;
+  const maxWidth = width * 0.9;
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px ${style.fontFamily}`;
+  ctx.textBaseline = 'middle';
+  const spaceWidth = ctx.measureText(' ').width;
+
+  // Greedy word wrap
+  const lines: { words: TimedWord[]; width: number }[] = [];
+  let line: { words: TimedWord[]; width: number } = { words: [], width: 0 };
+  for (const word of cue.words) {
+    const wordWidth = ctx.measureText(word.text).width;
+    const nextWidth = line.words.length > 0 ? line.width + spaceWidth + wordWidth : wordWidth;
+    if (line.words.length > 0 && nextWidth > maxWidth) {
+      lines.push(line);
+      line = { words: [word], width: wordWidth };
+    } else {
+      line.words.push(word);
+      line.width = nextWidth;
+    }
+  }
+  if (line.words.length > 0) lines.push(line);
+
+  const blockHeight = lines.length * lineHeight;
+  const margin = height * 0.08;
+  let top = height - margin - blockHeight;
+  if (style.position === 'top') top = margin;
+  if (style.position === 'middle') top = (height - blockHeight) / 2;
+
+  lines.forEach((l, i) => {
+    const y = top + i * lineHeight + lineHeight / 2;
+    let x = (width - l.width) / 2;
+
+    if (style.backgroundColor !== 'transparent') {
+      ctx.fillStyle = style.backgroundColor;
+      ctx.fillRect(x - padding, y - lineHeight / 2, l.width + padding * 2, lineHeight);
+    }
+
+    for (const word of l.words) {
+      const isCurrent = style.highlightCurrentWord && time >= word.start && time < word.end;
+      ctx.fillStyle = isCurrent ? style.highlightColor : style.textColor;
+      ctx.fillText(word.text, x, y);
+      x += ctx.measureText(word.text).width + spaceWidth;
+    }
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,93 @@
+import { Clip, PublishingMetadata } from '../types';
+import { layoutSequence } from './sequenceService';
+
+/**
+ * Chapters are runs of clips: a clip with a `chapterTitle` starts one, which lasts until the
+ * next. Times are sequence (output) time, so they match the export rather than the source video.
+ */
+
+export interface Chapter {
+  clipId: string; // Clip that starts the chapter
+  title: string;
+  start: number; // Sequence seconds
+  end: number;
+}
+
+// YouTube only shows chapters for a list that starts at 0:00, has three or more entries and
+// no entry shorter than ten seconds
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+export const DEFAULT_FIRST_CHAPTER_TITLE = 'Intro';
+
+/**
+ * Chapters in sequence order. When clips before the first titled one exist they form an
+ * implicit first chapter, so the list always starts at 0:00. Empty when nothing is titled.
+ */
+export const getChapters = (clips: Clip[], useMasterAudio: boolean): Chapter[] => {
+  if (!clips.some(c => c.chapterTitle !== undefined)) return [];
+  const chapters: Chapter[] = [];
+  for (const { clip, sequenceStart, duration } of layoutSequence(clips, useMasterAudio)) {
+    const current = chapters[chapters.length - 1];
+    if (current && clip.chapterTitle === undefined) {
+      current.end = sequenceStart + duration;
+      continue;
+    }
+    chapters.push({
+      clipId: clip.id,
+      title: clip.chapterTitle ?? DEFAULT_FIRST_CHAPTER_TITLE,
+      start: sequenceStart,
+      end: sequenceStart + duration
+    });
+  }
+  return chapters;
+};
+
+/**
+ * Replaces every chapter start with the suggested ones (unknown clip ids are ignored).
+ */
+export const applyChapterSuggestions = (clips: Clip[], suggestions: { firstClipId: string; title: string }[]): Clip[] =>
+  clips.map(clip => {
+    const suggestion = suggestions.find(s => s.firstClipId === clip.id);
+    const { chapterTitle, ...rest } = clip;
+    return suggestion ? { ...rest, chapterTitle: suggestion.title.trim() || DEFAULT_FIRST_CHAPTER_TITLE } : rest;
+  });
+
+/**
+ * "MM:SS", or "H:MM:SS" past the hour, as YouTube expects.
+ */
+export const formatChapterTimestamp = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${String(minutes).padStart(2, '0')}:${secs}`;
+};
+
+export const formatYouTubeChapters = (chapters: Chapter[]): string =>
+  chapters.map(c => `${formatChapterTimestamp(c.start)} ${c.title}`).join('\n');
+
+/**
+ * Reasons YouTube would ignore the chapter list.
+ */
+export const getChapterWarnings = (chapters: Chapter[]): string[] => {
+  if (chapters.length === 0) return [];
+  const warnings: string[] = [];
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    warnings.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters.`);
+  }
+  const short = chapters.filter(c => c.end - c.start < YOUTUBE_MIN_CHAPTER_SECONDS);
+  if (short.length > 0) {
+    warnings.push(`${short.map(c => `"${c.title}"`).join(', ')} ${short.length === 1 ? 'is' : 'are'} shorter than ${YOUTUBE_MIN_CHAPTER_SECONDS}s.`);
+  }
+  if (chapters.some(c => !c.title.trim())) warnings.push('Every chapter needs a title.');
+  return warnings;
+};
+
+/**
+ * The generated description followed by the chapter list.
+ */
+export const composeDescription = (metadata: PublishingMetadata, chapters: Chapter[]): string => {
+  const description = metadata.description.trim();
+  return chapters.length > 0 ? `${description}\n\n${formatYouTubeChapters(chapters)}` : description;
+};
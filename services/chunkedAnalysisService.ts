@@ -0,0 +1,272 @@
+import { TimelineEvent } from '../types';
+import { formatTime } from '../utils';
+import { generateVideoTimeline, validateAndRepairTimeline, VideoWindow } from './geminiService';
+
+export interface AnalysisWindow extends VideoWindow {
+  index: number;
+  // The part of the window whose events this window is trusted for (the overlap is split halfway)
+  ownStart: number;
+  ownEnd: number;
+}
+
+export interface WindowResult {
+  window: AnalysisWindow;
+  events: TimelineEvent[];
+}
+
+export interface WindowedRunOptions {
+  signal?: AbortSignal;
+  completed?: WindowResult[]; // Windows finished by an earlier, interrupted run
+  onWindowComplete?: (completed: WindowResult[]) => void; // Checkpoint after every window
+}
+
+export const CHUNKED_ANALYSIS_MIN_DURATION = 15 * 60; // Single-prompt analysis degrades past this
+export const ANALYSIS_WINDOW_SECONDS = 8 * 60;
+export const ANALYSIS_WINDOW_OVERLAP = 30; // Sentences crossing a boundary are seen whole by one window
+
+const DUPLICATE_TOLERANCE = 1.5; // Same-type events this close are one event seen by two windows
+
+/**
+ * Splits [0, duration] into overlapping windows. Short videos get a single window.
+ */
+export const planAnalysisWindows = (
+  duration: number,
+  windowSize: number = ANALYSIS_WINDOW_SECONDS,
+  overlap: number = ANALYSIS_WINDOW_OVERLAP
+): AnalysisWindow[] => {
+  if (duration <= 0) return [];
+  const step = Math.max(1, windowSize - overlap);
+  const windows: AnalysisWindow[] = [];
+
+  for (let start = 0; ; start += step) {
+    const end = Math.min(duration, start + windowSize);
+    windows.push({ index: windows.length, start, end, ownStart: start, ownEnd: end });
+    if (end >= duration) break;
+  }
+
+  return windows.map((w, i) => ({
+    ...w,
+    ownStart: i === 0 ? 0 : (w.start + windows[i - 1].end) / 2,
+    ownEnd: i === windows.length - 1 ? duration : (windows[i + 1].start + w.end) / 2
+  }));
+};
+
+/**
+ * Models sometimes answer with times relative to the clipped window despite being asked for
+ * absolute ones. If nothing lands inside the window but everything fits its length, shift it.
+ */
+export const toAbsoluteTimes = (events: TimelineEvent[], window: VideoWindow): TimelineEvent[] => {
+  if (window.start === 0 || events.length === 0) return events;
+  const length = window.end - window.start;
+  const looksRelative = events.every(e => e.seconds < window.start - DUPLICATE_TOLERANCE && e.seconds <= length + DUPLICATE_TOLERANCE);
+  if (!looksRelative) return events;
+
+  return events.map(e => ({
+    ...e,
+    seconds: e.seconds + window.start,
+    timestamp: formatTime(e.seconds + window.start),
+    words: e.words?.map(w => ({ ...w, start: w.start + window.start, end: w.end + window.start }))
+  }));
+};
+
+const eventEnd = (event: TimelineEvent) => event.seconds + (event.duration || 0);
+
+const isSameEvent = (a: TimelineEvent, b: TimelineEvent) =>
+  a.type === b.type && Math.abs(a.seconds - b.seconds) < DUPLICATE_TOLERANCE;
+
+const nextSpeakerLabel = (used: Set<string>) => {
+  let n = 1;
+  while (used.has(`S${n}`)) n++;
+  return `S${n}`;
+};
+
+/**
+ * Windows number their speakers independently, so the same person can be "S1" in one window
+ * and "S2" in the next. Relabels each window to agree with the one before it, pairing labels by
+ * how long both windows heard them talking at the same time in their overlap. Speakers only
+ * heard outside the overlap keep their label unless a matched speaker has taken it.
+ */
+const reconcileWindowSpeakers = (results: WindowResult[]): WindowResult[] => {
+  const reconciled: WindowResult[] = [];
+  for (const result of results) {
+    const previous = reconciled[reconciled.length - 1];
+    if (!previous) {
+      reconciled.push(result);
+      continue;
+    }
+
+    const overlapStart = result.window.start;
+    const overlapEnd = previous.window.end;
+    const speechInOverlap = (events: TimelineEvent[]) =>
+      events.filter(e => e.type === 'audio' && e.speaker && e.duration && e.seconds < overlapEnd && eventEnd(e) > overlapStart);
+    const heardBefore = speechInOverlap(previous.events);
+    const shared = new Map<string, { from: string; to: string; seconds: number }>();
+    for (const event of speechInOverlap(result.events)) {
+      for (const before of heardBefore) {
+        const seconds = Math.min(eventEnd(event), eventEnd(before), overlapEnd) - Math.max(event.seconds, before.seconds, overlapStart);
+        if (seconds <= 0) continue;
+        const key = `${event.speaker}|${before.speaker}`;
+        const pair = shared.get(key) ?? { from: event.speaker!, to: before.speaker!, seconds: 0 };
+        shared.set(key, { ...pair, seconds: pair.seconds + seconds });
+      }
+    }
+
+    // Strongest pairings first, so each label is matched once
+    const mapping = new Map<string, string>();
+    const claimed = new Set<string>();
+    for (const { from, to } of [...shared.values()].sort((a, b) => b.seconds - a.seconds)) {
+      if (mapping.has(from) || claimed.has(to)) continue;
+      mapping.set(from, to);
+      claimed.add(to);
+    }
+
+    const unmatched = [...new Set(result.events.map(e => e.speaker))].filter((l): l is string => !!l && !mapping.has(l));
+    const used = new Set([...reconciled.flatMap(r => r.events.map(e => e.speaker)), ...claimed, ...unmatched].filter((l): l is string => !!l));
+    for (const label of unmatched) {
+      const relabel = claimed.has(label) ? nextSpeakerLabel(used) : label;
+      mapping.set(label, relabel);
+      used.add(relabel);
+    }
+
+    reconciled.push({
+      window: result.window,
+      events: result.events.map(e => (e.speaker && mapping.get(e.speaker) !== e.speaker ? { ...e, speaker: mapping.get(e.speaker) } : e))
+    });
+  }
+  return reconciled;
+};
+
+/**
+ * Merges per-window results into one timeline:
+ * - speaker labels are made to agree from window to window,
+ * - each window keeps the events starting in the part it owns,
+ * - an event cut off by its window's end is replaced by the next window's complete copy,
+ * - near-identical events from both sides of a boundary collapse into the longer one,
+ * - overlapping speech segments are trimmed so clips never double up.
+ */
+export const stitchWindowEvents = (results: WindowResult[]): TimelineEvent[] => {
+  const windows = reconcileWindowSpeakers(results);
+  const owned = windows.flatMap(({ window, events }, i) => {
+    const next = windows[i + 1];
+    return events
+      .filter(e => e.seconds >= window.ownStart && e.seconds < window.ownEnd)
+      .map(e => {
+        const truncated = next && e.duration && eventEnd(e) >= window.end - DUPLICATE_TOLERANCE;
+        const complete = truncated ? next.events.find(n => isSameEvent(n, e) && eventEnd(n) > eventEnd(e)) : undefined;
+        return complete ?? e;
+      });
+  });
+
+  const sorted = [...owned].sort((a, b) => a.seconds - b.seconds);
+  const stitched: TimelineEvent[] = [];
+  for (const event of sorted) {
+    const duplicateIndex = stitched.findIndex(s => isSameEvent(s, event));
+    if (duplicateIndex === -1) {
+      stitched.push(event);
+    } else if ((event.duration || 0) > (stitched[duplicateIndex].duration || 0)) {
+      stitched[duplicateIndex] = event;
+    }
+  }
+
+  // Speech segments from neighbouring windows can overlap slightly; cut the earlier one short
+  const audio = stitched.filter(e => e.type === 'audio');
+  return stitched.map(event => {
+    if (event.type !== 'audio' || !event.duration) return event;
+    const following = audio.find(a => a.seconds > event.seconds);
+    if (!following || eventEnd(event) <= following.seconds) return event;
+    const end = following.seconds;
+    return {
+      ...event,
+      duration: Math.round((end - event.seconds) * 100) / 100,
+      words: event.words?.filter(w => w.start < end)
+    };
+  });
+};
+
+const isSameWindow = (a: VideoWindow, b: VideoWindow) => a.start === b.start && a.end === b.end;
+
+/**
+ * Runs a step per window, skipping windows already completed by an interrupted run,
+ * and reports the accumulated results after each one so they can be checkpointed.
+ */
+const runWindows = async (
+  windows: AnalysisWindow[],
+  options: WindowedRunOptions,
+  step: (window: AnalysisWindow) => Promise<TimelineEvent[] | null>
+): Promise<WindowResult[]> => {
+  const results: WindowResult[] = [];
+  for (const window of windows) {
+    options.signal?.throwIfAborted();
+    const done = options.completed?.find(r => isSameWindow(r.window, window));
+    if (done) {
+      results.push({ window, events: done.events });
+      continue;
+    }
+    const events = await step(window);
+    if (!events) continue;
+    results.push({ window, events: toAbsoluteTimes(events, window) });
+    options.onWindowComplete?.([...results]);
+  }
+  return results;
+};
+
+const windowLabel = (verb: string, window: AnalysisWindow, total: number) =>
+  `${verb} window ${window.index + 1}/${total} (${formatTime(window.start)}–${formatTime(window.end)})`;
+
+/**
+ * Deep analysis for long videos: runs the transcription-first analysis window by window
+ * and stitches the results. Videos shorter than CHUNKED_ANALYSIS_MIN_DURATION (or of unknown
+ * length) use a single prompt as before.
+ */
+export const analyzeVideoInWindows = async (
+  fileUri: string,
+  mimeType: string,
+  duration: number,
+  onProgress?: (progress: string, fraction?: number) => void,
+  options: WindowedRunOptions = {}
+): Promise<TimelineEvent[]> => {
+  if (!(duration > CHUNKED_ANALYSIS_MIN_DURATION)) {
+    onProgress?.('Analyzing video');
+    return generateVideoTimeline(fileUri, mimeType, undefined, options.signal);
+  }
+
+  const windows = planAnalysisWindows(duration);
+  const results = await runWindows(windows, options, window => {
+    onProgress?.(windowLabel('Analyzing', window, windows.length), window.index / windows.length);
+    return generateVideoTimeline(fileUri, mimeType, window, options.signal);
+  });
+
+  onProgress?.('Stitching windows');
+  return stitchWindowEvents(results);
+};
+
+/**
+ * Context validation for long videos. Each window is sent only the events it owns (the first and last
+ * also take any outside the video's length), so every event is validated exactly once; the results are
+ * concatenated in time order rather than stitched, since no two windows share an event.
+ */
+export const validateTimelineInWindows = async (
+  fileUri: string,
+  mimeType: string,
+  events: TimelineEvent[],
+  duration: number,
+  onProgress?: (progress: string, fraction?: number) => void,
+  options: WindowedRunOptions = {}
+): Promise<TimelineEvent[]> => {
+  if (!(duration > CHUNKED_ANALYSIS_MIN_DURATION)) {
+    onProgress?.('Validating context');
+    return validateAndRepairTimeline(fileUri, mimeType, events, undefined, options.signal);
+  }
+
+  const windows = planAnalysisWindows(duration);
+  const results = await runWindows(windows, options, async window => {
+    const isFirst = window.index === 0;
+    const isLast = window.index === windows.length - 1;
+    const windowEvents = events.filter(e => (isFirst || e.seconds >= window.ownStart) && (isLast || e.seconds < window.ownEnd));
+    if (windowEvents.length === 0) return null;
+    onProgress?.(windowLabel('Validating', window, windows.length), window.index / windows.length);
+    return validateAndRepairTimeline(fileUri, mimeType, windowEvents, window, options.signal);
+  });
+
+  return results.flatMap(r => r.events).sort((a, b) => a.seconds - b.seconds);
+};
@@ -0,0 +1,42 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider, LLMRequest } from './llmService';
+
+const anthropic = new Anthropic({
+  apiKey: process.env.CLAUDE_API_KEY,
+  dangerouslyAllowBrowser: true,
+});
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Claude over the Messages API. Text only: it cannot watch the uploaded video,
+ * and JSON output is requested through the prompt.
+ */
+export const claudeProvider: LLMProvider = {
+  id: 'claude',
+  label: 'Claude',
+  capabilities: { videoInput: false, jsonOutput: true, chat: true },
+  models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+  generate: async (model: string, request: LLMRequest): Promise<string> => {
+    // No native structured output: describe the expected shape in the system prompt
+    const system = [
+      request.systemInstruction,
+      request.schema ? `Respond with JSON only, matching this JSON schema:\n${JSON.stringify(request.schema)}` : ''
+    ].filter(Boolean).join('\n\n');
+    const message = await anthropic.messages.create({
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages: request.messages.map(m => ({
+        role: m.role === 'model' ? 'assistant' as const : 'user' as const,
+        content: m.parts.map(p => ('text' in p ? p.text : '')).join('\n'),
+      })),
+    }, { signal: request.signal });
+
+    return message.content
+      .filter((block) => block.type === 'text')
+      .map((block) => (block as any).text)
+      .join('');
+  }
+};
@@ -1,5 +1,6 @@
 
 import { ElevenLabsVoice, AppSettings } from '../types';
+import { joinSentText, prepareSpeechPieces, restoreAlignment, SpeechPiece } from './speechMarkupService';
 
 const BASE_URL = "https://api.elevenlabs.io/v1";
 
@@ -12,8 +13,24 @@ export interface AlignmentData {
 export interface GeneratedAudioWithTimestamps {
     audioBase64: string;
     alignment: AlignmentData;
+    requestId: string | null; // Lets the next segment continue this one's prosody
 }
 
+// Request stitching: the neighbouring text (and earlier request IDs) keep separately
+// generated segments sounding like one continuous read
+export interface SpeechContext {
+    previousText?: string;
+    nextText?: string;
+    previousRequestIds?: string[];
+    signal?: AbortSignal;
+}
+
+const DEFAULT_MODEL_ID = "eleven_multilingual_v2";
+
+// Script markup and the project's pronunciation lexicon, resolved for the selected model
+export const prepareSpeechText = (text: string, settings: AppSettings): SpeechPiece[] =>
+  prepareSpeechPieces(text, settings.pronunciationLexicon || [], settings.elevenLabsModelId || DEFAULT_MODEL_ID);
+
 export const fetchVoices = async (apiKey: string): Promise<ElevenLabsVoice[]> => {
   if (!apiKey) return [];
   
@@ -55,8 +72,8 @@ export const generateSpeech = async (
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        text: text,
-        model_id: settings.elevenLabsModelId || "eleven_multilingual_v2",
+        text: joinSentText(prepareSpeechText(text, settings)),
+        model_id: settings.elevenLabsModelId || DEFAULT_MODEL_ID,
         voice_settings: {
           stability: settings.elevenLabsStability,
           similarity_boost: settings.elevenLabsSimilarity,
@@ -82,9 +99,11 @@ export const generateSpeech = async (
 export const generateSpeechWithTimestamps = async (
     apiKey: string,
     text: string,
-    settings: AppSettings
+    settings: AppSettings,
+    context: SpeechContext = {}
 ): Promise<GeneratedAudioWithTimestamps> => {
     try {
+        const pieces = prepareSpeechText(text, settings);
         // Use 'with-timestamps' endpoint to get alignment info
         const response = await fetch(`${BASE_URL}/text-to-speech/${settings.elevenLabsVoiceId}/with-timestamps`, {
             method: 'POST',
@@ -93,15 +112,19 @@ export const generateSpeechWithTimestamps = async (
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify({
-                text: text,
-                model_id: settings.elevenLabsModelId || "eleven_multilingual_v2",
+                text: joinSentText(pieces),
+                model_id: settings.elevenLabsModelId || DEFAULT_MODEL_ID,
                 voice_settings: {
                     stability: settings.elevenLabsStability,
                     similarity_boost: settings.elevenLabsSimilarity,
                     style: settings.elevenLabsStyle,
                     use_speaker_boost: settings.elevenLabsSpeakerBoost
-                }
-            })
+                },
+                ...(context.previousText ? { previous_text: context.previousText } : {}),
+                ...(context.nextText ? { next_text: context.nextText } : {}),
+                ...(context.previousRequestIds?.length ? { previous_request_ids: context.previousRequestIds.slice(-3) } : {})
+            }),
+            signal: context.signal
         });
 
         if (!response.ok) {
@@ -112,7 +135,8 @@ export const generateSpeechWithTimestamps = async (
         const data = await response.json();
         return {
             audioBase64: data.audio_base64,
-            alignment: data.alignment
+            alignment: restoreAlignment(data.alignment, pieces), // In script characters, not the sent markup
+            requestId: response.headers.get('request-id')
         };
 
     } catch (error) {
@@ -120,3 +144,40 @@ export const generateSpeechWithTimestamps = async (
         throw error;
     }
 };
+
+/**
+ * Instant voice cloning: creates a voice in the user's ElevenLabs library from speech samples
+ * and returns its voice ID.
+ */
+export const cloneVoice = async (
+  apiKey: string,
+  name: string,
+  samples: Blob[],
+  options: { description?: string; signal?: AbortSignal } = {}
+): Promise<string> => {
+  const form = new FormData();
+  form.append('name', name);
+  if (options.description) form.append('description', options.description);
+  form.append('remove_background_noise', 'true');
+  samples.forEach((sample, i) => form.append('files', sample, `sample_${i + 1}.wav`));
+
+  try {
+    const response = await fetch(`${BASE_URL}/voices/add`, {
+      method: 'POST',
+      headers: { 'xi-api-key': apiKey },
+      body: form,
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.detail?.message || "Voice cloning failed");
+    }
+
+    const data = await response.json();
+    return data.voice_id;
+  } catch (error) {
+    console.error("ElevenLabs Voice Clone Error:", error);
+    throw error;
+  }
+};
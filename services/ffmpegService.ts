@@ -1,299 +1,700 @@
 
-import { Clip } from '../types';
+import {
+    ALL_FORMATS,
+    AudioBufferSink,
+    AudioBufferSource,
+    AudioCodec,
+    BlobSource,
+    BufferTarget,
+    CanvasSink,
+    CanvasSource,
+    Input,
+    Mp4OutputFormat,
+    Output,
+    UrlSource,
+    WebMOutputFormat,
+    getFirstEncodableAudioCodec,
+    getFirstEncodableVideoCodec,
+} from 'mediabunny';
+import type { WrappedCanvas } from 'mediabunny';
+import { AudioProcessingSettings, CaptionStyle, Clip, ExportAspectRatio, ExportPreset, LoudnessReport, PublishingMetadata, TimelineTrack, TrackItem } from '../types';
+import { DEFAULT_EXPORT_PRESET_ID, EXPORT_PRESETS } from '../constants';
+import { getCropRect } from './reframeService';
+import { getClipFragments, getClipVisualDuration, getSourceTimeAtClipTime, layoutSequence } from './sequenceService';
+import { buildCaptionCues, drawCaption } from './captionService';
+import { drawTextItem, fitIntoRect, getAudibleTracks, getItemRect, getVisibleTracks, toPixelRect } from './trackService';
+import { getClipAudioMix, getDuckGain, getMusicGain, getSequenceSpeechRanges, getSpeechRanges } from './audioMixService';
+import { processExportAudio } from './audioProcessingService';
+
+export interface RenderOptions {
+    preset?: ExportPreset; // Defaults to DEFAULT_EXPORT_PRESET_ID
+    aspectRatio?: ExportAspectRatio; // Reframe target; defaults to the source aspect
+    burnInCaptions?: CaptionStyle; // When set, captions are drawn into the frames
+    tracks?: TimelineTrack[]; // Overlay tracks (B-roll, logos, lower-thirds, music, sounds) mixed over the clips
+    audioProcessing?: AudioProcessingSettings; // Cleanup and loudness normalisation, when enabled
+    onLoudnessReport?: (report: LoudnessReport) => void; // Called once the processed mix is measured
+    chapters?: { title: string; start: number }[]; // Sequence seconds; embedded in MP4 exports
+    metadata?: PublishingMetadata; // Title and description tags
+    signal?: AbortSignal; // Aborting rejects the render with an AbortError
+}
+
+// A contiguous run of output audio copied from one place in an audio source
+interface AudioPiece {
+    sequenceStart: number;
+    duration: number;
+    audioStart: number | null; // null = silence
+    source: 'primary' | 'original'; // Master voiceover (or the only soundtrack), or the source video's audio under it
+    volume: number;
+    duck?: { ranges: { start: number; end: number }[]; gain: number }; // Ranges in sequence time
+}
+
+// A clip resolved into absolute positions on the output, source video and audio source
+interface RenderSegment {
+    clip: Clip;
+    sequenceStart: number;
+    duration: number;
+    audioPieces: AudioPiece[];
+}
+
+// A visual overlay item with its decoded media, drawn on frames [firstFrame, endFrame)
+interface OverlayLayer {
+    item: TrackItem;
+    firstFrame: number;
+    endFrame: number;
+    image?: ImageBitmap;
+    videoFrames?: AsyncGenerator<WrappedCanvas | null, void, unknown>;
+}
+
+// An audio overlay item decoded at the output chunk sample rate
+interface OverlaySound {
+    item: TrackItem;
+    buffer: AudioBuffer;
+}
+
+const AUDIO_CHUNK_SECONDS = 5;
+const MUSIC_GAIN_BLOCK = 256; // Samples sharing one music gain value; fades and ducking move far slower
+const OUTPUT_AUDIO_SAMPLE_RATE = 48000;
+const LOSSY_AUDIO_CODECS: AudioCodec[] = ['aac', 'opus', 'vorbis'];
+
+const MAX_CHAPTER_TITLE_BYTES = 255;
 
 /**
- * Renders the final video using a High-Res Canvas Recorder.
- * This method works by:
- * 1. Creating an offscreen canvas matching the SOURCE video dimensions (e.g. 4K).
- * 2. Creating a hidden video element and audio element.
- * 3. Playing the sequence programmatically in real-time.
- * 4. Capturing the stream into a MediaRecorder.
+ * Payload of a Nero 'chpl' chapter box (the MP4 chapter list ffmpeg, VLC and YouTube read):
+ * version/flags, a reserved word, the count, then per chapter a start time in 100ns units
+ * and a length-prefixed UTF-8 title.
  */
-export const renderVideo = async (
-    videoFile: File,
-    masterAudioBlobUrl: string | null,
-    clips: Clip[],
-    onProgress: (progress: number, message: string) => void
-): Promise<Blob> => {
-    
-    return new Promise(async (resolve, reject) => {
-        let animationFrameId: number;
-        let isFinished = false;
-
-        // Create references to elements we need to clean up
-        let video: HTMLVideoElement | null = null;
-        let canvas: HTMLCanvasElement | null = null;
-        let audioElement: HTMLAudioElement | null = null;
-        let audioCtx: AudioContext | null = null;
-
-        const cleanup = () => {
-            if (animationFrameId) cancelAnimationFrame(animationFrameId);
-            if (video) {
-                video.pause();
-                video.src = "";
-                video.load();
-                video.remove(); // Remove from DOM
-            }
-            if (audioElement) {
-                audioElement.pause();
-                audioElement.src = "";
-                audioElement.load();
-                audioElement.remove();
-            }
-            if (canvas) canvas.remove();
-            if (audioCtx && audioCtx.state !== 'closed') audioCtx.close();
-        };
+const buildChapterBox = (chapters: { title: string; start: number }[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const entries = chapters.slice(0, 255).map(c => {
+        let title = encoder.encode(c.title);
+        if (title.length > MAX_CHAPTER_TITLE_BYTES) title = title.slice(0, MAX_CHAPTER_TITLE_BYTES);
+        return { start: BigInt(Math.round(c.start * 1e7)), title };
+    });
+    const bytes = new Uint8Array(9 + entries.reduce((acc, e) => acc + 9 + e.title.length, 0));
+    const view = new DataView(bytes.buffer);
+    view.setUint8(0, 1); // Version 1, flags 0
+    bytes[8] = entries.length;
+    let offset = 9;
+    for (const { start, title } of entries) {
+        view.setBigUint64(offset, start);
+        bytes[offset + 8] = title.length;
+        bytes.set(title, offset + 9);
+        offset += 9 + title.length;
+    }
+    return bytes;
+};
 
-        try {
-            // 1. Setup Resources
-            const videoUrl = URL.createObjectURL(videoFile);
-            
-            // DOM ATTACHMENT FIX:
-            // Browsers stop decoding frames for offscreen videos after ~60 seconds to save power.
-            // We must append the video to the body to force the browser to keep it "active".
-            video = document.createElement('video');
-            video.src = videoUrl;
-            video.muted = true; // We handle audio separately via Web Audio API
-            video.playsInline = true;
-            video.crossOrigin = "anonymous";
-            
-            // Make it technically "visible" but hidden from user view
-            video.style.position = 'fixed';
-            video.style.top = '0';
-            video.style.left = '0';
-            video.style.width = '1px';
-            video.style.height = '1px';
-            video.style.opacity = '0.001';
-            video.style.pointerEvents = 'none';
-            video.style.zIndex = '-9999';
-            document.body.appendChild(video);
-            
-            // Preload video
-            await video.play().then(() => video.pause()); 
-
-            // Wait for metadata to get true resolution
-            if (video.videoWidth === 0) {
-                await new Promise(r => video!.onloadedmetadata = r);
-            }
-            
-            const width = video.videoWidth;
-            const height = video.videoHeight;
-            
-            // Calculate precise duration
-            const totalDuration = clips.reduce((acc, c) => {
-                if(c.audioStartTime !== undefined && c.audioEndTime !== undefined) {
-                    return acc + (c.audioEndTime - c.audioStartTime);
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new DOMException('Export cancelled', 'AbortError');
+    }
+};
+
+/**
+ * Looks up a built-in preset by id, falling back to the default preset.
+ */
+export const getExportPreset = (presetId: string | null | undefined): ExportPreset => {
+    return EXPORT_PRESETS.find(p => p.id === presetId)
+        ?? EXPORT_PRESETS.find(p => p.id === DEFAULT_EXPORT_PRESET_ID)!;
+};
+
+/**
+ * File extension (with dot) for files produced with the given preset.
+ */
+export const getExportFileExtension = (preset: ExportPreset): string => {
+    if (preset.container === 'webm') return '.webm';
+    return preset.videoCodec ? '.mp4' : '.m4a';
+};
+
+const AUDIO_FILE_BITRATE = 128000;
+
+/**
+ * Compresses a rendered AudioBuffer into an M4A file (AAC, or Opus where AAC encoding is unavailable),
+ * small enough to upload where a WAV of the same audio would not be.
+ */
+export const encodeAudioFile = async (buffer: AudioBuffer): Promise<Blob> => {
+    const format = new Mp4OutputFormat({ fastStart: 'in-memory' });
+    const supported = format.getSupportedAudioCodecs();
+    const codec = await getFirstEncodableAudioCodec(LOSSY_AUDIO_CODECS.filter(c => supported.includes(c)), {
+        numberOfChannels: buffer.numberOfChannels,
+        sampleRate: buffer.sampleRate,
+        bitrate: AUDIO_FILE_BITRATE,
+    });
+    if (!codec) throw new Error('This browser cannot encode AAC audio');
+
+    const output = new Output({ format, target: new BufferTarget() });
+    const source = new AudioBufferSource({ codec, bitrate: AUDIO_FILE_BITRATE });
+    output.addAudioTrack(source);
+    await output.start();
+    await source.add(buffer);
+    source.close();
+    await output.finalize();
+
+    const data = (output.target as BufferTarget).buffer;
+    if (!data) throw new Error('Audio encoding produced no data');
+    return new Blob([data], { type: 'audio/mp4' });
+};
+
+const MEDIA_URL_RETRIES = 3;
+
+/**
+ * Opens a local file, or a remote one through range requests so only the parts read are downloaded.
+ * The caller disposes the input.
+ */
+export const openMediaInput = (media: Blob | string): Input => new Input({
+    formats: ALL_FORMATS,
+    source: typeof media === 'string'
+        ? new UrlSource(media, { getRetryDelay: attempts => (attempts < MEDIA_URL_RETRIES ? attempts : null) })
+        : new BlobSource(media),
+});
+
+const fetchAsset = async (url: string): Promise<Blob> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load overlay media (${response.status})`);
+    return response.blob();
+};
+
+/**
+ * Loads the visible overlay items, bottom track first. Images are decoded once;
+ * B-roll gets a frame iterator that yields exactly one frame per output frame it covers.
+ */
+const loadOverlayLayers = async (tracks: TimelineTrack[], fps: number, totalFrames: number, inputs: Input[]): Promise<OverlayLayer[]> => {
+    const layers: OverlayLayer[] = [];
+    for (const track of getVisibleTracks(tracks)) {
+        for (const item of track.items) {
+            const firstFrame = Math.max(0, Math.ceil(item.start * fps));
+            const endFrame = Math.min(totalFrames, Math.ceil((item.start + item.duration) * fps));
+            if (endFrame <= firstFrame) continue;
+            const layer: OverlayLayer = { item, firstFrame, endFrame };
+
+            if (item.type === 'image' && item.assetUrl) {
+                layer.image = await createImageBitmap(await fetchAsset(item.assetUrl));
+            } else if (item.type === 'video' && item.assetUrl) {
+                const input = new Input({ formats: ALL_FORMATS, source: new BlobSource(await fetchAsset(item.assetUrl)) });
+                inputs.push(input); // Disposed by the caller
+                const track = await input.getPrimaryVideoTrack();
+                if (!track || !(await track.canDecode())) {
+                    console.warn(`Skipping B-roll "${item.label || item.id}": video can't be decoded`);
+                    continue;
                 }
-                return acc + (c.endTime - c.startTime);
-            }, 0);
-
-            console.log(`Render Setup: ${width}x${height}, Duration: ${totalDuration}s`);
-            onProgress(1, `Initializing ${width}x${height} render engine...`);
-
-            // 2. Setup Canvas & Context
-            canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d', { alpha: false });
-            if (!ctx) throw new Error("Could not create canvas context");
-
-            // Fill black initially
-            ctx.fillStyle = "#000000";
-            ctx.fillRect(0, 0, width, height);
-
-            // 3. Setup Audio Context (The Mixer)
-            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            audioCtx = new AudioContextClass();
-            const dest = audioCtx.createMediaStreamDestination();
-            
-            let audioSourceNode: MediaElementAudioSourceNode | null = null;
-            
-            if (masterAudioBlobUrl) {
-                audioElement = new Audio(masterAudioBlobUrl);
-                audioElement.crossOrigin = "anonymous";
-                audioSourceNode = audioCtx.createMediaElementSource(audioElement);
-                audioSourceNode.connect(dest);
-                // audioSourceNode.connect(audioCtx.destination); // Optional: Mute during export to avoid noise
-            } else {
-                // If no master audio, try to capture video audio
-                try {
-                   video.muted = false;
-                   video.volume = 1.0;
-                   const vSource = audioCtx.createMediaElementSource(video);
-                   vSource.connect(dest);
-                } catch(e) {
-                    console.warn("Could not attach video audio source", e);
+                const timestamps: number[] = [];
+                for (let frame = firstFrame; frame < endFrame; frame++) {
+                    timestamps.push((item.mediaStart ?? 0) + frame / fps - item.start);
                 }
+                layer.videoFrames = new CanvasSink(track, { poolSize: 2 }).canvasesAtTimestamps(timestamps);
+            } else if (item.type !== 'text') {
+                continue;
             }
+            layers.push(layer);
+        }
+    }
+    return layers;
+};
 
-            // 4. Setup Recorder
-            // OPTIMIZATION: Use 30 FPS instead of 60 FPS for 4K exports.
-            // 60FPS at 4K can choke the main thread during composition, causing sync drifts.
-            const canvasStream = canvas.captureStream(30); 
-            const combinedTracks = [
-                ...canvasStream.getVideoTracks(),
-                ...dest.stream.getAudioTracks()
-            ];
-            const combinedStream = new MediaStream(combinedTracks);
-
-            // Try to use high-quality codecs
-            let mimeType = 'video/webm;codecs=vp9';
-            if (!MediaRecorder.isTypeSupported(mimeType)) {
-                mimeType = 'video/webm;codecs=vp8'; // Fallback
+/**
+ * Decodes the audible overlay items (music, sounds, B-roll sound) at the output chunk format.
+ */
+const loadOverlaySounds = async (tracks: TimelineTrack[], sampleRate: number, numberOfChannels: number): Promise<OverlaySound[]> => {
+    const sounds: OverlaySound[] = [];
+    for (const track of getAudibleTracks(tracks)) {
+        for (const item of track.items) {
+            if (!item.assetUrl || (item.volume ?? 1) <= 0) continue;
+            try {
+                const context = new OfflineAudioContext(numberOfChannels, 1, sampleRate);
+                const buffer = await context.decodeAudioData(await (await fetchAsset(item.assetUrl)).arrayBuffer());
+                sounds.push({ item, buffer });
+            } catch (e) {
+                console.warn(`Skipping audio of "${item.label || item.id}":`, e);
             }
-            if (!MediaRecorder.isTypeSupported(mimeType)) {
-                mimeType = 'video/webm'; // Generic fallback
+        }
+    }
+    return sounds;
+};
+
+// Adds every overlay sound that overlaps the chunk (which starts at output sample chunkStart).
+// Music loops to fill its item and follows getMusicGain's fades and ducking.
+const mixOverlaySounds = (
+    chunk: AudioBuffer,
+    chunkStart: number,
+    sounds: OverlaySound[],
+    speechRanges: { start: number; end: number }[],
+    sequenceDuration: number
+) => {
+    const sampleRate = chunk.sampleRate;
+    for (const { item, buffer } of sounds) {
+        const itemStart = Math.round(item.start * sampleRate);
+        const mediaStart = Math.min(buffer.length - 1, Math.round((item.mediaStart ?? 0) * sampleRate));
+        const loopLength = buffer.length - mediaStart;
+        const looping = item.type === 'music' && !!item.loop;
+        const itemLength = Math.round(item.duration * sampleRate);
+        const itemEnd = itemStart + (looping ? itemLength : Math.min(itemLength, loopLength));
+        const from = Math.max(chunkStart, itemStart);
+        const to = Math.min(chunkStart + chunk.length, itemEnd);
+        if (to <= from) continue;
+
+        const gains = new Float32Array(to - from).fill(item.volume ?? 1);
+        if (item.type === 'music') {
+            for (let block = 0; block < gains.length; block += MUSIC_GAIN_BLOCK) {
+                const gain = getMusicGain(item, (from + block) / sampleRate, speechRanges, sequenceDuration);
+                gains.fill(gain, block, block + MUSIC_GAIN_BLOCK);
             }
+        }
 
-            const recorder = new MediaRecorder(combinedStream, {
-                mimeType,
-                // OPTIMIZATION: 15 Mbps is sufficient for 4K delivery (YouTube recommends 12-15).
-                // Lowering from 25 Mbps reduces encoder pressure on long files.
-                videoBitsPerSecond: 15000000 
-            });
+        for (let c = 0; c < chunk.numberOfChannels; c++) {
+            const output = chunk.getChannelData(c);
+            const input = buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+            for (let i = from; i < to; i++) {
+                output[i - chunkStart] += input[mediaStart + ((i - itemStart) % loopLength)] * gains[i - from];
+            }
+        }
+    }
+};
 
-            const chunks: BlobPart[] = [];
-            recorder.ondataavailable = (e) => {
-                if (e.data.size > 0) chunks.push(e.data);
-            };
+// Scales the source to fit the preset's bounding box, keeping aspect ratio and even dimensions
+const getOutputSize = (sourceWidth: number, sourceHeight: number, preset: ExportPreset) => {
+    let scale = 1;
+    if (preset.resolution) {
+        // Match the box orientation to the source so portrait footage isn't squeezed into a landscape box
+        const portrait = sourceHeight > sourceWidth;
+        const boxWidth = portrait ? Math.min(preset.resolution.width, preset.resolution.height) : Math.max(preset.resolution.width, preset.resolution.height);
+        const boxHeight = portrait ? Math.max(preset.resolution.width, preset.resolution.height) : Math.min(preset.resolution.width, preset.resolution.height);
+        scale = Math.min(boxWidth / sourceWidth, boxHeight / sourceHeight);
+    }
+    return {
+        width: Math.max(2, Math.round((sourceWidth * scale) / 2) * 2),
+        height: Math.max(2, Math.round((sourceHeight * scale) / 2) * 2),
+    };
+};
 
-            recorder.onstop = () => {
-                console.log("Recorder Stopped. Finalizing Blob...");
-                const blob = new Blob(chunks, { type: 'video/webm' });
-                cleanup();
-                resolve(blob);
-            };
+/**
+ * Resolves the sequence layout into render segments.
+ * With master audio the clip's fragments are stretched across its voiceover span
+ * (the same mapping `videoRate` describes); otherwise they play at 1x with their own audio.
+ */
+const buildRenderPlan = (clips: Clip[], useMasterAudio: boolean): RenderSegment[] => {
+    // Original soundtrack: follow the fragments so cut words are cut from the audio too.
+    // It always plays at 1x; under a stretched clip it ends early rather than changing pitch.
+    const originalPieces = (clip: Clip, sequenceStart: number, duration: number, source: AudioPiece['source'], volume: number, duck?: AudioPiece['duck']) => {
+        const pieces: AudioPiece[] = [];
+        let cursor = sequenceStart;
+        for (const fragment of getClipFragments(clip)) {
+            const pieceDuration = Math.min(fragment.end - fragment.start, sequenceStart + duration - cursor);
+            if (pieceDuration <= 0) break;
+            pieces.push({ sequenceStart: cursor, duration: pieceDuration, audioStart: fragment.start, source, volume, duck });
+            cursor += pieceDuration;
+        }
+        return pieces;
+    };
+
+    return layoutSequence(clips, useMasterAudio).map(({ clip, sequenceStart, duration, audioDriven }) => {
+        if (!useMasterAudio) {
+            return { clip, sequenceStart, duration, audioPieces: originalPieces(clip, sequenceStart, duration, 'primary', 1) };
+        }
 
-            // 5. Shared Finish Logic
-            const finishRender = () => {
-                if (isFinished) return;
-                isFinished = true;
-                
-                console.log("Finishing Render...");
-                if (animationFrameId) cancelAnimationFrame(animationFrameId);
+        // Clips without a voiceover span stay silent when the master track drives the edit
+        if (!audioDriven) {
+            return { clip, sequenceStart, duration, audioPieces: [{ sequenceStart, duration, audioStart: null, source: 'primary', volume: 1 }] };
+        }
 
-                if (audioElement) audioElement.pause();
-                video!.pause();
+        const mix = getClipAudioMix(clip);
+        const audioPieces: AudioPiece[] = [];
+        if (mix.source !== 'original') {
+            audioPieces.push({ sequenceStart, duration, audioStart: clip.audioStartTime!, source: 'primary', volume: mix.voiceoverVolume });
+        }
+        if (mix.source !== 'voiceover') {
+            const toSequence = sequenceStart - clip.audioStartTime!;
+            const duck = mix.source === 'both'
+                ? { ranges: getSpeechRanges(clip).map(r => ({ start: r.start + toSequence, end: r.end + toSequence })), gain: mix.duckOriginal }
+                : undefined;
+            audioPieces.push(...originalPieces(clip, sequenceStart, duration, 'original', mix.originalVolume, duck));
+        }
+        return { clip, sequenceStart, duration, audioPieces };
+    });
+};
 
-                if (recorder.state === 'recording') {
-                    recorder.stop();
-                }
-            };
+/**
+ * Reads [from, from + duration) of an audio track into one contiguous buffer per channel.
+ */
+export const readTrackRange = async (sink: AudioBufferSink, sourceRate: number, numberOfChannels: number, from: number, duration: number): Promise<Float32Array[]> => {
+    const length = Math.ceil(duration * sourceRate) + 1;
+    const data = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    for await (const { buffer, timestamp } of sink.buffers(from, from + duration)) {
+        const offset = Math.round((timestamp - from) * sourceRate);
+        const readStart = Math.max(0, -offset);
+        const writeStart = Math.max(0, offset);
+        const count = Math.min(buffer.length - readStart, length - writeStart);
+        if (count <= 0) continue;
+        for (let c = 0; c < numberOfChannels; c++) {
+            const input = buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+            data[c].set(input.subarray(readStart, readStart + count), writeStart);
+        }
+    }
+    return data;
+};
+
+// Adds a piece's source audio into chunk samples [writeStart, writeStart + count), resampling
+// linearly when the source rate differs and applying the piece's volume and ducking
+const mixPieceInto = async (chunk: AudioBuffer, chunkStart: number, writeStart: number, count: number, piece: AudioPiece, sink: AudioBufferSink, sourceRate: number) => {
+    const sampleRate = chunk.sampleRate;
+    const pieceStartSample = Math.round(piece.sequenceStart * sampleRate);
+    const from = piece.audioStart! + (chunkStart + writeStart - pieceStartSample) / sampleRate;
+    const source = await readTrackRange(sink, sourceRate, chunk.numberOfChannels, from, count / sampleRate);
+    const step = sourceRate / sampleRate;
+
+    for (let c = 0; c < chunk.numberOfChannels; c++) {
+        const output = chunk.getChannelData(c);
+        const input = source[c];
+        for (let i = 0; i < count; i++) {
+            const position = i * step;
+            const index = Math.floor(position);
+            const next = Math.min(index + 1, input.length - 1);
+            const sample = input[index] + (input[next] - input[index]) * (position - index);
+            const gain = piece.duck
+                ? piece.volume * getDuckGain((chunkStart + writeStart + i) / sampleRate, piece.duck.ranges, piece.duck.gain)
+                : piece.volume;
+            output[writeStart + i] += sample * gain;
+        }
+    }
+};
 
-            // Hook up Audio End Event (Critical for preventing "Stuck at 99%")
-            if (audioElement) {
-                audioElement.onended = () => {
-                    console.log("Audio ended event received.");
-                    finishRender();
-                };
+/**
+ * Renders the final video offline, frame by frame.
+ * This method works by:
+ * 1. Demuxing the source file and decoding the exact frame for every output timestamp.
+ * 2. Compositing each frame onto a canvas at the preset's resolution, optionally
+ *    reframed to another aspect ratio by following each clip's crop keyframes,
+ *    with overlay tracks (B-roll, logos, lower-thirds) and captions drawn on top.
+ * 3. Cutting the audio (master voiceover, or the original track) sample-accurately per
+ *    clip, following each clip's visualFragments, mixing in the original audio of clips
+ *    that keep it (see audioMixService) and the overlay tracks, then optionally cleaning up
+ *    and normalising the whole mix (see audioProcessingService).
+ * 4. Encoding both with WebCodecs into the preset's container (MP4 or WebM),
+ *    as fast as the decoder/encoder allow. Audio-only presets skip steps 1-2.
+ */
+export const renderVideo = async (
+    videoFile: File,
+    masterAudioBlobUrl: string | null,
+    clips: Clip[],
+    onProgress: (progress: number, message: string) => void,
+    options: RenderOptions = {}
+): Promise<Blob> => {
+    const { signal } = options;
+    const preset = options.preset ?? getExportPreset(DEFAULT_EXPORT_PRESET_ID);
+    const fps = preset.fps;
+    const includeVideo = preset.videoCodec !== null;
+
+    const videoInput = new Input({ formats: ALL_FORMATS, source: new BlobSource(videoFile) });
+    let audioInput: Input | null = null;
+    const overlayInputs: Input[] = [];
+    let output: Output | null = null;
+
+    try {
+        onProgress(0, 'Reading source media...');
+        const videoTrack = await videoInput.getPrimaryVideoTrack();
+        if (!videoTrack) throw new Error('The source file has no video track');
+        if (!(await videoTrack.canDecode())) throw new Error('This browser cannot decode the source video codec');
+
+        // Reframing crops a window of the target aspect out of the source, then scales that
+        const aspectRatio = options.aspectRatio ?? 'source';
+        const sourceWidth = await videoTrack.getDisplayWidth();
+        const sourceHeight = await videoTrack.getDisplayHeight();
+        const cropWindow = getCropRect(sourceWidth, sourceHeight, aspectRatio, undefined, 0);
+        const { width, height } = getOutputSize(cropWindow.width, cropWindow.height, preset);
+
+        // Audio source: the master voiceover if we have one, else the original soundtrack
+        if (masterAudioBlobUrl) {
+            const response = await fetch(masterAudioBlobUrl);
+            if (!response.ok) throw new Error(`Could not load master audio (${response.status})`);
+            audioInput = new Input({ formats: ALL_FORMATS, source: new BlobSource(await response.blob()) });
+        }
+        const audioTrack = await (audioInput ?? videoInput).getPrimaryAudioTrack();
+        const canUseAudio = !!audioTrack && await audioTrack.canDecode();
+        const tracks = options.tracks ?? [];
+        const hasOverlaySound = getAudibleTracks(tracks).some(t => t.items.some(i => i.assetUrl));
+        if (!includeVideo && !canUseAudio && !hasOverlaySound) throw new Error('There is no decodable audio to export');
+
+        const segments = buildRenderPlan(clips, !!masterAudioBlobUrl);
+        // Clips that keep their original audio mix the source video's track under the voiceover
+        const originalTrack = audioInput && segments.some(s => s.audioPieces.some(p => p.source === 'original'))
+            ? await videoInput.getPrimaryAudioTrack()
+            : null;
+        const canUseOriginal = !!originalTrack && await originalTrack.canDecode();
+        const totalDuration = segments.reduce((acc, s) => acc + s.duration, 0);
+        const totalFrames = Math.round(totalDuration * fps);
+        if (totalFrames === 0) throw new Error('Nothing to render: the sequence is empty');
+        throwIfAborted(signal);
+
+        onProgress(1, includeVideo ? `Initializing ${width}x${height} render engine...` : 'Initializing audio render...');
+
+        // 1. Output container & encoders
+        // Chapters are written as a raw udta box, so MP4 tags go into udta too
+        const chapters = options.chapters?.filter(c => c.start < totalDuration) ?? [];
+        const format = preset.container === 'webm'
+            ? new WebMOutputFormat()
+            : new Mp4OutputFormat({ fastStart: 'in-memory', ...(chapters.length > 0 ? { metadataFormat: 'udta' as const } : {}) });
+        output = new Output({ format, target: new BufferTarget() });
+        if (options.metadata || (chapters.length > 0 && preset.container === 'mp4')) {
+            output.setMetadataTags({
+                ...(options.metadata ? { title: options.metadata.title, description: options.metadata.description } : {}),
+                ...(chapters.length > 0 && preset.container === 'mp4' ? { raw: { chpl: buildChapterBox(chapters) } } : {})
+            });
+        }
+
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d', { alpha: false });
+        if (!ctx) throw new Error('Could not create canvas context');
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
+
+        let videoSource: CanvasSource | null = null;
+        if (preset.videoCodec) {
+            const videoCodec = await getFirstEncodableVideoCodec([preset.videoCodec], {
+                width,
+                height,
+                bitrate: preset.videoBitrate,
+            });
+            if (!videoCodec) {
+                throw new Error(`This browser cannot encode ${preset.videoCodec.toUpperCase()} video at ${width}x${height}`);
             }
+            videoSource = new CanvasSource(canvas, {
+                codec: videoCodec,
+                bitrate: preset.videoBitrate,
+                keyFrameInterval: 2,
+            });
+            output.addVideoTrack(videoSource, { frameRate: fps });
+        }
+
+        let audioSource: AudioBufferSource | null = null;
+        if (canUseAudio || canUseOriginal || hasOverlaySound) {
+            // Fall back to another codec the container accepts (e.g. Opus in MP4 where AAC encoding is unavailable)
+            const supported = format.getSupportedAudioCodecs();
+            const fallbackCodecs = LOSSY_AUDIO_CODECS.filter(c => c !== preset.audioCodec && supported.includes(c));
+            const audioCodec = await getFirstEncodableAudioCodec([preset.audioCodec, ...fallbackCodecs], {
+                bitrate: preset.audioBitrate,
+                sampleRate: OUTPUT_AUDIO_SAMPLE_RATE,
+            });
+            if (audioCodec) {
+                if (audioCodec !== preset.audioCodec) console.warn(`${preset.audioCodec} encoding unavailable, using ${audioCodec}`);
+                audioSource = new AudioBufferSource({
+                    codec: audioCodec,
+                    bitrate: preset.audioBitrate,
+                    transform: { sampleRate: OUTPUT_AUDIO_SAMPLE_RATE },
+                });
+                output.addAudioTrack(audioSource);
+            }
+        }
+        if (!audioSource) {
+            if (!includeVideo) throw new Error(`This browser cannot encode ${preset.audioCodec.toUpperCase()} audio`);
+            if (audioTrack) console.warn('Audio track could not be decoded/encoded, exporting without audio');
+        }
+
+        await output.start();
 
-            recorder.start();
+        // Progress follows the video frames, or the audio samples for audio-only exports
+        let lastReportedPct = -1;
+        const reportProgress = (done: number, total: number, message: string) => {
+            const pct = Math.min(99, 1 + Math.floor((done / total) * 98));
+            if (pct === lastReportedPct) return;
+            lastReportedPct = pct;
+            onProgress(pct, message);
+        };
 
-            // 6. The Render Loop
-            let startTime = Date.now();
-            
-            if (audioElement) {
-                await audioElement.play();
-            } else {
-                video.play(); 
+        // 2. Video: decode the exact source frame for every output frame
+        const captionCues = options.burnInCaptions ? buildCaptionCues(clips, !!masterAudioBlobUrl) : [];
+        let cueIndex = 0;
+        let framesDone = 0;
+        const overlayLayers = videoSource ? await loadOverlayLayers(tracks, fps, totalFrames, overlayInputs) : [];
+
+        // Draws the overlay items active on a frame; each B-roll iterator advances once per covered frame
+        const drawOverlays = async (frame: number) => {
+            for (const layer of overlayLayers) {
+                if (frame < layer.firstFrame || frame >= layer.endFrame) continue;
+                const box = toPixelRect(getItemRect(layer.item), width, height);
+                ctx.save();
+                ctx.globalAlpha = layer.item.opacity ?? 1;
+                if (layer.image) {
+                    const fit = fitIntoRect(layer.image.width, layer.image.height, box, 'contain');
+                    ctx.drawImage(layer.image, fit.x, fit.y, fit.width, fit.height);
+                } else if (layer.videoFrames) {
+                    const next = await layer.videoFrames.next();
+                    if (!next.done && next.value) {
+                        const source = next.value.canvas;
+                        const fit = fitIntoRect(source.width, source.height, box, 'cover');
+                        ctx.beginPath();
+                        ctx.rect(box.x, box.y, box.width, box.height);
+                        ctx.clip();
+                        ctx.drawImage(source, fit.x, fit.y, fit.width, fit.height);
+                    }
+                } else if (layer.item.type === 'text') {
+                    drawTextItem(ctx, layer.item, width, height);
+                }
+                ctx.restore();
             }
+        };
 
-            const renderLoop = async () => {
-                if (isFinished || !video || !canvas || !ctx) return;
+        const renderFrames = async () => {
+            if (!videoSource) return;
+            // Reframed exports need full-resolution source frames to crop from
+            const sink = aspectRatio === 'source'
+                ? new CanvasSink(videoTrack, { width, height, fit: 'contain', poolSize: 2 })
+                : new CanvasSink(videoTrack, { poolSize: 2 });
+
+            for (const segment of segments) {
+                // Frame slots owned by this segment: [firstFrame, endFrame)
+                const firstFrame = Math.round(segment.sequenceStart * fps);
+                const endFrame = Math.min(totalFrames, Math.round((segment.sequenceStart + segment.duration) * fps));
+                if (endFrame <= firstFrame) continue;
+
+                const visualDuration = getClipVisualDuration(segment.clip);
+                const timestamps: number[] = [];
+                for (let frame = firstFrame; frame < endFrame; frame++) {
+                    const progress = Math.max(0, (frame / fps - segment.sequenceStart) / segment.duration);
+                    timestamps.push(getSourceTimeAtClipTime(segment.clip, progress * visualDuration));
+                }
 
-                // Determine Current Time in Sequence
-                let currentTime = 0;
-                if (audioElement) {
-                    currentTime = audioElement.currentTime;
-                } else {
-                    currentTime = (Date.now() - startTime) / 1000;
+                let frame = firstFrame;
+                for await (const wrapped of sink.canvasesAtTimestamps(timestamps)) {
+                    throwIfAborted(signal);
+                    // A null frame (before the first decodable frame) keeps the previous image
+                    if (wrapped && aspectRatio === 'source') {
+                        ctx.drawImage(wrapped.canvas, 0, 0, width, height);
+                    } else if (wrapped) {
+                        const crop = getCropRect(sourceWidth, sourceHeight, aspectRatio, segment.clip.cropKeyframes, timestamps[frame - firstFrame]);
+                        ctx.drawImage(wrapped.canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+                    }
+                    await drawOverlays(frame);
+
+                    // Frames arrive in sequence order, so the active cue only moves forward
+                    const sequenceTime = frame / fps;
+                    while (cueIndex < captionCues.length && captionCues[cueIndex].end <= sequenceTime) cueIndex++;
+                    const cue = captionCues[cueIndex];
+                    if (cue && sequenceTime >= cue.start) {
+                        drawCaption(ctx, cue, sequenceTime, width, height, options.burnInCaptions!);
+                    }
+                    await videoSource.add(frame / fps, 1 / fps);
+                    frame++;
+                    framesDone++;
+                    reportProgress(framesDone, totalFrames, `Rendering frame ${framesDone} of ${totalFrames}...`);
                 }
+            }
+            videoSource.close();
+        };
 
-                // Progress Update
-                const pct = Math.min(100, Math.round((currentTime / totalDuration) * 100));
-                onProgress(pct, `Rendering... ${pct}%`);
-
-                // Check End Conditions
-                // 1. Audio Explicitly Done
-                const isAudioFinished = audioElement && audioElement.ended;
-                
-                // 2. Time Threshold (Use a small tolerance of 100ms)
-                const isTimeFinished = currentTime >= (totalDuration - 0.1);
-                
-                if (isAudioFinished || isTimeFinished) {
-                    finishRender();
-                    return;
+        // 3. Audio: mix every piece overlapping each fixed-size output chunk. With processing on,
+        //    the whole mix is rendered first so the chain can measure and normalise it as one.
+        const renderAudio = async () => {
+            if (!audioSource) return;
+            // Without a usable primary track the overlays are mixed into silence at the output format
+            const sinks = {
+                primary: canUseAudio ? new AudioBufferSink(audioTrack!) : null,
+                original: canUseOriginal ? new AudioBufferSink(originalTrack!) : null
+            };
+            const sourceRates = {
+                primary: canUseAudio ? await audioTrack!.getSampleRate() : OUTPUT_AUDIO_SAMPLE_RATE,
+                original: canUseOriginal ? await originalTrack!.getSampleRate() : OUTPUT_AUDIO_SAMPLE_RATE
+            };
+            const sampleRate = canUseAudio ? sourceRates.primary : sourceRates.original;
+            // The mono voiceover shouldn't fold a stereo original down
+            const numberOfChannels = Math.max(
+                canUseAudio ? await audioTrack!.getNumberOfChannels() : 0,
+                canUseOriginal ? await originalTrack!.getNumberOfChannels() : 0
+            ) || 2;
+            const chunkLength = AUDIO_CHUNK_SECONDS * sampleRate;
+            const overlaySounds = await loadOverlaySounds(tracks, sampleRate, numberOfChannels);
+            const speechRanges = getSequenceSpeechRanges(clips, !!masterAudioBlobUrl);
+            const pieces = segments.flatMap(s => s.audioPieces);
+            const totalSamples = Math.round(totalDuration * sampleRate);
+
+            const mixChunk = async (chunkStart: number, length: number): Promise<AudioBuffer> => {
+                const chunk = new AudioBuffer({ length, numberOfChannels, sampleRate });
+                for (const piece of pieces) {
+                    const sink = sinks[piece.source];
+                    if (!sink || piece.audioStart === null || piece.volume <= 0) continue;
+                    const from = Math.max(chunkStart, Math.round(piece.sequenceStart * sampleRate));
+                    const to = Math.min(chunkStart + length, Math.round((piece.sequenceStart + piece.duration) * sampleRate));
+                    if (to <= from) continue;
+                    await mixPieceInto(chunk, chunkStart, from - chunkStart, to - from, piece, sink, sourceRates[piece.source]);
                 }
+                mixOverlaySounds(chunk, chunkStart, overlaySounds, speechRanges, totalDuration);
+                return chunk;
+            };
 
-                // FIND ACTIVE CLIP
-                let foundClip = false;
-                let accumulatedTime = 0;
-
-                for (const clip of clips) {
-                    const clipDur = (clip.audioEndTime !== undefined && clip.audioStartTime !== undefined)
-                        ? (clip.audioEndTime - clip.audioStartTime)
-                        : (clip.endTime - clip.startTime);
-                    
-                    if (currentTime >= accumulatedTime && currentTime < accumulatedTime + clipDur) {
-                        foundClip = true;
-                        
-                        // Calculate Time INSIDE Clip
-                        const timeInClip = currentTime - accumulatedTime;
-                        
-                        // Sync Video
-                        let targetVideoTime = 0;
-                        let requiredRate = 1.0;
-
-                        if (masterAudioBlobUrl && clip.audioStartTime !== undefined) {
-                            // Audio-Driven Sync
-                            const relativeAudioTime = (clip.audioStartTime + timeInClip) - clip.audioStartTime;
-                            const audioTotalDur = clip.audioEndTime! - clip.audioStartTime!;
-                            const videoTotalDur = clip.endTime - clip.startTime;
-                            const progress = relativeAudioTime / audioTotalDur;
-                            
-                            targetVideoTime = clip.startTime + (progress * videoTotalDur);
-                            requiredRate = (videoTotalDur / audioTotalDur) * (audioElement?.playbackRate || 1);
-                        } else {
-                            // Video-Driven Sync
-                            targetVideoTime = clip.startTime + timeInClip;
-                            requiredRate = 1.0;
-                        }
-
-                        // Apply to Video Element
-                        video.playbackRate = Math.max(0.1, Math.min(4.0, requiredRate)); 
-                        
-                        // Drift Correction
-                        // We use a looser threshold (0.2s) during export to prevent constant seeking stutter
-                        const drift = Math.abs(video.currentTime - targetVideoTime);
-                        if (drift > 0.2) { 
-                            video.currentTime = targetVideoTime;
-                        }
-
-                        if (video.paused) await video.play();
-
-                        break;
+            let processed: Float32Array[] | null = null;
+            if (options.audioProcessing?.enabled) {
+                const mix = Array.from({ length: numberOfChannels }, () => new Float32Array(totalSamples));
+                for (let chunkStart = 0; chunkStart < totalSamples; chunkStart += chunkLength) {
+                    throwIfAborted(signal);
+                    const chunk = await mixChunk(chunkStart, Math.min(chunkLength, totalSamples - chunkStart));
+                    mix.forEach((data, c) => data.set(chunk.getChannelData(c), chunkStart));
+                    if (!videoSource) {
+                        const secondsDone = (chunkStart + chunk.length) / sampleRate;
+                        reportProgress(secondsDone, totalDuration, `Mixing audio ${Math.round(secondsDone)}s of ${Math.round(totalDuration)}s...`);
                     }
-                    accumulatedTime += clipDur;
                 }
+                if (!videoSource) onProgress(99, 'Cleaning up and normalising audio...');
+                const result = await processExportAudio(mix, sampleRate, options.audioProcessing, signal);
+                processed = result.channels;
+                options.onLoudnessReport?.(result.report);
+            }
 
-                if (!foundClip) {
-                     // We are in a gap or done.
+            for (let chunkStart = 0; chunkStart < totalSamples; chunkStart += chunkLength) {
+                throwIfAborted(signal);
+                const length = Math.min(chunkLength, totalSamples - chunkStart);
+                let chunk: AudioBuffer;
+                if (processed) {
+                    chunk = new AudioBuffer({ length, numberOfChannels, sampleRate });
+                    processed.forEach((data, c) => chunk.copyToChannel(data.subarray(chunkStart, chunkStart + length), c));
+                } else {
+                    chunk = await mixChunk(chunkStart, length);
+                }
+                await audioSource.add(chunk);
+                if (!videoSource && !processed) {
+                    const secondsDone = (chunkStart + length) / sampleRate;
+                    reportProgress(secondsDone, totalDuration, `Rendering audio ${Math.round(secondsDone)}s of ${Math.round(totalDuration)}s...`);
                 }
+            }
+            audioSource.close();
+        };
 
-                // Draw Frame
-                ctx.drawImage(video, 0, 0, width, height);
+        // Tracks must be fed in parallel so the muxer can interleave them
+        await Promise.all([renderFrames(), renderAudio()]);
 
-                animationFrameId = requestAnimationFrame(renderLoop);
-            };
+        onProgress(99, 'Finalizing file...');
+        await output.finalize();
 
-            // Start Loop
-            startTime = Date.now(); 
-            renderLoop();
+        const buffer = (output.target as BufferTarget).buffer;
+        if (!buffer) throw new Error('Render produced no data');
 
-        } catch (e) {
-            cleanup();
-            reject(e);
+        onProgress(100, 'Render complete');
+        return new Blob([buffer], { type: format.mimeType });
+    } catch (e) {
+        if (output && output.state !== 'finalized' && output.state !== 'canceled') {
+            await output.cancel().catch(() => {});
         }
-    });
+        throw e;
+    } finally {
+        videoInput.dispose();
+        audioInput?.dispose();
+        overlayInputs.forEach(input => input.dispose());
+    }
 };
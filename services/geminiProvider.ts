@@ -0,0 +1,97 @@
+import { GoogleGenAI, GenerateContentResponse, Schema as GeminiSchema, Type } from "@google/genai";
+import type { LLMProvider, LLMRequest } from './llmService';
+import type { SchemaDescription } from './aiSchema';
+
+export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const FALLBACK_MODEL = "gemini-2.5-flash"; // Higher quotas when the selected model is rate limited
+
+// --- HELPER: ROBUST GENERATION WITH RETRY & FALLBACK ---
+/**
+ * Tries to generate content with the selected model.
+ * If Rate Limit (429) is hit:
+ * 1. Retries once after a delay.
+ * 2. If still failing, falls back to Gemini 2.5 Flash (higher quotas).
+ */
+const generateWithFallback = async (
+  primaryModel: string,
+  fallbackModel: string,
+  generateParams: any
+): Promise<GenerateContentResponse> => {
+
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  try {
+    // Attempt 1: Primary Model
+    return await ai.models.generateContent({
+      model: primaryModel,
+      ...generateParams
+    });
+  } catch (error: any) {
+    const isRateLimit = error.status === 429 || error.message?.includes('429') || error.message?.includes('quota');
+
+    if (isRateLimit) {
+      console.warn(`Rate limit hit on ${primaryModel}. Waiting 4s to retry...`);
+      await delay(4000);
+
+      try {
+        // Attempt 2: Retry Primary
+        return await ai.models.generateContent({
+          model: primaryModel,
+          ...generateParams
+        });
+      } catch (retryError: any) {
+        if (primaryModel === fallbackModel) throw retryError;
+        // Attempt 3: Fallback Model
+        console.warn(`Primary model exhausted. Falling back to ${fallbackModel}.`);
+        return await ai.models.generateContent({
+          model: fallbackModel,
+          ...generateParams
+        });
+      }
+    }
+
+    throw error; // Re-throw other errors
+  }
+};
+
+const SCHEMA_TYPES: Record<SchemaDescription['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+// Maps our schema description onto Gemini's responseSchema
+const toResponseSchema = (schema: SchemaDescription): GeminiSchema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.nullable ? { nullable: true } : {}),
+  ...(schema.items ? { items: toResponseSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toResponseSchema(value)])) }
+    : {}),
+  ...(schema.required?.length ? { required: schema.required } : {})
+});
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: { videoInput: true, jsonOutput: true, chat: true },
+  models: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'],
+  generate: async (model: string, request: LLMRequest): Promise<string> => {
+    const response = await generateWithFallback(model, FALLBACK_MODEL, {
+      contents: request.messages.map(m => ({ role: m.role, parts: m.parts })),
+      config: {
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+        ...(request.schema ? { responseSchema: toResponseSchema(request.schema) } : {}),
+        ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        temperature: request.temperature,
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+      }
+    });
+    return response.text || "";
+  }
+};
@@ -1,62 +1,21 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
 import { SYSTEM_INSTRUCTION } from '../constants';
-import { Message, Sender, TimelineEvent, Clip, VisualFragment } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// --- HELPER: ROBUST GENERATION WITH RETRY & FALLBACK ---
-/**
- * Tries to generate content with Gemini 3 Pro.
- * If Rate Limit (429) is hit:
- * 1. Retries once after a delay.
- * 2. If still failing, falls back to Gemini 2.5 Flash (higher quotas).
- */
-const generateWithFallback = async (
-  primaryModel: string,
-  fallbackModel: string,
-  generateParams: any
-): Promise<GenerateContentResponse> => {
-  
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-  try {
-    // Attempt 1: Primary Model
-    return await ai.models.generateContent({
-      model: primaryModel,
-      ...generateParams
-    });
-  } catch (error: any) {
-    const isRateLimit = error.status === 429 || error.message?.includes('429') || error.message?.includes('quota');
-    
-    if (isRateLimit) {
-      console.warn(`Rate limit hit on ${primaryModel}. Waiting 4s to retry...`);
-      await delay(4000);
-
-      try {
-        // Attempt 2: Retry Primary
-        return await ai.models.generateContent({
-          model: primaryModel,
-          ...generateParams
-        });
-      } catch (retryError: any) {
-        // Attempt 3: Fallback Model
-        console.warn(`Primary model exhausted. Falling back to ${fallbackModel}.`);
-        return await ai.models.generateContent({
-          model: fallbackModel,
-          ...generateParams
-        });
-      }
-    }
-
-    throw error; // Re-throw other errors
-  }
-};
+import { Message, Sender, TimelineEvent, Clip, ExportAspectRatio } from '../types';
+import { formatTime } from '../utils';
+import { FocusPoint } from './reframeService';
+import { ai } from './geminiProvider';
+import { generateForTask, generateStructured, isProviderInUse, LLMMessage, LLMPart } from './llmService';
+import { focusPointsSchema, silenceEventsSchema, timelineEventsSchema, validatedEventsSchema } from './aiSchema';
 
 /**
  * Uploads a file to Google's GenAI File API and waits for it to be processed.
  * This is required for large files (up to 2GB) and ensures they are ready for analysis.
  */
 export const uploadMedia = async (file: File | Blob): Promise<string> => {
+  // Offline / non-Gemini setups never read the URI, so don't upload at all
+  if (!isProviderInUse('gemini')) {
+    return `mock://${(file instanceof File) ? file.name : "uploaded_video"}`;
+  }
+
   try {
     const uploadResult = await ai.files.upload({
       file: file,
@@ -90,6 +49,24 @@ export const uploadMedia = async (file: File | Blob): Promise<string> => {
   }
 };
 
+// A time range of the source video (seconds) for windowed analysis of long recordings
+export interface VideoWindow {
+  start: number;
+  end: number;
+}
+
+const formatOffset = (seconds: number) => `${Math.round(seconds)}s`;
+
+// The video part of a prompt, clipped to the window when one is given
+const videoPart = (fileUri: string, mimeType: string, window?: VideoWindow): LLMPart => ({
+  fileData: { mimeType, fileUri },
+  ...(window ? { videoMetadata: { startOffset: formatOffset(window.start), endOffset: formatOffset(window.end) } } : {})
+});
+
+const windowInstruction = (window?: VideoWindow) => window
+  ? `\n    **WINDOW:** You are only seeing ${formatTime(window.start)}–${formatTime(window.end)} of a longer video. Only report what happens in this range, and give every time (seconds, timestamp, word start/end) as ABSOLUTE time from the start of the full video.\n`
+  : '';
+
 /**
  * TRANSCRIPTION-FIRST ANALYSIS
  * 
@@ -103,7 +80,9 @@ export const uploadMedia = async (file: File | Blob): Promise<string> => {
  */
 export const generateVideoTimeline = async (
   fileUri: string,
-  mimeType: string
+  mimeType: string,
+  window?: VideoWindow,
+  signal?: AbortSignal
 ): Promise<TimelineEvent[]> => {
   try {
     const prompt = `
@@ -111,7 +90,7 @@ export const generateVideoTimeline = async (
     
     **YOUR GOAL:**
     Break the video into logical "Clips" based on the spoken narration.
-    
+    ${windowInstruction(window)}
     **SEGMENTATION RULES:**
     1. **Follow the Speech**: Create a new segment for each complete thought, sentence, or logical paragraph.
     2. **Avoid Micro-Cuts**: Do NOT cut every 3 seconds. Aim for clips that are **10 to 30 seconds long**.
@@ -125,9 +104,12 @@ export const generateVideoTimeline = async (
     - **duration**: Exact duration of this spoken segment.
     - **type**: "audio" (This is the primary type).
     - **description**: The VERBATIM transcription of what was said.
+    - **words**: Every spoken word of the description with its own timing: { "text", "start", "end" } in absolute seconds from the start of the video. Include filler words ("um", "uh") exactly as spoken.
+    - **speaker**: Who is talking, as "S1", "S2", ... numbered in order of first appearance. Keep each person's label the same throughout; a single narrator is always "S1". When the speaker changes mid-thought, start a new segment.
     
     **VISUAL CONTEXT (Secondary):**
     If a major visual change happens (e.g., "Settings Menu Opened"), add a separate event for it, but do NOT let it dictate the clip boundaries. The Audio dictates the clips.
+    For visual events where the cursor or a click is visible, add a **position** with the normalized screen location (x and y from 0 to 1, top-left is 0,0).
     
     **REDUNDANCY:**
     Identify "um", "uh", or stuttering as "redundancy" events.
@@ -136,48 +118,33 @@ export const generateVideoTimeline = async (
     Return strictly a JSON array.
     Example:
     [
-      { "timestamp": "00:00", "seconds": 0, "duration": 12.5, "type": "audio", "description": "Welcome to this tutorial. Today we will show you how to set up your profile." },
-      { "timestamp": "00:12", "seconds": 12.5, "duration": 15.2, "type": "audio", "description": "First, navigate to the top right corner and click on the settings icon." },
-      { "timestamp": "00:14", "seconds": 14, "type": "visual", "description": "Mouse clicks Settings Icon" }
+      { "timestamp": "00:00", "seconds": 0, "duration": 12.5, "type": "audio", "speaker": "S1", "description": "Welcome to this tutorial. Today we will show you how to set up your profile.", "words": [{ "text": "Welcome", "start": 0.2, "end": 0.7 }, { "text": "to", "start": 0.7, "end": 0.85 }, ...] },
+      { "timestamp": "00:12", "seconds": 12.5, "duration": 15.2, "type": "audio", "speaker": "S1", "description": "First, navigate to the top right corner and click on the settings icon." },
+      { "timestamp": "00:14", "seconds": 14, "type": "visual", "description": "Mouse clicks Settings Icon", "position": { "x": 0.94, "y": 0.06 } }
     ]
     `;
 
-    const contents = [
+    const contents: LLMMessage[] = [
       {
         role: 'user',
         parts: [
-          {
-            fileData: {
-              mimeType: mimeType,
-              fileUri: fileUri,
-            },
-          },
+          videoPart(fileUri, mimeType, window),
           { text: prompt }
         ],
       }
     ];
 
-    const response = await generateWithFallback(
-      "gemini-3-pro-preview", // Primary
-      "gemini-2.5-flash",     // Fallback
-      {
-        contents: contents,
-        config: {
-          responseMimeType: "application/json",
-          systemInstruction: "You are a professional transcriber and video editor. Output only valid JSON.",
-          temperature: 0.1,
-        }
-      }
-    );
-
-    const text = response.text || "[]";
-    const jsonStr = text.replace(/```json|```/g, "").trim();
-    
-    return JSON.parse(jsonStr) as TimelineEvent[];
+    return await generateStructured({
+      task: 'analysis',
+      messages: contents,
+      systemInstruction: "You are a professional transcriber and video editor. Output only valid JSON.",
+      temperature: 0.1,
+      signal,
+    }, timelineEventsSchema);
 
   } catch (error) {
     console.error("Timeline Generation Error:", error);
-    return [];
+    throw error;
   }
 };
 
@@ -186,7 +153,8 @@ export const generateVideoTimeline = async (
  */
 export const detectSilenceAndInactivity = async (
   fileUri: string,
-  mimeType: string
+  mimeType: string,
+  signal?: AbortSignal
 ): Promise<TimelineEvent[]> => {
   try {
     const prompt = `
@@ -210,7 +178,7 @@ export const detectSilenceAndInactivity = async (
     ]
     `;
 
-    const contents = [
+    const contents: LLMMessage[] = [
       {
         role: 'user',
         parts: [
@@ -225,81 +193,39 @@ export const detectSilenceAndInactivity = async (
       }
     ];
 
-    const response = await generateWithFallback(
-      "gemini-3-pro-preview",
-      "gemini-2.5-flash",
-      {
-        contents: contents,
-        config: {
-          responseMimeType: "application/json",
-          temperature: 0.1,
-        }
-      }
-    );
-
-    const text = response.text || "[]";
-    const jsonStr = text.replace(/```json|```/g, "").trim();
-    return JSON.parse(jsonStr);
+    return await generateStructured({
+      task: 'silence',
+      messages: contents,
+      temperature: 0.1,
+      signal,
+    }, silenceEventsSchema);
 
   } catch (error) {
     console.error("Silence Detection Error:", error);
-    return [];
+    throw error;
   }
 };
 
 /**
- * Takes the raw transcripts from the clips and asks Gemini to rewrite them.
+ * Applies the validation pass's context fields to the events it was sent, matched by id, and
+ * adds the context switches it found. Timing, words and any event the model left out are kept.
  */
-export const polishClipTranscripts = async (clips: Clip[]): Promise<{id: string, improvedText: string}[]> => {
-    try {
-        const inputPayload = clips
-            .filter(c => c.transcript && c.transcript.length > 0)
-            .map(c => ({ id: c.id, text: c.transcript }));
-
-        const prompt = `
-        You are a **Charismatic Expert** and Video Creator.
-        I will provide raw transcripts from a video.
-        
-        **YOUR TASK:**
-        Rewrite these transcripts to sound confident, knowledgeable, and engaging—like a top-tier educator or YouTuber explaining a concept to a smart friend.
-        
-        **TONE GUIDELINES:**
-        1. **Retain Personality**: Do NOT make it sound like a corporate robot or a generic manual. Keep it punchy.
-        2. **Simple but Deep**: Use simple language, but demonstrate deep expertise.
-        3. **Remove Clutter**: Cut the "ums", "uhs", and hesitation, but keep the *flow* and *energy*.
-        4. **Natural Speaking**: Write numbers as words ("fifty percent" not "50%"). Use natural sentence structures.
-        
-        **RULES:**
-        1. **Accuracy**: Do NOT change the factual instructions. The visuals depend on this.
-        2. **Consistency**: Ensure the story flows smoothly from one clip to the next.
-        
-        **INPUT DATA:**
-        ${JSON.stringify(inputPayload)}
-
-        **OUTPUT FORMAT:**
-        Return a valid JSON Array of objects with keys: "id" and "improvedText".
-        `;
-
-        const response = await generateWithFallback(
-          "gemini-3-pro-preview",
-          "gemini-2.5-flash",
-          {
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            config: {
-                responseMimeType: "application/json",
-                temperature: 0.4
-            }
-          }
-        );
-
-        const text = response.text || "[]";
-        const jsonStr = text.replace(/```json|```/g, "").trim();
-        return JSON.parse(jsonStr);
-
-    } catch (error) {
-        console.error("Polish Script Error:", error);
-        return [];
-    }
+const mergeValidatedEvents = (events: TimelineEvent[], validated: (TimelineEvent & { id?: number })[]): TimelineEvent[] => {
+  const merged = events.map((event, id) => {
+    const match = validated.find(v => v.id === id);
+    if (!match) return event;
+    return {
+      ...event,
+      isParallelAction: match.isParallelAction ?? event.isParallelAction,
+      context: match.context ?? event.context,
+      contextId: match.contextId ?? event.contextId,
+      intent: match.intent ?? event.intent
+    };
+  });
+  const switches = validated
+    .filter(v => v.type === 'context_switch' && (v.id === undefined || !events[v.id]))
+    .map(({ id, ...event }) => event);
+  return [...merged, ...switches].sort((a, b) => a.seconds - b.seconds);
 };
 
 /**
@@ -309,14 +235,17 @@ export const polishClipTranscripts = async (clips: Clip[]): Promise<{id: string,
 export const validateAndRepairTimeline = async (
   fileUri: string,
   mimeType: string,
-  existingEvents: TimelineEvent[]
-): Promise<(TimelineEvent & { isParallelAction?: boolean; context?: string })[]> => {
+  existingEvents: TimelineEvent[],
+  window?: VideoWindow,
+  signal?: AbortSignal
+): Promise<TimelineEvent[]> => {
   try {
-    const existingJson = JSON.stringify(existingEvents.slice(0, 50)); // Limit for context size
+    // Windowed callers pass only the window's events; word timings are left out to save context
+    const existingJson = JSON.stringify(existingEvents.map(({ words, ...event }, id) => ({ id, ...event })));
 
     const prompt = `
     Analyze this video and the existing timeline to detect PARALLEL ACTIONS and CONTEXT SWITCHES.
-
+    ${windowInstruction(window)}
     **EXISTING TIMELINE:**
     ${existingJson}
 
@@ -337,10 +266,76 @@ export const validateAndRepairTimeline = async (
     - "context": string ("main_workflow" | "settings_detour" | "waiting_interlude" | null)
     - "type": can also be "context_switch" for explicit context changes
 
-    Keep ALL original events. Add the new fields. Add new "context_switch" events if you detect explicit switches.
+    Keep ALL original events with their "id" unchanged. Add the new fields. Add new "context_switch" events (without an "id") if you detect explicit switches.
     `;
 
-    const contents = [
+    const contents: LLMMessage[] = [
+      {
+        role: 'user',
+        parts: [
+          videoPart(fileUri, mimeType, window),
+          { text: prompt }
+        ],
+      }
+    ];
+
+    const validated = await generateStructured({
+      task: 'validation',
+      messages: contents,
+      temperature: 0.2,
+      signal,
+    }, validatedEventsSchema);
+    return mergeValidatedEvents(existingEvents, validated);
+
+  } catch (error) {
+    console.error("Timeline Validation Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * "Follow the action" pass for reframing.
+ * Asks the reframe model where the viewer's attention is over time (cursor, clicks, changing UI),
+ * using the located visual events as anchors, so a narrow crop window can track it.
+ */
+export const proposeReframeFocusPoints = async (
+  fileUri: string,
+  mimeType: string,
+  clips: Clip[],
+  visualEvents: TimelineEvent[],
+  aspectRatio: ExportAspectRatio
+): Promise<FocusPoint[]> => {
+  try {
+    const clipRanges = clips.map(c => ({ id: c.id, start: c.startTime, end: c.endTime }));
+    const anchors = visualEvents
+      .filter(e => e.type === 'visual')
+      .slice(0, 200)
+      .map(e => ({ seconds: e.seconds, description: e.description, position: e.position ?? null }));
+
+    const prompt = `
+    This screen recording will be cropped to a ${aspectRatio} frame for social media.
+    Tell us WHERE on screen the viewer should be looking over time, so the crop can follow the action.
+
+    **CLIPS (source seconds):**
+    ${JSON.stringify(clipRanges)}
+
+    **KNOWN VISUAL EVENTS (position is normalized 0-1, may be null):**
+    ${JSON.stringify(anchors)}
+
+    **RULES:**
+    1. Follow the cursor, the element being clicked or typed into, or the area that is changing.
+    2. Use the known event positions when they exist; fill in the gaps between them by watching the video.
+    3. Give a focus point whenever the area of interest moves, and at least one per clip.
+    4. Prefer stable framing: do not add points for small cursor jitter.
+
+    **OUTPUT FORMAT:**
+    Return strictly a JSON array:
+    [ { "time": 12.4, "x": 0.81, "y": 0.12 } ]
+    - "time": source video time in seconds
+    - "x", "y": normalized focus point (0,0 is top-left, 1,1 is bottom-right)
+    `;
+
+    const contents: LLMMessage[] = [
       {
         role: 'user',
         parts: [
@@ -355,39 +350,22 @@ export const validateAndRepairTimeline = async (
       }
     ];
 
-    const response = await generateWithFallback(
-      "gemini-3-pro-preview",
-      "gemini-2.5-flash",
-      {
-        contents: contents,
-        config: {
-          responseMimeType: "application/json",
-          temperature: 0.2,
-        }
-      }
-    );
-
-    const text = response.text || "[]";
-    const jsonStr = text.replace(/```json|```/g, "").trim();
-    const validatedEvents = JSON.parse(jsonStr);
-    
-    return validatedEvents;
+    return await generateStructured({
+      task: 'reframe',
+      messages: contents,
+      temperature: 0.1,
+    }, focusPointsSchema);
 
   } catch (error) {
-    console.error("Timeline Validation Error:", error);
-    // Return original events with default values on error
-    return existingEvents.map(e => ({
-      ...e,
-      isParallelAction: false,
-      context: 'main_workflow'
-    }));
+    console.error("Reframe Focus Error:", error);
+    throw error;
   }
 };
 
 /**
- * Sends a message to Gemini using the uploaded File URI and the pre-computed timeline context.
+ * Sends a chat message using the uploaded File URI and the pre-computed timeline context.
  */
-export const sendMessageToGemini = async (
+export const sendChatMessage = async (
   currentPrompt: string,
   fileUri: string,
   mimeType: string,
@@ -409,7 +387,7 @@ export const sendMessageToGemini = async (
     Use this timeline to answer user questions.
     `;
 
-    const contents = [
+    const contents: LLMMessage[] = [
       {
         role: 'user',
         parts: [
@@ -423,7 +401,7 @@ export const sendMessageToGemini = async (
         role: 'model',
         parts: [{ text: "I have received the video and the deep scan timeline. I am ready to answer questions based on this data." }]
       },
-      ...chatHistory.map(msg => ({
+      ...chatHistory.map((msg): LLMMessage => ({
         role: msg.role === Sender.User ? 'user' : 'model',
         parts: [{ text: msg.text }]
       })),
@@ -433,22 +411,17 @@ export const sendMessageToGemini = async (
       }
     ];
 
-    const response = await generateWithFallback(
-      "gemini-3-pro-preview",
-      "gemini-2.5-flash",
-      {
-        contents: contents,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          temperature: 0.4,
-        }
-      }
-    );
+    const response = await generateForTask({
+      task: 'chat',
+      messages: contents,
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.4,
+    });
 
-    return response.text || "I processed the video but could not generate a text response.";
+    return response || "I processed the video but could not generate a text response.";
 
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    console.error("Chat API Error:", error);
     throw new Error("Failed to analyze video. Ensure the API key is valid.");
   }
 };
\ No newline at end of file
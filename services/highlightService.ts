@@ -0,0 +1,152 @@
+import { Clip, HighlightReelPlan, HighlightScore, TimelineEvent } from '../types';
+import { generateStructured } from './llmService';
+import { highlightReelSchema } from './aiSchema';
+import { getClipVisualDuration } from './sequenceService';
+import { stripSpeechMarkup } from './speechMarkupService';
+
+/**
+ * Short-form teasers cut from a long edit, using the model selected for the "highlights" task.
+ * The model scores every clip and picks an ordered subset; the result is kept as an
+ * alternate sequence so the main edit is never touched.
+ */
+
+export const DEFAULT_HIGHLIGHT_SECONDS = 45;
+
+const MAX_CLIP_TEXT = 500; // Characters of each clip's script sent for scoring
+const MAX_VISUAL_EVENTS = 5; // On-screen events listed per clip
+export const HIGHLIGHT_MAX_OVERRUN = 1.2; // A reel may run this much over its target before clips are dropped
+
+const getScript = (clip: Clip) => stripSpeechMarkup(clip.improvedTranscript || clip.transcript || '');
+
+const clampScore = (value: number) => Math.min(10, Math.max(0, Math.round(value)));
+
+export const getHighlightTotal = (score: HighlightScore) => score.hook + score.completeness + score.visualInterest;
+
+/**
+ * How long a clip runs in a reel: its voiceover segment when it has one, otherwise its cut video.
+ * Reels have no Master Audio of their own, so spans in the main edit's Master Audio don't apply.
+ */
+export const getHighlightClipDuration = (clip: Clip): number =>
+  clip.voiceoverSegment?.duration ?? getClipVisualDuration(clip);
+
+export const getHighlightDuration = (clips: Clip[], clipIds: string[]): number =>
+  clipIds.reduce((total, id) => {
+    const clip = clips.find(c => c.id === id);
+    return total + (clip ? getHighlightClipDuration(clip) : 0);
+  }, 0);
+
+/**
+ * Drops the weakest clips (never the opening one) until the reel is close to its target.
+ */
+const fitToTarget = (clips: Clip[], clipIds: string[], scores: HighlightScore[], targetSeconds: number): string[] => {
+  const fitted = [...clipIds];
+  const totalFor = (id: string) => {
+    const score = scores.find(s => s.clipId === id);
+    return score ? getHighlightTotal(score) : 0;
+  };
+  while (fitted.length > 1 && getHighlightDuration(clips, fitted) > targetSeconds * HIGHLIGHT_MAX_OVERRUN) {
+    let weakest = 1;
+    for (let i = 2; i < fitted.length; i++) {
+      if (totalFor(fitted[i]) < totalFor(fitted[weakest])) weakest = i;
+    }
+    fitted.splice(weakest, 1);
+  }
+  return fitted;
+};
+
+/**
+ * Scores every clip and proposes a reel of roughly `targetSeconds`. Clip ids the model
+ * invents are ignored and the selection is trimmed if it overshoots the target.
+ */
+export const planHighlightReel = async (
+  clips: Clip[],
+  timelineEvents: TimelineEvent[],
+  targetSeconds: number,
+  signal?: AbortSignal
+): Promise<HighlightReelPlan> => {
+  const payload = clips.map(c => {
+    const context = timelineEvents.find(e => e.type === 'audio' && Math.abs(e.seconds - c.startTime) < 2)?.context;
+    const visuals = timelineEvents
+      .filter(e => e.type === 'visual' && e.seconds >= c.startTime && e.seconds < c.endTime)
+      .slice(0, MAX_VISUAL_EVENTS)
+      .map(e => e.description);
+    return {
+      id: c.id,
+      title: c.title,
+      seconds: Math.round(getHighlightClipDuration(c) * 10) / 10,
+      text: getScript(c).slice(0, MAX_CLIP_TEXT),
+      ...(visuals.length > 0 ? { onScreen: visuals } : {}),
+      ...(context ? { context } : {})
+    };
+  });
+
+  const prompt = `You are cutting a ${targetSeconds}-second teaser for social media from a long tutorial video.
+
+**STEP 1 - SCORE EVERY CLIP (0-10):**
+- "hook": would this grab a scrolling viewer in the first two seconds? Surprising results, bold claims and "watch this" moments score high.
+- "completeness": does it make sense on its own, without the clips around it?
+- "visualInterest": does something worth watching happen on screen ("onScreen" lists what the analysis saw)? Settings detours and waiting score low.
+- "reason": one short sentence.
+
+**STEP 2 - PICK THE REEL:**
+- Choose clips whose "seconds" add up to about ${targetSeconds} (never more than ${Math.round(targetSeconds * HIGHLIGHT_MAX_OVERRUN)}).
+- Order them for the teaser, not the tutorial: open on the strongest hook, build to the payoff, and end on a result.
+- Skip "settings_detour" and "waiting_interlude" clips unless they are the payoff.
+
+**STEP 3 - HOOK LINES (OPTIONAL):**
+- If the opening clip's script starts weakly, rewrite it as a punchier line of about the same length in "hookLines".
+- Keep product and feature names exactly as written. Never invent facts.
+
+**CLIPS:**
+${JSON.stringify(payload)}
+
+**OUTPUT FORMAT:**
+Return a JSON object:
+{
+  "scores": [ { "clipId": "clip-1", "hook": 7, "completeness": 5, "visualInterest": 8, "reason": "..." } ],
+  "clipIds": ["clip-4", "clip-2", "clip-9"],
+  "hookLines": [ { "clipId": "clip-4", "text": "..." } ]
+}`;
+
+  const result = await generateStructured({
+    task: 'highlights',
+    messages: [{ role: 'user', parts: [{ text: prompt }] }],
+    maxTokens: 8192,
+    temperature: 0.4,
+    signal,
+  }, highlightReelSchema);
+
+  const knownIds = new Set(clips.map(c => c.id));
+  const scores = result.scores
+    .filter(s => knownIds.has(s.clipId))
+    .map(s => ({
+      ...s,
+      hook: clampScore(s.hook),
+      completeness: clampScore(s.completeness),
+      visualInterest: clampScore(s.visualInterest)
+    }));
+  const selected = [...new Set(result.clipIds)].filter(id => knownIds.has(id));
+  const clipIds = fitToTarget(clips, selected, scores, targetSeconds);
+
+  return {
+    targetSeconds,
+    scores,
+    clipIds,
+    hookLines: (result.hookLines ?? []).filter(h => clipIds.includes(h.clipId) && h.text.trim())
+  };
+};
+
+/**
+ * The reel's clips in playback order. Master Audio spans and chapters belong to the main edit
+ * and are dropped; a rewritten hook line replaces the clip's script and its stale voiceover.
+ */
+export const buildHighlightClips = (clips: Clip[], plan: HighlightReelPlan): Clip[] =>
+  plan.clipIds.flatMap(id => {
+    const clip = clips.find(c => c.id === id);
+    if (!clip) return [];
+    const { audioStartTime, audioEndTime, voiceoverWords, chapterTitle, ...rest } = clip;
+    const hookLine = plan.hookLines.find(h => h.clipId === id);
+    if (!hookLine) return [rest];
+    const { generatedAudioUrl, voiceoverSegment, ...withoutVoiceover } = rest;
+    return [{ ...withoutVoiceover, improvedTranscript: hookLine.text.trim() }];
+  });
@@ -0,0 +1,237 @@
+import { create } from 'zustand';
+import { Job, JobKind, JobStatus } from '../types';
+import { generateId } from '../utils';
+import { WindowResult } from './chunkedAnalysisService';
+import { deleteProjectJobs, loadProjectJobs, saveProjectJob } from './projectService';
+
+/**
+ * Background job queue for AI operations. Jobs run one at a time in the order they were
+ * queued, can be cancelled through their AbortSignal, and are mirrored to the project's
+ * `project_jobs` rows so work interrupted by a reload can be resumed from its checkpoint.
+ */
+
+// What each resumable kind saves as it goes; kinds not listed here always start over
+export interface JobCheckpoints {
+  deep_analysis: { windows: WindowResult[] };
+}
+
+export type JobCheckpoint<K extends JobKind> = K extends keyof JobCheckpoints ? JobCheckpoints[K] : never;
+
+export interface JobContext<TCheckpoint = never> {
+  signal: AbortSignal;
+  checkpoint: TCheckpoint | undefined; // Saved by the interrupted run this job resumes, if any
+  reportProgress: (message: string, progress?: number | null) => void;
+  saveCheckpoint: (checkpoint: TCheckpoint) => void;
+}
+
+interface QueuedJob {
+  id: string;
+  start: () => Promise<void>;
+  cancel: () => void;
+}
+
+interface JobStoreState {
+  jobs: Job[];
+}
+
+export class JobCancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const JOB_KIND_LABELS: Record<JobKind, string> = {
+  deep_analysis: 'Deep analysis',
+  silence_detection: 'Silence detection',
+  context_validation: 'Context validation',
+  polish: 'Script polishing',
+  master_audio: 'Voiceover generation',
+  regenerate_all: 'Regenerate script & audio',
+  voice_clone: 'Voice cloning',
+  chapters: 'Chapter suggestions',
+  publishing: 'Title & description',
+  highlight_reel: 'Highlight reel'
+};
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running'];
+const RESUMABLE_KINDS: JobKind[] = ['deep_analysis']; // The keys of JobCheckpoints
+
+export const useJobStore = create<JobStoreState>(() => ({ jobs: [] }));
+
+let currentProjectId: string | null = null;
+const jobProjects = new Map<string, string>(); // Job id -> project it belongs to
+const controllers = new Map<string, AbortController>();
+const pendingWrites = new Map<string, Promise<void>>(); // Job id -> its latest queued row write
+const queue: QueuedJob[] = [];
+let isRunning = false;
+
+export const isJobActive = (job: Job): boolean => ACTIVE_STATUSES.includes(job.status);
+
+export const isKindActive = (jobs: Job[], kind: JobKind): boolean => jobs.some(j => j.kind === kind && isJobActive(j));
+
+// True when a re-run can pick up from the job's checkpoint instead of starting over
+export const canResumeJob = (job: Job): boolean => RESUMABLE_KINDS.includes(job.kind) && job.checkpoint != null;
+
+export const isJobCancelled = (error: unknown): boolean =>
+  error instanceof JobCancelledError ||
+  (typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError');
+
+const getJob = (id: string) => useJobStore.getState().jobs.find(j => j.id === id);
+
+// Writes for a job run one after another and each saves the job as it is when the write
+// starts, so a slow earlier upsert can never land after the final status
+const persistJob = (id: string) => {
+  const projectId = jobProjects.get(id);
+  if (!getJob(id) || !projectId) return;
+  const write: Promise<void> = (pendingWrites.get(id) ?? Promise.resolve())
+    .then(() => {
+      const job = getJob(id);
+      return job ? saveProjectJob(projectId, job) : undefined;
+    })
+    .catch(error => console.warn('Could not save job state', error))
+    .finally(() => {
+      if (pendingWrites.get(id) === write) pendingWrites.delete(id);
+    });
+  pendingWrites.set(id, write);
+};
+
+// Progress ticks stay local; status changes and checkpoints are persisted
+const updateJob = (id: string, patch: Partial<Job>, persist: boolean = false) => {
+  useJobStore.setState(state => ({
+    jobs: state.jobs.map(j => (j.id === id ? { ...j, ...patch, updatedAt: Date.now() } : j))
+  }));
+  if (persist) persistJob(id);
+};
+
+const pump = async () => {
+  if (isRunning) return;
+  const next = queue.shift();
+  if (!next) return;
+  isRunning = true;
+  try {
+    await next.start();
+  } finally {
+    isRunning = false;
+    pump();
+  }
+};
+
+/**
+ * Queues an operation and resolves with its result once it has run. Rejects with
+ * JobCancelledError when cancelled, or with the operation's own error when it fails.
+ * Pass resumeJobId to re-run an interrupted job with its saved checkpoint.
+ */
+export const runJob = <T, K extends JobKind = JobKind>(
+  kind: K,
+  run: (context: JobContext<JobCheckpoint<K>>) => Promise<T>,
+  options: { label?: string; resumeJobId?: string } = {}
+): Promise<T> => {
+  const resumed = options.resumeJobId ? getJob(options.resumeJobId) : undefined;
+  const now = Date.now();
+  const job: Job = {
+    id: resumed?.id ?? generateId(),
+    kind,
+    label: options.label ?? resumed?.label ?? JOB_KIND_LABELS[kind],
+    status: 'queued',
+    progress: null,
+    message: resumed ? 'Waiting to resume' : 'Waiting',
+    checkpoint: resumed && canResumeJob(resumed) ? resumed.checkpoint : undefined,
+    createdAt: resumed?.createdAt ?? now,
+    updatedAt: now
+  };
+
+  useJobStore.setState(state => ({ jobs: [...state.jobs.filter(j => j.id !== job.id), job] }));
+  if (currentProjectId) jobProjects.set(job.id, currentProjectId);
+  persistJob(job.id);
+
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  return new Promise<T>((resolve, reject) => {
+    queue.push({
+      id: job.id,
+      cancel: () => {
+        controllers.delete(job.id);
+        updateJob(job.id, { status: 'cancelled', message: 'Cancelled' }, true);
+        reject(new JobCancelledError(job.label));
+      },
+      start: async () => {
+        updateJob(job.id, { status: 'running', message: 'Starting' }, true);
+        try {
+          const result = await run({
+            signal: controller.signal,
+            // Stored as JSON, so its shape is only known from the job's kind
+            checkpoint: job.checkpoint as JobCheckpoint<K> | undefined,
+            reportProgress: (message, progress = null) => updateJob(job.id, { message, progress }),
+            saveCheckpoint: checkpoint => updateJob(job.id, { checkpoint }, true)
+          });
+          updateJob(job.id, { status: 'succeeded', progress: 1, message: 'Done', checkpoint: undefined }, true);
+          resolve(result);
+        } catch (error) {
+          if (controller.signal.aborted || isJobCancelled(error)) {
+            updateJob(job.id, { status: 'cancelled', message: 'Cancelled' }, true);
+            reject(new JobCancelledError(job.label));
+          } else {
+            updateJob(job.id, { status: 'failed', message: 'Failed', error: error instanceof Error ? error.message : String(error) }, true);
+            reject(error);
+          }
+        } finally {
+          controllers.delete(job.id);
+        }
+      }
+    });
+    pump();
+  });
+};
+
+export const cancelJob = (id: string) => {
+  const queuedIndex = queue.findIndex(q => q.id === id);
+  if (queuedIndex !== -1) {
+    const [queued] = queue.splice(queuedIndex, 1);
+    queued.cancel();
+    return;
+  }
+  controllers.get(id)?.abort();
+};
+
+export const cancelAllJobs = () => {
+  [...queue].forEach(q => cancelJob(q.id));
+  controllers.forEach(controller => controller.abort());
+};
+
+/**
+ * Removes finished jobs from the list (and from the project).
+ */
+export const dismissJobs = (ids: string[]) => {
+  const removable = useJobStore.getState().jobs.filter(j => ids.includes(j.id) && !isJobActive(j));
+  if (removable.length === 0) return;
+  useJobStore.setState(state => ({ jobs: state.jobs.filter(j => !removable.includes(j)) }));
+  if (currentProjectId) {
+    const projectId = currentProjectId;
+    // Let queued writes finish first so none of them recreates a deleted row
+    Promise.all(removable.map(j => pendingWrites.get(j.id)))
+      .then(() => deleteProjectJobs(projectId, removable.map(j => j.id)))
+      .catch(error => console.warn('Could not delete jobs', error));
+  }
+};
+
+/**
+ * Switches the queue to a project: loads its stored jobs, marking any that were still
+ * queued or running (the page closed under them) as interrupted.
+ */
+export const loadJobsForProject = async (projectId: string | null) => {
+  currentProjectId = projectId;
+  if (!projectId) {
+    useJobStore.setState({ jobs: [] });
+    return;
+  }
+
+  const stored = await loadProjectJobs(projectId);
+  const jobs = stored.map(job => {
+    jobProjects.set(job.id, projectId);
+    return isJobActive(job) ? { ...job, status: 'interrupted' as const, message: 'Interrupted' } : job;
+  });
+  useJobStore.setState({ jobs });
+  jobs.filter(j => j.status === 'interrupted').forEach(j => persistJob(j.id));
+};
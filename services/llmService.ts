@@ -0,0 +1,157 @@
+import { DEFAULT_LLM_MODELS } from '../constants';
+import { LLMModelSelection, LLMProviderId, LLMTask } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { claudeProvider } from './claudeProvider';
+import { mockProvider, isRecordingEnabled, recordResponse } from './mockLlmProvider';
+import { Schema, SchemaDescription, SchemaValidationError, parseJsonResponse, validate } from './aiSchema';
+
+// A piece of a message: text, or a video/file the provider fetches itself (Gemini File API URI).
+// videoMetadata limits a video to a time range ("90s"-style offsets) for windowed analysis.
+export type LLMPart =
+  | { text: string }
+  | { fileData: { fileUri: string; mimeType: string }; videoMetadata?: { startOffset?: string; endOffset?: string } };
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  json?: boolean; // Ask for a JSON-only response
+  schema?: SchemaDescription; // Expected JSON shape, for providers with structured output
+  maxTokens?: number;
+  signal?: AbortSignal; // Cancels the request (job cancellation)
+}
+
+export interface LLMCapabilities {
+  videoInput: boolean;
+  jsonOutput: boolean;
+  chat: boolean; // Multi-turn conversations
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  capabilities: LLMCapabilities;
+  models: string[]; // Suggested models, most capable first
+  generate: (model: string, request: LLMRequest) => Promise<string>;
+}
+
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+  analysis: 'Video analysis',
+  silence: 'Dead-air detection',
+  validation: 'Timeline validation',
+  reframe: 'Reframe focus',
+  polish: 'Script polishing',
+  publishing: 'Chapters & description',
+  highlights: 'Highlight reels',
+  chat: 'Chat'
+};
+
+// Tasks whose prompts include the video itself
+const VIDEO_TASKS: LLMTask[] = ['analysis', 'silence', 'validation', 'reframe', 'chat'];
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  claude: claudeProvider,
+  mock: mockProvider
+};
+
+let taskModels: Record<LLMTask, LLMModelSelection> = { ...DEFAULT_LLM_MODELS };
+
+export const listProviders = (): LLMProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id: LLMProviderId): LLMProvider => PROVIDERS[id] ?? PROVIDERS.gemini;
+
+export const taskNeedsVideo = (task: LLMTask): boolean => VIDEO_TASKS.includes(task);
+
+/**
+ * Applies the per-task model selection from the project settings.
+ */
+export const setTaskModels = (models: Partial<Record<LLMTask, LLMModelSelection>> | undefined) => {
+  taskModels = { ...DEFAULT_LLM_MODELS, ...(models || {}) };
+};
+
+export const getTaskModel = (task: LLMTask): LLMModelSelection => taskModels[task] ?? DEFAULT_LLM_MODELS[task];
+
+/**
+ * True when any task is currently routed to the provider (e.g. skip the Gemini upload when nothing uses Gemini).
+ */
+export const isProviderInUse = (id: LLMProviderId): boolean => {
+  return (Object.keys(taskModels) as LLMTask[]).some(task => taskModels[task].provider === id);
+};
+
+/**
+ * Why a provider can't run a task, or null if it can.
+ */
+export const getUnsupportedReason = (provider: LLMProvider, request: Pick<LLMRequest, 'task' | 'messages' | 'json'>): string | null => {
+  const hasVideo = request.messages.some(m => m.parts.some(p => 'fileData' in p));
+  if (hasVideo && !provider.capabilities.videoInput) return `${provider.label} cannot watch video`;
+  if (request.json && !provider.capabilities.jsonOutput) return `${provider.label} cannot return JSON`;
+  if (request.messages.length > 1 && !provider.capabilities.chat) return `${provider.label} does not support chat`;
+  return null;
+};
+
+/**
+ * Runs a request on the provider/model selected for its task and returns the raw text.
+ * Responses from real providers are recorded for the mock provider while recording is on.
+ */
+export const generateForTask = async (request: LLMRequest): Promise<string> => {
+  const selection = getTaskModel(request.task);
+  const provider = getProvider(selection.provider);
+
+  const unsupported = getUnsupportedReason(provider, request);
+  if (unsupported) {
+    throw new Error(`${unsupported}. Choose another model for ${LLM_TASK_LABELS[request.task]} in Settings.`);
+  }
+
+  request.signal?.throwIfAborted();
+  const text = await provider.generate(selection.model, request);
+  if (provider.id !== 'mock' && isRecordingEnabled()) {
+    recordResponse(request, text, `${provider.id}/${selection.model}`);
+  }
+  return text;
+};
+
+/**
+ * Runs a JSON request and validates the reply against the schema. When the reply doesn't
+ * parse or match, the model is shown its output and the problems and asked to fix it,
+ * up to maxRepairs times. Throws with the last problems if it never comes back valid.
+ */
+export const generateStructured = async <T>(
+  request: Omit<LLMRequest, 'json' | 'schema'>,
+  schema: Schema<T>,
+  maxRepairs: number = DEFAULT_MAX_REPAIRS
+): Promise<T> => {
+  let messages: LLMMessage[] = request.messages;
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const text = await generateForTask({ ...request, messages, json: true, schema: schema.description });
+    let problems: string[];
+    try {
+      return validate(schema, parseJsonResponse(text));
+    } catch (error: any) {
+      lastError = error;
+      problems = error instanceof SchemaValidationError ? error.issues : [`Invalid JSON: ${error.message}`];
+    }
+
+    console.warn(`${LLM_TASK_LABELS[request.task]}: response failed validation (attempt ${attempt + 1}/${maxRepairs + 1})`, problems);
+    messages = [
+      ...request.messages,
+      { role: 'model', parts: [{ text }] },
+      {
+        role: 'user',
+        parts: [{ text: `Your previous response could not be used:\n- ${problems.slice(0, 20).join('\n- ')}\n\nReturn the complete corrected JSON only, matching this schema:\n${JSON.stringify(schema.description)}` }]
+      }
+    ];
+  }
+
+  throw new Error(`${LLM_TASK_LABELS[request.task]} returned an invalid response after ${maxRepairs + 1} attempts. ${lastError?.message || ''}`.trim());
+};
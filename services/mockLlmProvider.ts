@@ -0,0 +1,124 @@
+import { LLMTask } from '../types';
+import type { LLMProvider, LLMRequest } from './llmService';
+import type { SchemaDescription } from './aiSchema';
+
+// One recorded provider response, replayed by the mock provider
+export interface LLMRecording {
+  task: LLMTask;
+  promptHash: string;
+  source: string; // "provider/model" that produced the response
+  text: string;
+  recordedAt: string;
+}
+
+const RECORDINGS_KEY = 'visionary-llm-recordings';
+const RECORDING_ENABLED_KEY = 'visionary-llm-recording-enabled';
+const MAX_RECORDINGS_PER_TASK = 20; // localStorage is small; keep the latest per task
+
+const MOCK_CHAT_REPLY = "This is the offline mock model. Record a real chat response to replay it here.";
+
+// FNV-1a over the prompt text. The video URI is left out so a recording replays against any upload.
+export const hashPrompt = (request: Pick<LLMRequest, 'messages' | 'systemInstruction'>): string => {
+  const text = [
+    request.systemInstruction || '',
+    ...request.messages.flatMap(m => m.parts.map(p => ('text' in p ? `${m.role}:${p.text}` : `${m.role}:<file>`)))
+  ].join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const getRecordings = (): LLMRecording[] => {
+  try {
+    const raw = localStorage.getItem(RECORDINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecordings = (recordings: LLMRecording[]) => {
+  try {
+    localStorage.setItem(RECORDINGS_KEY, JSON.stringify(recordings));
+  } catch (error) {
+    console.warn('Could not store LLM recordings', error);
+  }
+};
+
+export const isRecordingEnabled = (): boolean => localStorage.getItem(RECORDING_ENABLED_KEY) === 'true';
+
+export const setRecordingEnabled = (enabled: boolean) => {
+  localStorage.setItem(RECORDING_ENABLED_KEY, enabled ? 'true' : 'false');
+};
+
+/**
+ * Stores a response for replay, replacing an older one for the same prompt.
+ */
+export const recordResponse = (request: LLMRequest, text: string, source: string) => {
+  const promptHash = hashPrompt(request);
+  const others = getRecordings().filter(r => !(r.task === request.task && r.promptHash === promptHash));
+  const forTask = others.filter(r => r.task === request.task);
+  const trimmed = forTask.length >= MAX_RECORDINGS_PER_TASK
+    ? others.filter(r => r !== forTask[0])
+    : others;
+  saveRecordings([...trimmed, { task: request.task, promptHash, source, text, recordedAt: new Date().toISOString() }]);
+};
+
+/**
+ * Merges recordings from an exported file. Returns how many were imported.
+ */
+export const importRecordings = (json: string): number => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) throw new Error('Expected an array of recordings');
+  const incoming = parsed.filter((r: any): r is LLMRecording =>
+    r && typeof r.task === 'string' && typeof r.promptHash === 'string' && typeof r.text === 'string'
+  );
+  const kept = getRecordings().filter(r => !incoming.some(i => i.task === r.task && i.promptHash === r.promptHash));
+  saveRecordings([...kept, ...incoming]);
+  return incoming.length;
+};
+
+export const clearRecordings = () => {
+  localStorage.removeItem(RECORDINGS_KEY);
+};
+
+/**
+ * The smallest value matching a schema: empty arrays, objects with only their required fields.
+ */
+const emptyValueFor = (schema: SchemaDescription): unknown => {
+  switch (schema.type) {
+    case 'array': return [];
+    case 'string': return schema.enum?.[0] ?? '';
+    case 'number': return 0;
+    case 'boolean': return false;
+    case 'object':
+      return Object.fromEntries((schema.required ?? []).flatMap(key =>
+        schema.properties?.[key] ? [[key, emptyValueFor(schema.properties[key])]] : []
+      ));
+  }
+};
+
+/**
+ * Offline provider: replays the recording for the exact prompt, or the latest one for the task.
+ * Without any recording it returns an empty result matching the schema so the flow still completes.
+ */
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (recorded)',
+  capabilities: { videoInput: true, jsonOutput: true, chat: true },
+  models: ['replay'],
+  generate: async (_model: string, request: LLMRequest): Promise<string> => {
+    const recordings = getRecordings().filter(r => r.task === request.task);
+    const promptHash = hashPrompt(request);
+    const match = recordings.find(r => r.promptHash === promptHash) || recordings[recordings.length - 1];
+    if (match) return match.text;
+
+    console.warn(`Mock LLM: no recording for task "${request.task}"`);
+    if (!request.json) return MOCK_CHAT_REPLY;
+    return JSON.stringify(request.schema ? emptyValueFor(request.schema) : []);
+  }
+};
@@ -1,27 +1,30 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { Clip } from '../types';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.CLAUDE_API_KEY,
-  dangerouslyAllowBrowser: true,
-});
+import { Clip, TimelineEvent } from '../types';
+import { generateStructured } from './llmService';
+import { polishResultsSchema } from './aiSchema';
 
 /**
- * Uses Claude Sonnet 4.5 to polish clip transcripts with an educator-friendly tone.
- * Claude acts as an experienced educator, making content easy to understand and friendly.
+ * Polishes clip transcripts with an educator-friendly tone, using the model selected for the "polish" task
+ * (Claude Sonnet 4.5 by default). The model acts as an experienced educator, making content easy to understand and friendly.
+ * Timeline events, when given, tell the model which clips are parallel actions or detours so transitions stay smooth.
  */
-export const polishClipTranscriptsWithClaude = async (
-  clips: Clip[]
+export const polishClipTranscripts = async (
+  clips: Clip[],
+  timelineEvents: TimelineEvent[] = [],
+  signal?: AbortSignal
 ): Promise<{ id: string; improvedText: string }[]> => {
-  console.log('🤖 CLAUDE: Starting script polishing with Claude Sonnet 4.5');
-  console.log(`🤖 CLAUDE: Processing ${clips.length} clips`);
-
   try {
     const inputPayload = clips
       .filter((c) => c.transcript && c.transcript.length > 0)
-      .map((c) => ({ id: c.id, text: c.transcript }));
-
-    console.log('🤖 CLAUDE: Input payload:', inputPayload);
+      .map((c) => {
+        const event = timelineEvents.find(e => e.type === 'audio' && Math.abs(e.seconds - c.startTime) < 2);
+        return {
+          id: c.id,
+          text: c.transcript,
+          ...(event?.context ? { context: event.context } : {}),
+          ...(event?.isParallelAction ? { isParallelAction: true } : {}),
+          ...(c.speaker ? { speaker: c.speaker } : {})
+        };
+      });
 
     const prompt = `You are a CHARISMATIC educator who polishes video scripts to sound more engaging and professional.
 
@@ -67,6 +70,10 @@ You're genuinely excited to help people learn. You speak like a friendly guide s
 **INPUT DATA:**
 ${JSON.stringify(inputPayload)}
 
+Clips with a "speaker" label belong to different people in a conversation: keep each speaker's own voice and don't merge their lines.
+
+Some clips carry a "context" ("main_workflow", "settings_detour", "waiting_interlude") or "isParallelAction": true (done while waiting for something else). Use these to phrase the transitions into and out of detours naturally.
+
 **OUTPUT FORMAT:**
 Return a valid JSON array of objects with keys: "id" and "improvedText".
 
@@ -80,40 +87,17 @@ WRONG output: "Let's use Nano Pro and Gemini 2.5 for this!" ← NEVER do this
   { "id": "clip-2", "improvedText": "Perfect! Now here's the cool part..." }
 ]`;
 
-    console.log('🤖 CLAUDE: Sending request to Claude API...');
-
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5',
-      max_tokens: 4096,
+    const result = await generateStructured({
+      task: 'polish',
+      messages: [{ role: 'user', parts: [{ text: prompt }] }],
+      maxTokens: 4096,
       temperature: 0.3, // Lower temperature to reduce hallucination and preserve accuracy
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    console.log('🤖 CLAUDE: Received response from Claude');
-    console.log('🤖 CLAUDE: Model used:', message.model);
-    console.log('🤖 CLAUDE: Usage:', message.usage);
-
-    // Extract text from Claude's response
-    const responseText = message.content
-      .filter((block) => block.type === 'text')
-      .map((block) => (block as any).text)
-      .join('');
-
-    // Parse JSON from response
-    const jsonStr = responseText.replace(/```json|```/g, '').trim();
-    const result = JSON.parse(jsonStr);
-
-    console.log('🤖 CLAUDE: Successfully polished scripts');
-    console.log('🤖 CLAUDE: Result:', result);
+      signal,
+    }, polishResultsSchema);
 
     return result;
   } catch (error) {
-    console.error('❌ CLAUDE ERROR: Script polishing failed:', error);
-    return [];
+    console.error('❌ POLISH ERROR: Script polishing failed:', error);
+    throw error;
   }
 };
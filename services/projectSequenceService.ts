@@ -0,0 +1,91 @@
+import { Clip, MasterAudioRef, ProjectSequence, SequenceExportSettings } from '../types';
+import { DEFAULT_AUDIO_PROCESSING, DEFAULT_CAPTION_STYLE, DEFAULT_EXPORT_PRESET_ID } from '../constants';
+import { generateId } from '../utils';
+import { layoutSequence } from './sequenceService';
+
+/**
+ * Named versions of a project's edit. Sequences share the source video, analysis, tracks and
+ * settings; each has its own clip list, voiceover and export settings. Duplicates keep their
+ * clip ids, which is what lets two versions be compared clip by clip.
+ */
+
+export const DEFAULT_SEQUENCE_EXPORT_SETTINGS: SequenceExportSettings = {
+  presetId: DEFAULT_EXPORT_PRESET_ID,
+  aspectRatio: 'source',
+  captionStyle: DEFAULT_CAPTION_STYLE,
+  burnInCaptions: false,
+  audioProcessing: DEFAULT_AUDIO_PROCESSING
+};
+
+export interface SequenceComparison {
+  duration: [number, number];
+  clipCount: [number, number];
+  onlyIn: [Clip[], Clip[]]; // Clips missing from the other sequence
+  changed: Clip[]; // In both, with a different cut, script or voiceover (as in the first sequence)
+  reordered: boolean; // Shared clips play in a different order
+}
+
+export const createSequence = (
+  name: string,
+  clips: Clip[],
+  masterAudio: MasterAudioRef | null,
+  exportSettings: SequenceExportSettings
+): ProjectSequence => {
+  const now = Date.now();
+  return { id: generateId(), name, clips, masterAudio, exportSettings, createdAt: now, updatedAt: now };
+};
+
+/**
+ * `base`, or `base (2)`, `base (3)`... when a sequence already has that name.
+ */
+export const getUniqueSequenceName = (base: string, sequences: ProjectSequence[]): string => {
+  const names = new Set(sequences.map(s => s.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+};
+
+export const duplicateSequence = (sequence: ProjectSequence, sequences: ProjectSequence[]): ProjectSequence =>
+  createSequence(
+    getUniqueSequenceName(`${sequence.name} copy`, sequences),
+    sequence.clips,
+    sequence.masterAudio,
+    sequence.exportSettings
+  );
+
+/**
+ * Saved export settings over the defaults, so sequences stored before a setting existed still load.
+ */
+export const resolveExportSettings = (settings: Partial<SequenceExportSettings> | undefined): SequenceExportSettings => ({
+  presetId: settings?.presetId ?? DEFAULT_SEQUENCE_EXPORT_SETTINGS.presetId,
+  aspectRatio: settings?.aspectRatio ?? DEFAULT_SEQUENCE_EXPORT_SETTINGS.aspectRatio,
+  captionStyle: { ...DEFAULT_CAPTION_STYLE, ...(settings?.captionStyle || {}) },
+  burnInCaptions: settings?.burnInCaptions === true,
+  audioProcessing: { ...DEFAULT_AUDIO_PROCESSING, ...(settings?.audioProcessing || {}) }
+});
+
+export const getSequenceDuration = (sequence: ProjectSequence): number =>
+  layoutSequence(sequence.clips, !!sequence.masterAudio).reduce((total, entry) => total + entry.duration, 0);
+
+const getClipSignature = (clip: Clip) => JSON.stringify([
+  clip.startTime,
+  clip.endTime,
+  clip.visualFragments ?? null,
+  clip.improvedTranscript ?? clip.transcript ?? '',
+  clip.voiceoverSegment?.hash ?? null
+]);
+
+export const compareSequences = (a: ProjectSequence, b: ProjectSequence): SequenceComparison => {
+  const idsA = new Set(a.clips.map(c => c.id));
+  const idsB = new Set(b.clips.map(c => c.id));
+  const sharedA = a.clips.filter(c => idsB.has(c.id));
+  const sharedB = b.clips.filter(c => idsA.has(c.id));
+  return {
+    duration: [getSequenceDuration(a), getSequenceDuration(b)],
+    clipCount: [a.clips.length, b.clips.length],
+    onlyIn: [a.clips.filter(c => !idsB.has(c.id)), b.clips.filter(c => !idsA.has(c.id))],
+    changed: sharedA.filter(clip => getClipSignature(clip) !== getClipSignature(sharedB.find(c => c.id === clip.id)!)),
+    reordered: sharedA.some((clip, index) => sharedB[index].id !== clip.id)
+  };
+};
@@ -1,5 +1,5 @@
 import { supabase } from './supabaseClient';
-import { AppSettings, Clip, Message, TimelineEvent } from '../types';
+import { AppSettings, Clip, Job, Message, ProjectSequence, TimelineEvent, TimelineTrack } from '../types';
 import { deleteVideoFromBunny, extractBunnyVideoId } from './bunnyService';
 
 export const PROJECT_BUCKET = 'project-uploads';
@@ -34,11 +34,36 @@ const mapStateRow = (row: any): ProjectStateSnapshot => ({
   messages: row.messages ?? [],
   clips: row.clips ?? [],
   timelineEvents: row.timeline_events ?? [],
+  tracks: row.tracks ?? [],
   settings: row.settings ?? {},
   masterAudioMeta: row.master_audio_meta ?? null,
   editorMeta: row.editor_meta ?? null,
   hasAnalyzed: row.has_analyzed ?? false,
-  activeClipId: row.active_clip_id ?? null
+  activeClipId: row.active_clip_id ?? null,
+  activeSequenceId: row.active_sequence_id ?? null
+});
+
+const mapSequenceRow = (row: any): ProjectSequence => ({
+  id: row.id,
+  name: row.name,
+  clips: row.clips ?? [],
+  masterAudio: row.master_audio_meta ?? null,
+  exportSettings: row.export_settings ?? {},
+  createdAt: new Date(row.created_at).getTime(),
+  updatedAt: new Date(row.updated_at).getTime()
+});
+
+const mapJobRow = (row: any): Job => ({
+  id: row.id,
+  kind: row.kind,
+  label: row.label,
+  status: row.status,
+  progress: row.progress ?? null,
+  message: row.message ?? '',
+  error: row.error ?? undefined,
+  checkpoint: row.checkpoint ?? undefined,
+  createdAt: new Date(row.created_at).getTime(),
+  updatedAt: new Date(row.updated_at).getTime()
 });
 
 export interface ProjectRecord {
@@ -62,20 +87,24 @@ export interface ProjectStateSnapshot {
   messages: Message[];
   clips: Clip[];
   timelineEvents: TimelineEvent[];
+  tracks: TimelineTrack[];
   settings: Partial<AppSettings>;
   masterAudioMeta?: Record<string, any> | null;
   editorMeta?: Record<string, any> | null;
   hasAnalyzed: boolean;
   activeClipId: string | null;
+  activeSequenceId: string | null;
 }
 
 export interface ProjectSnapshotPayload {
   messages: Message[];
   clips: Clip[];
   timelineEvents: TimelineEvent[];
+  tracks: TimelineTrack[];
   settings: AppSettings;
   hasAnalyzed: boolean;
   activeClipId: string | null;
+  activeSequenceId: string | null;
   masterAudioMeta?: Record<string, any> | null;
   editorMeta?: Record<string, any> | null;
 }
@@ -113,7 +142,7 @@ export const createProject = async (name: string, description?: string): Promise
   return mapProjectRow(data);
 };
 
-export const loadProjectWithState = async (projectId: string): Promise<{ project: ProjectRecord; state: ProjectStateSnapshot | null; }> => {
+export const loadProjectWithState = async (projectId: string): Promise<{ project: ProjectRecord; state: ProjectStateSnapshot | null; sequences: ProjectSequence[]; }> => {
   const { data: projectRow, error: projectError } = await supabase
     .from('projects')
     .select('*')
@@ -130,9 +159,18 @@ export const loadProjectWithState = async (projectId: string): Promise<{ project
 
   if (stateError) throw stateError;
 
+  const { data: sequenceRows, error: sequenceError } = await supabase
+    .from('project_sequences')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (sequenceError) throw sequenceError;
+
   return {
     project: mapProjectRow(projectRow),
-    state: stateRow ? mapStateRow(stateRow) : null
+    state: stateRow ? mapStateRow(stateRow) : null,
+    sequences: (sequenceRows ?? []).map(mapSequenceRow)
   };
 };
 
@@ -144,9 +182,11 @@ export const saveProjectState = async (projectId: string, payload: ProjectSnapsh
       messages: payload.messages,
       clips: payload.clips,
       timeline_events: payload.timelineEvents,
+      tracks: payload.tracks,
       settings: payload.settings,
       has_analyzed: payload.hasAnalyzed,
       active_clip_id: payload.activeClipId,
+      active_sequence_id: payload.activeSequenceId,
       master_audio_meta: payload.masterAudioMeta ?? null,
       editor_meta: payload.editorMeta ?? null
     });
@@ -154,6 +194,34 @@ export const saveProjectState = async (projectId: string, payload: ProjectSnapsh
   if (error) throw error;
 };
 
+// Only uploaded master audio is stored; a local blob URL would be dead after a reload
+export const saveProjectSequence = async (projectId: string, sequence: ProjectSequence) => {
+  const masterAudio = sequence.masterAudio?.storagePath ? sequence.masterAudio : null;
+  const { error } = await supabase
+    .from('project_sequences')
+    .upsert({
+      id: sequence.id,
+      project_id: projectId,
+      name: sequence.name,
+      clips: sequence.clips,
+      master_audio_meta: masterAudio,
+      export_settings: sequence.exportSettings,
+      created_at: new Date(sequence.createdAt).toISOString()
+    }, { onConflict: 'project_id,id' });
+
+  if (error) throw error;
+};
+
+export const deleteProjectSequence = async (projectId: string, sequenceId: string) => {
+  const { error } = await supabase
+    .from('project_sequences')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('id', sequenceId);
+
+  if (error) throw error;
+};
+
 export const updateProjectMetadata = async (projectId: string, updates: Partial<{ name: string; description: string | null; videoStoragePath: string | null; videoFileName: string | null; videoMimeType: string | null; videoFileUri: string | null; masterAudioStoragePath: string | null; masterAudioMimeType: string | null; hasMasterAudio: boolean; }>) => {
   const payload: Record<string, any> = {};
   if ('name' in updates) payload.name = updates.name;
@@ -227,6 +295,47 @@ export const getAssetPublicUrl = (path: string): string => {
   return data.publicUrl;
 };
 
+export const loadProjectJobs = async (projectId: string): Promise<Job[]> => {
+  const { data, error } = await supabase
+    .from('project_jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(mapJobRow);
+};
+
+export const saveProjectJob = async (projectId: string, job: Job) => {
+  const { error } = await supabase
+    .from('project_jobs')
+    .upsert({
+      id: job.id,
+      project_id: projectId,
+      kind: job.kind,
+      label: job.label,
+      status: job.status,
+      progress: job.progress,
+      message: job.message,
+      error: job.error ?? null,
+      checkpoint: job.checkpoint ?? null,
+      created_at: new Date(job.createdAt).toISOString()
+    });
+
+  if (error) throw error;
+};
+
+export const deleteProjectJobs = async (projectId: string, jobIds: string[]) => {
+  if (jobIds.length === 0) return;
+  const { error } = await supabase
+    .from('project_jobs')
+    .delete()
+    .eq('project_id', projectId)
+    .in('id', jobIds);
+
+  if (error) throw error;
+};
+
 export const clearProjectMasterAudio = async (projectId: string) => {
   const { error } = await supabase
     .from('projects')
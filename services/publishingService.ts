@@ -0,0 +1,94 @@
+import { Clip, PublishingMetadata, TimelineEvent } from '../types';
+import { generateStructured } from './llmService';
+import { chapterSuggestionsSchema, publishingMetadataSchema } from './aiSchema';
+import { Chapter, formatYouTubeChapters } from './chapterService';
+import { stripSpeechMarkup } from './speechMarkupService';
+
+/**
+ * Chapter suggestions and YouTube title/description/tags, using the model selected for the
+ * "publishing" task. Both work from the polished script when there is one.
+ */
+
+const MAX_CLIP_TEXT = 400; // Characters of each clip's script sent for chapter grouping
+
+const getScript = (clip: Clip) => stripSpeechMarkup(clip.improvedTranscript || clip.transcript || '');
+
+/**
+ * Groups the clips (in sequence order) into named chapters. Analysis contexts tell the model
+ * where the main workflow is interrupted by detours.
+ */
+export const suggestChapters = async (
+  clips: Clip[],
+  timelineEvents: TimelineEvent[] = [],
+  signal?: AbortSignal
+): Promise<{ firstClipId: string; title: string }[]> => {
+  const payload = clips.map(c => {
+    const event = timelineEvents.find(e => e.type === 'audio' && Math.abs(e.seconds - c.startTime) < 2);
+    return {
+      id: c.id,
+      title: c.title,
+      text: getScript(c).slice(0, MAX_CLIP_TEXT),
+      ...(event?.context ? { context: event.context } : {})
+    };
+  });
+
+  const prompt = `You are editing a tutorial video into YouTube chapters.
+
+The clips below are in playback order. Group consecutive clips into chapters a viewer would want to jump between.
+
+**RULES:**
+1. The first chapter must start at the first clip ("${clips[0]?.id ?? ''}").
+2. Make between 3 and 10 chapters; each should cover a meaningful step, not a single sentence.
+3. Titles are short (2-6 words), specific and in Title Case. No numbering, no timestamps, no emoji.
+4. Clips with "context": "settings_detour" or "waiting_interlude" belong to the surrounding "main_workflow" chapter unless the detour is long enough to deserve its own chapter.
+5. Use the product and feature names exactly as they appear in the clips.
+
+**CLIPS:**
+${JSON.stringify(payload)}
+
+**OUTPUT FORMAT:**
+Return a JSON array, in order, with one entry per chapter:
+[ { "firstClipId": "clip-1", "title": "Setting Up the Project" } ]`;
+
+  return generateStructured({
+    task: 'publishing',
+    messages: [{ role: 'user', parts: [{ text: prompt }] }],
+    maxTokens: 2048,
+    temperature: 0.3,
+    signal,
+  }, chapterSuggestionsSchema);
+};
+
+/**
+ * Title, description and tags for the video. The chapter list is not part of the generated
+ * description; it is appended from the current chapters so it always matches the export.
+ */
+export const generatePublishingMetadata = async (
+  clips: Clip[],
+  chapters: Chapter[],
+  signal?: AbortSignal
+): Promise<PublishingMetadata> => {
+  const script = clips.map(getScript).filter(Boolean).join('\n\n');
+  const prompt = `Write the YouTube listing for this tutorial video from its narration script.
+
+**SCRIPT:**
+${script}
+${chapters.length > 0 ? `\n**CHAPTERS:**\n${formatYouTubeChapters(chapters)}\n` : ''}
+**RULES:**
+- "title": at most 70 characters, clear about what the viewer will be able to do. No clickbait, no emoji.
+- "description": 2-3 short paragraphs. The first sentence must work on its own in search results. Do not include timestamps or a chapter list.
+- "tags": 8-15 search phrases, lowercase, most relevant first.
+- Use product and feature names exactly as they appear in the script. Never invent facts, links or names.
+
+**OUTPUT FORMAT:**
+Return a JSON object:
+{ "title": "...", "description": "...", "tags": ["...", "..."] }`;
+
+  return generateStructured({
+    task: 'publishing',
+    messages: [{ role: 'user', parts: [{ text: prompt }] }],
+    maxTokens: 2048,
+    temperature: 0.5,
+    signal,
+  }, publishingMetadataSchema);
+};
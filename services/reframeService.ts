@@ -0,0 +1,133 @@
+import { Clip, CropKeyframe, ExportAspectRatio, TimelineEvent } from '../types';
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A point the viewer should be looking at, in source time with normalized coordinates
+export interface FocusPoint {
+  time: number;
+  x: number;
+  y: number;
+}
+
+export const ASPECT_RATIO_OPTIONS: { value: ExportAspectRatio; label: string }[] = [
+  { value: 'source', label: 'Original' },
+  { value: '9:16', label: '9:16 Vertical' },
+  { value: '1:1', label: '1:1 Square' },
+  { value: '4:5', label: '4:5 Portrait' }
+];
+
+// Keyframe smoothing: ignore jitter smaller than DEAD_ZONE, never pan more often than MIN_KEYFRAME_GAP
+const DEAD_ZONE = 0.08;
+const MIN_KEYFRAME_GAP = 1.0;
+const PAN_DURATION = 0.6;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Width / height ratio of the target aspect, or of the source for 'source'.
+ */
+export const getAspectRatioValue = (aspectRatio: ExportAspectRatio, sourceWidth: number, sourceHeight: number): number => {
+  if (aspectRatio === 'source') return sourceWidth / sourceHeight;
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+};
+
+/**
+ * Interpolates the crop centre/zoom at a source time. With no keyframes the window is centred.
+ */
+export const interpolateCropKeyframes = (keyframes: CropKeyframe[] | undefined, time: number): Required<CropKeyframe> => {
+  if (!keyframes || keyframes.length === 0) return { time, x: 0.5, y: 0.5, zoom: 1 };
+
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  const withZoom = (k: CropKeyframe): Required<CropKeyframe> => ({ ...k, time, zoom: k.zoom ?? 1 });
+
+  if (time <= sorted[0].time) return withZoom(sorted[0]);
+  const last = sorted[sorted.length - 1];
+  if (time >= last.time) return withZoom(last);
+
+  const nextIndex = sorted.findIndex(k => k.time > time);
+  const a = sorted[nextIndex - 1];
+  const b = sorted[nextIndex];
+  const t = easeInOut((time - a.time) / (b.time - a.time));
+  return {
+    time,
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    zoom: (a.zoom ?? 1) + ((b.zoom ?? 1) - (a.zoom ?? 1)) * t
+  };
+};
+
+/**
+ * Source-pixel crop rectangle for a frame. The window is the largest rect of the target
+ * aspect that fits the source (divided by zoom), centred on the keyframe and clamped to the frame.
+ */
+export const getCropRect = (
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: ExportAspectRatio,
+  keyframes: CropKeyframe[] | undefined,
+  time: number
+): CropRect => {
+  const ratio = getAspectRatioValue(aspectRatio, sourceWidth, sourceHeight);
+  const { x, y, zoom } = interpolateCropKeyframes(keyframes, time);
+
+  let width = sourceWidth;
+  let height = sourceWidth / ratio;
+  if (height > sourceHeight) {
+    height = sourceHeight;
+    width = sourceHeight * ratio;
+  }
+  const scale = 1 / Math.max(1, zoom);
+  width *= scale;
+  height *= scale;
+
+  return {
+    x: clamp(x * sourceWidth - width / 2, 0, sourceWidth - width),
+    y: clamp(y * sourceHeight - height / 2, 0, sourceHeight - height),
+    width,
+    height
+  };
+};
+
+/**
+ * Collects the located visual events (cursor/click positions) that fall inside a clip.
+ */
+export const getFocusPointsFromEvents = (events: TimelineEvent[], clip: Clip): FocusPoint[] => {
+  return events
+    .filter(e => e.type === 'visual' && e.position && e.seconds >= clip.startTime && e.seconds < clip.endTime)
+    .map(e => ({ time: e.seconds, x: clamp(e.position!.x, 0, 1), y: clamp(e.position!.y, 0, 1) }));
+};
+
+/**
+ * Turns raw focus points into a calm pan path for one clip:
+ * holds the framing until the action moves outside a dead zone, then eases to it.
+ */
+export const buildCropKeyframes = (clip: Clip, points: FocusPoint[]): CropKeyframe[] => {
+  const inClip = points
+    .filter(p => p.time >= clip.startTime && p.time <= clip.endTime)
+    .sort((a, b) => a.time - b.time);
+  if (inClip.length === 0) return [];
+
+  const first = inClip[0];
+  const keyframes: CropKeyframe[] = [{ time: clip.startTime, x: first.x, y: first.y }];
+
+  for (const point of inClip.slice(1)) {
+    const current = keyframes[keyframes.length - 1];
+    const moved = Math.hypot(point.x - current.x, point.y - current.y);
+    if (moved < DEAD_ZONE || point.time - current.time < MIN_KEYFRAME_GAP) continue;
+
+    // Hold the previous framing, then pan so we arrive as the action happens
+    const panStart = Math.max(current.time, point.time - PAN_DURATION);
+    if (panStart > current.time) keyframes.push({ time: panStart, x: current.x, y: current.y });
+    keyframes.push({ time: point.time, x: point.x, y: point.y });
+  }
+
+  return keyframes;
+};
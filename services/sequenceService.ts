@@ -0,0 +1,199 @@
+import { Clip, TranscriptWord, VisualFragment } from '../types';
+
+// A clip placed on the output timeline
+export interface SequenceEntry {
+  clip: Clip;
+  sequenceStart: number;
+  duration: number;
+  audioDriven: boolean; // true = duration follows the clip's master-audio span
+}
+
+// What the fragment helpers read; the timeline passes its own lighter clip shape
+type FragmentedClip = Pick<Clip, 'startTime' | 'endTime' | 'visualFragments'>;
+
+// Cuts shorter than this are ignored (avoids single-frame fragments)
+const MIN_FRAGMENT_DURATION = 0.05;
+
+/**
+ * Source ranges a clip plays, in order. Without visualFragments this is the whole clip;
+ * an empty list means everything was cut.
+ */
+export const getClipFragments = (clip: FragmentedClip): VisualFragment[] => {
+  if (clip.visualFragments) return clip.visualFragments;
+  return [{ start: clip.startTime, end: clip.endTime }];
+};
+
+/**
+ * Total source video played by a clip (sum of its fragments).
+ */
+export const getClipVisualDuration = (clip: FragmentedClip): number => {
+  return getClipFragments(clip).reduce((acc, f) => acc + Math.max(0, f.end - f.start), 0);
+};
+
+/**
+ * Maps "seconds of video played into the clip" to a source time, walking the fragments.
+ */
+export const getSourceTimeAtClipTime = (clip: FragmentedClip, clipTime: number): number => {
+  const fragments = getClipFragments(clip);
+  let remaining = Math.max(0, clipTime);
+  for (const fragment of fragments) {
+    const length = fragment.end - fragment.start;
+    if (remaining < length) return fragment.start + remaining;
+    remaining -= length;
+  }
+  return fragments.length > 0 ? fragments[fragments.length - 1].end : clip.startTime;
+};
+
+/**
+ * Inverse of getSourceTimeAtClipTime. A source time inside a cut maps to the start of the next fragment.
+ */
+export const getClipTimeAtSourceTime = (clip: FragmentedClip, sourceTime: number): number => {
+  let elapsed = 0;
+  for (const fragment of getClipFragments(clip)) {
+    if (sourceTime < fragment.start) return elapsed;
+    if (sourceTime < fragment.end) return elapsed + (sourceTime - fragment.start);
+    elapsed += fragment.end - fragment.start;
+  }
+  return elapsed;
+};
+
+/**
+ * Start of the fragment that should play at/after a source time, or null past the last fragment.
+ * Used by playback to jump over cuts.
+ */
+export const getNextFragmentStart = (clip: Clip, sourceTime: number): number | null => {
+  const fragment = getClipFragments(clip).find(f => sourceTime < f.end);
+  return fragment ? Math.max(fragment.start, sourceTime) : null;
+};
+
+/**
+ * Cleans up hand-edited fragments: clamps them to the clip, drops slivers, sorts them and
+ * merges overlaps. Returns undefined when they cover the whole clip (no fragments needed).
+ */
+export const normalizeFragments = (clip: Clip, fragments: VisualFragment[]): VisualFragment[] | undefined => {
+  const sorted = fragments
+    .map(f => ({ start: Math.max(clip.startTime, f.start), end: Math.min(clip.endTime, f.end) }))
+    .filter(f => f.end - f.start >= MIN_FRAGMENT_DURATION)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: VisualFragment[] = [];
+  for (const fragment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && fragment.start <= last.end) {
+      last.end = Math.max(last.end, fragment.end);
+    } else {
+      merged.push(fragment);
+    }
+  }
+
+  const coversClip = merged.length === 1 &&
+    merged[0].start - clip.startTime < MIN_FRAGMENT_DURATION &&
+    clip.endTime - merged[0].end < MIN_FRAGMENT_DURATION;
+  return coversClip ? undefined : merged;
+};
+
+/**
+ * Turns a transcript with deleted words into the fragments that skip exactly those words.
+ * Returns undefined when nothing is deleted (the clip plays in full).
+ */
+export const buildFragmentsFromWords = (clip: Clip, words: TranscriptWord[]): VisualFragment[] | undefined => {
+  const cuts: VisualFragment[] = [];
+  for (const word of words) {
+    if (!word.deleted) continue;
+    const last = cuts[cuts.length - 1];
+    const start = Math.max(clip.startTime, word.start);
+    const end = Math.min(clip.endTime, word.end);
+    // Merge runs of deleted words, including the gap between them
+    if (last && !words.some(w => !w.deleted && w.start >= last.end && w.start < start)) {
+      last.end = Math.max(last.end, end);
+    } else {
+      cuts.push({ start, end });
+    }
+  }
+  if (cuts.length === 0) return undefined;
+
+  const fragments: VisualFragment[] = [];
+  let cursor = clip.startTime;
+  for (const cut of cuts) {
+    if (cut.start - cursor >= MIN_FRAGMENT_DURATION) fragments.push({ start: cursor, end: cut.start });
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (clip.endTime - cursor >= MIN_FRAGMENT_DURATION) fragments.push({ start: cursor, end: clip.endTime });
+
+  return fragments;
+};
+
+/**
+ * Narrows a clip to [startTime, endTime] of its source (e.g. one half of a split),
+ * keeping only the fragments and transcript words inside that range.
+ */
+export const sliceClip = (clip: Clip, startTime: number, endTime: number): Clip => {
+  const sliced: Clip = { ...clip, startTime, endTime };
+  if (clip.visualFragments) {
+    sliced.visualFragments = clip.visualFragments
+      .map(f => ({ start: Math.max(f.start, startTime), end: Math.min(f.end, endTime) }))
+      .filter(f => f.end - f.start >= MIN_FRAGMENT_DURATION);
+  }
+  if (clip.words) {
+    sliced.words = clip.words.filter(w => w.start >= startTime && w.start < endTime);
+  }
+  return sliced;
+};
+
+/**
+ * Moves one edge of a clip to a new source time (trim in or out, or extend into unused source).
+ * Extended material is added as a played fragment; trimmed fragments and words are dropped.
+ */
+export const trimClip = (clip: Clip, edge: 'start' | 'end', sourceTime: number): Clip => {
+  const startTime = edge === 'start' ? Math.max(0, Math.min(sourceTime, clip.endTime - MIN_FRAGMENT_DURATION)) : clip.startTime;
+  const endTime = edge === 'end' ? Math.max(sourceTime, clip.startTime + MIN_FRAGMENT_DURATION) : clip.endTime;
+
+  const trimmed = sliceClip(clip, Math.max(startTime, clip.startTime), Math.min(endTime, clip.endTime));
+  trimmed.startTime = startTime;
+  trimmed.endTime = endTime;
+
+  if (trimmed.visualFragments) {
+    const fragments = [...trimmed.visualFragments];
+    if (startTime < clip.startTime) fragments.unshift({ start: startTime, end: clip.startTime });
+    if (endTime > clip.endTime) fragments.push({ start: clip.endTime, end: endTime });
+    const visualFragments = normalizeFragments(trimmed, fragments);
+    if (visualFragments) trimmed.visualFragments = visualFragments;
+    else delete trimmed.visualFragments;
+  }
+  return trimmed;
+};
+
+/**
+ * Duration of a clip on the output timeline.
+ * With master audio, clips that have a voiceover span last as long as that span
+ * (the video is stretched to fit); otherwise the clip plays its fragments at 1x.
+ */
+export const getClipSequenceDuration = (clip: Clip, useMasterAudio: boolean): number => {
+  if (useMasterAudio && clip.audioStartTime !== undefined && clip.audioEndTime !== undefined) {
+    return clip.audioEndTime - clip.audioStartTime;
+  }
+  return getClipVisualDuration(clip);
+};
+
+/**
+ * Lays the clips out back-to-back in sequence time, skipping empty clips.
+ */
+export const layoutSequence = (clips: Clip[], useMasterAudio: boolean): SequenceEntry[] => {
+  const entries: SequenceEntry[] = [];
+  let sequenceStart = 0;
+
+  for (const clip of clips) {
+    const duration = getClipSequenceDuration(clip, useMasterAudio);
+    if (duration <= 0) continue;
+
+    entries.push({
+      clip,
+      sequenceStart,
+      duration,
+      audioDriven: useMasterAudio && clip.audioStartTime !== undefined && clip.audioEndTime !== undefined
+    });
+    sequenceStart += duration;
+  }
+
+  return entries;
+};
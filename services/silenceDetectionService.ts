@@ -0,0 +1,252 @@
+import { AudioBufferSink } from 'mediabunny';
+import { SilenceDetectionSettings, TimelineEvent } from '../types';
+import { formatTime } from '../utils';
+import { openMediaInput } from './ffmpegService';
+
+// A span of source time, in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface SilenceDetectionProgress {
+  stage: 'audio' | 'visual';
+  progress: number; // 0.0 to 1.0
+}
+
+const RMS_WINDOW = 0.05; // Seconds per loudness measurement
+const FRAME_WIDTH = 64; // Frames are compared as tiny grayscale thumbnails
+const SEEK_TIMEOUT_MS = 5000;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Silence detection cancelled', 'AbortError');
+};
+
+/**
+ * Finds runs of consecutive "quiet" measurements lasting at least minDuration,
+ * then shrinks each run by padding on both sides so cuts never clip speech.
+ * `values[i]` covers [i * step, (i + 1) * step).
+ */
+export const findQuietRanges = (
+  values: number[],
+  step: number,
+  isQuiet: (value: number) => boolean,
+  minDuration: number,
+  padding: number,
+  offset: number = 0
+): TimeRange[] => {
+  const ranges: TimeRange[] = [];
+  let runStart = -1;
+
+  for (let i = 0; i <= values.length; i++) {
+    const quiet = i < values.length && isQuiet(values[i]);
+    if (quiet && runStart === -1) runStart = i;
+    if (!quiet && runStart !== -1) {
+      const start = offset + runStart * step;
+      const end = offset + i * step;
+      if (end - start >= minDuration && end - start > padding * 2) {
+        ranges.push({ start: start + padding, end: end - padding });
+      }
+      runStart = -1;
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * Intersects two sorted range lists.
+ */
+export const intersectRanges = (a: TimeRange[], b: TimeRange[]): TimeRange[] => {
+  const result: TimeRange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (end > start) result.push({ start, end });
+    if (a[i].end < b[j].end) i++; else j++;
+  }
+  return result;
+};
+
+/**
+ * RMS loudness (dBFS) of the media's audio track, one value per RMS_WINDOW. The track is
+ * decoded a buffer at a time, so long recordings never have to fit in memory. Channels are
+ * mixed down so a silent channel doesn't hide speech on the other.
+ */
+export const measureAudioLevels = async (media: Blob | string, signal?: AbortSignal): Promise<number[]> => {
+  const input = openMediaInput(media);
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track || !(await track.canDecode())) throw new Error("This browser cannot decode the video's audio");
+    const sampleRate = await track.getSampleRate();
+    const samplesPerWindow = Math.max(1, Math.round(RMS_WINDOW * sampleRate));
+    const levels: number[] = [];
+    let sum = 0;
+    let count = 0;
+    const flush = () => {
+      const rms = count > 0 ? Math.sqrt(sum / count) : 0;
+      levels.push(rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+      sum = 0;
+      count = 0;
+    };
+
+    for await (const { buffer, timestamp } of new AudioBufferSink(track).buffers()) {
+      throwIfAborted(signal);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+      const first = Math.max(0, Math.round(timestamp * sampleRate));
+      for (let i = 0; i < buffer.length; i++) {
+        // Gaps between buffers count as silence
+        while (levels.length < Math.floor((first + i) / samplesPerWindow)) flush();
+        for (const data of channels) sum += data[i] * data[i];
+        count += channels.length;
+      }
+    }
+    if (count > 0) flush();
+    return levels;
+  } finally {
+    input.dispose();
+  }
+};
+
+const seekTo = (video: HTMLVideoElement, time: number) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Video seek timeout')), SEEK_TIMEOUT_MS);
+  video.onseeked = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  video.currentTime = time;
+});
+
+/**
+ * Samples frames inside each range and returns the sub-ranges where the picture barely changes.
+ * Frames are compared as small grayscale thumbnails (mean absolute difference, 0-1).
+ */
+export const findStaticRanges = async (
+  videoUrl: string,
+  ranges: TimeRange[],
+  settings: SilenceDetectionSettings,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<TimeRange[]> => {
+  if (ranges.length === 0) return [];
+
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = videoUrl;
+
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error('Failed to load video'));
+  });
+
+  const height = Math.max(1, Math.round(FRAME_WIDTH * (video.videoHeight / video.videoWidth || 9 / 16)));
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const readGray = (): Float32Array => {
+    ctx.drawImage(video, 0, 0, FRAME_WIDTH, height);
+    const { data } = ctx.getImageData(0, 0, FRAME_WIDTH, height);
+    const gray = new Float32Array(FRAME_WIDTH * height);
+    for (let p = 0; p < gray.length; p++) {
+      gray[p] = (data[p * 4] * 0.299 + data[p * 4 + 1] * 0.587 + data[p * 4 + 2] * 0.114) / 255;
+    }
+    return gray;
+  };
+
+  const totalDuration = ranges.reduce((acc, r) => acc + (r.end - r.start), 0);
+  let scanned = 0;
+  const staticRanges: TimeRange[] = [];
+
+  try {
+    for (const range of ranges) {
+      // diffs[i] compares the frame at range.start + i*step with the next one
+      const diffs: number[] = [];
+      const step = settings.frameInterval;
+      let previous: Float32Array | null = null;
+
+      for (let t = range.start; t <= range.end; t += step) {
+        throwIfAborted(signal);
+        await seekTo(video, t);
+        const frame = readGray();
+        if (previous) {
+          let total = 0;
+          for (let p = 0; p < frame.length; p++) total += Math.abs(frame[p] - previous[p]);
+          diffs.push(total / frame.length);
+        }
+        previous = frame;
+        onProgress?.(Math.min(1, (scanned + (t - range.start)) / totalDuration));
+      }
+      scanned += range.end - range.start;
+
+      staticRanges.push(...findQuietRanges(
+        diffs,
+        step,
+        diff => diff < settings.frameDiffThreshold,
+        settings.minDuration,
+        0,
+        range.start
+      ));
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+
+  return staticRanges;
+};
+
+/**
+ * Local dead-air detection: an RMS pass over the decoded audio finds silence, then
+ * (optionally) a frame-difference pass keeps only the parts where the screen is also static.
+ * Returns `silence` TimelineEvents, the same shape detectSilenceAndInactivity produces.
+ */
+export const detectSilenceLocally = async (
+  media: Blob | string, // A local file, or a URL read through range requests
+  videoUrl: string,
+  settings: SilenceDetectionSettings,
+  onProgress?: (progress: SilenceDetectionProgress) => void,
+  signal?: AbortSignal
+): Promise<TimelineEvent[]> => {
+  onProgress?.({ stage: 'audio', progress: 0 });
+  const levels = await measureAudioLevels(media, signal);
+  const silentRanges = findQuietRanges(
+    levels,
+    RMS_WINDOW,
+    level => level < settings.thresholdDb,
+    settings.minDuration,
+    settings.padding
+  );
+  onProgress?.({ stage: 'audio', progress: 1 });
+
+  let ranges = silentRanges;
+  if (settings.requireStaticScreen) {
+    const staticRanges = await findStaticRanges(
+      videoUrl,
+      silentRanges,
+      settings,
+      progress => onProgress?.({ stage: 'visual', progress }),
+      signal
+    );
+    ranges = intersectRanges(silentRanges, staticRanges).filter(r => r.end - r.start >= settings.minDuration);
+  }
+
+  return ranges.map(r => {
+    const duration = Math.round((r.end - r.start) * 100) / 100;
+    return {
+      timestamp: formatTime(r.start),
+      seconds: Math.round(r.start * 100) / 100,
+      duration,
+      type: 'silence' as const,
+      description: settings.requireStaticScreen
+        ? `Silence and static screen (${duration.toFixed(1)}s).`
+        : `Silence below ${settings.thresholdDb} dB (${duration.toFixed(1)}s).`
+    };
+  });
+};
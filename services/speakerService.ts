@@ -0,0 +1,42 @@
+import { AppSettings, Clip, Speaker, TimelineEvent } from '../types';
+
+/**
+ * Speakers come from Gemini's diarisation labels on audio events and clips ("S1", "S2", ...).
+ * Their names and voices live in the project settings, keyed by label.
+ */
+
+/**
+ * Labels in order of first appearance.
+ */
+export const getSpeakerLabels = (clips: Clip[]): string[] => {
+  const labels: string[] = [];
+  for (const clip of clips) {
+    if (clip.speaker && !labels.includes(clip.speaker)) labels.push(clip.speaker);
+  }
+  return labels;
+};
+
+/**
+ * Every speaker present in the clips, with saved names and voices applied.
+ */
+export const resolveSpeakers = (clips: Clip[], saved: Speaker[]): Speaker[] =>
+  getSpeakerLabels(clips).map((id, i) => saved.find(s => s.id === id) ?? { id, name: `Speaker ${i + 1}`, voiceId: null });
+
+/**
+ * Voice settings for a clip: its speaker's voice when one is assigned, the project voice otherwise.
+ */
+export const getClipVoiceSettings = (clip: Clip, settings: AppSettings): AppSettings => {
+  const voiceId = settings.speakers?.find(s => s.id === clip.speaker)?.voiceId;
+  return voiceId ? { ...settings, elevenLabsVoiceId: voiceId } : settings;
+};
+
+export const updateSpeaker = (saved: Speaker[], speaker: Speaker): Speaker[] =>
+  saved.some(s => s.id === speaker.id) ? saved.map(s => (s.id === speaker.id ? speaker : s)) : [...saved, speaker];
+
+/**
+ * Folds one label into another, e.g. when long-video windows labelled the same person twice.
+ */
+export const mergeSpeakerLabels = (clips: Clip[], events: TimelineEvent[], from: string, to: string) => ({
+  clips: clips.map(c => (c.speaker === from ? { ...c, speaker: to } : c)),
+  timelineEvents: events.map(e => (e.speaker === from ? { ...e, speaker: to } : e))
+});
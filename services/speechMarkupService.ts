@@ -0,0 +1,131 @@
+import { PronunciationEntry } from '../types';
+import type { AlignmentData } from './elevenLabsService';
+
+/**
+ * Turns a script into the text ElevenLabs is sent, and maps the returned alignment back onto
+ * the script so captions show what was written rather than what was sent.
+ *
+ * Script markup:
+ * - `[pause]` or `[pause 1.5s]` inserts a break (default 0.6s, at most 3s)
+ * - `*words*` are emphasised (sent in capitals, which ElevenLabs reads with more stress)
+ *
+ * Lexicon terms are matched as whole words, case-insensitively. A term with a phoneme is sent
+ * as an SSML phoneme tag on models that support them; otherwise its alias respelling is sent.
+ */
+
+// One run of the script and what is sent for it
+export interface SpeechPiece {
+  sent: string;
+  display: string; // What captions should show; empty for breaks
+}
+
+const DEFAULT_PAUSE = 0.6;
+const MAX_PAUSE = 3; // ElevenLabs ignores longer breaks
+const MARKUP_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*s?)?\]|\*([^*\n]+)\*/gi;
+
+// Other models silently skip words wrapped in phoneme tags
+const PHONEME_MODELS = ['eleven_flash_v2', 'eleven_turbo_v2', 'eleven_monolingual_v1'];
+
+export const supportsPhonemes = (modelId: string) => PHONEME_MODELS.includes(modelId);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const escapeAttribute = (text: string) => text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * The script as plain text: markup removed, emphasised words kept.
+ */
+export const stripSpeechMarkup = (text: string): string =>
+  text.replace(MARKUP_PATTERN, (_, __, emphasised) => emphasised ?? ' ').replace(/[ \t]{2,}/g, ' ').trim();
+
+const applyLexicon = (text: string, lexicon: PronunciationEntry[], modelId: string): SpeechPiece[] => {
+  const entries = lexicon
+    .filter(e => e.term.trim() && (e.alias.trim() || (e.phoneme?.trim() && supportsPhonemes(modelId))))
+    .sort((a, b) => b.term.length - a.term.length); // "Gemini 3" before "Gemini"
+  if (entries.length === 0) return text ? [{ sent: text, display: text }] : [];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${entries.map(e => escapeRegExp(e.term.trim())).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  const pieces: SpeechPiece[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const entry = entries.find(e => e.term.trim().toLowerCase() === match[0].toLowerCase())!;
+    if (match.index! > last) pieces.push({ sent: text.slice(last, match.index), display: text.slice(last, match.index) });
+    const phoneme = entry.phoneme?.trim();
+    pieces.push({
+      sent: phoneme && supportsPhonemes(modelId)
+        ? `<phoneme alphabet="ipa" ph="${escapeAttribute(phoneme)}">${match[0]}</phoneme>`
+        : entry.alias.trim(),
+      display: match[0]
+    });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) pieces.push({ sent: text.slice(last), display: text.slice(last) });
+  return pieces;
+};
+
+/**
+ * Splits a script into what to send and what to show, applying markup and the lexicon.
+ */
+export const prepareSpeechPieces = (text: string, lexicon: PronunciationEntry[], modelId: string): SpeechPiece[] => {
+  const pieces: SpeechPiece[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    pieces.push(...applyLexicon(text.slice(last, match.index), lexicon, modelId));
+    const [, pause, emphasised] = match;
+    if (emphasised !== undefined) {
+      pieces.push(...applyLexicon(emphasised, lexicon, modelId).map(p => ({
+        ...p,
+        sent: p.sent.startsWith('<') ? p.sent : p.sent.toUpperCase()
+      })));
+    } else {
+      const seconds = Math.min(MAX_PAUSE, pause ? parseFloat(pause) : DEFAULT_PAUSE);
+      pieces.push({ sent: ` <break time="${seconds}s" /> `, display: ' ' });
+    }
+    last = match.index! + match[0].length;
+  }
+  pieces.push(...applyLexicon(text.slice(last), lexicon, modelId));
+  return pieces;
+};
+
+export const joinSentText = (pieces: SpeechPiece[]): string => pieces.map(p => p.sent).join('');
+
+/**
+ * Rewrites an alignment of the sent text into one of the displayed text. Unchanged runs keep
+ * their character timings; substituted runs spread their time evenly over the original term.
+ * If the alignment doesn't cover the sent text exactly, it is returned with tags removed.
+ */
+export const restoreAlignment = (alignment: AlignmentData, pieces: SpeechPiece[]): AlignmentData => {
+  const restored: AlignmentData = { characters: [], character_start_times_seconds: [], character_end_times_seconds: [] };
+  const push = (char: string, start: number, end: number) => {
+    restored.characters.push(char);
+    restored.character_start_times_seconds.push(start);
+    restored.character_end_times_seconds.push(end);
+  };
+  const starts = alignment.character_start_times_seconds;
+  const ends = alignment.character_end_times_seconds;
+
+  if (alignment.characters.join('') !== joinSentText(pieces)) {
+    let inTag = false;
+    alignment.characters.forEach((char, i) => {
+      if (char === '<') inTag = true;
+      if (!inTag) push(char, starts[i], ends[i]);
+      if (char === '>') inTag = false;
+    });
+    return restored;
+  }
+
+  let index = 0;
+  for (const { sent, display } of pieces) {
+    // Alignment entries are characters, which may be longer than one UTF-16 unit
+    const from = index;
+    for (let consumed = 0; consumed < sent.length; ) consumed += alignment.characters[index++].length;
+    if (index === from || display.length === 0) continue;
+    if (sent === display) {
+      for (let i = from; i < index; i++) push(alignment.characters[i], starts[i], ends[i]);
+      continue;
+    }
+    const start = starts[from];
+    const step = (ends[index - 1] - start) / display.length;
+    [...display].forEach((char, i) => push(char, start + i * step, start + (i + 1) * step));
+  }
+  return restored;
+};
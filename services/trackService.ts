@@ -0,0 +1,185 @@
+import { ItemRect, TimelineTrack, TrackItem, TrackType } from '../types';
+import { generateId } from '../utils';
+
+// Pixel rectangle on the output frame
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const TRACK_TYPE_LABELS: Record<TrackType, string> = {
+  video: 'B-roll',
+  audio: 'Sound',
+  music: 'Music',
+  image: 'Logo',
+  text: 'Lower third'
+};
+
+// Where new items land: B-roll covers the frame, logos sit top-right, lower-thirds bottom-left
+const DEFAULT_RECTS: Record<TrackType, ItemRect> = {
+  video: { x: 0, y: 0, width: 1, height: 1 },
+  audio: { x: 0, y: 0, width: 0, height: 0 },
+  music: { x: 0, y: 0, width: 0, height: 0 },
+  image: { x: 0.82, y: 0.04, width: 0.14, height: 0.14 },
+  text: { x: 0.05, y: 0.72, width: 0.5, height: 0.14 }
+};
+
+// A new music bed fades in and out and dips under narration
+export const DEFAULT_MUSIC_DUCK = 0.3;
+const MUSIC_DEFAULTS: Partial<TrackItem> = { volume: 0.3, mediaStart: 0, loop: true, fadeIn: 2, fadeOut: 3, duckUnderSpeech: DEFAULT_MUSIC_DUCK };
+
+const LOWER_THIRD_BACKGROUND = 'rgba(0, 0, 0, 0.65)';
+const LOWER_THIRD_ACCENT = '#6366f1';
+
+/**
+ * A new, empty track. Tracks are drawn in array order, so later tracks sit on top.
+ */
+export const createTrack = (type: TrackType, name?: string): TimelineTrack => ({
+  id: generateId(),
+  name: name || TRACK_TYPE_LABELS[type],
+  type,
+  items: []
+});
+
+export const createTrackItem = (type: TrackType, start: number, duration: number, extra: Partial<TrackItem> = {}): TrackItem => ({
+  id: generateId(),
+  type,
+  start,
+  duration,
+  ...(type === 'audio' || type === 'video' ? { volume: type === 'audio' ? 0.3 : 1, mediaStart: 0 } : {}),
+  ...(type === 'music' ? MUSIC_DEFAULTS : {}),
+  ...extra
+});
+
+// Tracks that are heard but never drawn
+export const isAudioOnlyType = (type: TrackType): boolean => type === 'audio' || type === 'music';
+
+export const hasSoundType = (type: TrackType): boolean => isAudioOnlyType(type) || type === 'video';
+
+export const getItemRect = (item: TrackItem): ItemRect => item.rect ?? DEFAULT_RECTS[item.type];
+
+export const getItemEnd = (item: TrackItem): number => item.start + item.duration;
+
+export const isItemActiveAt = (item: TrackItem, time: number): boolean => {
+  return time >= item.start && time < getItemEnd(item);
+};
+
+/**
+ * Tracks whose sound is heard: any soloed tracks win, muted tracks never play.
+ */
+export const getAudibleTracks = (tracks: TimelineTrack[]): TimelineTrack[] => {
+  const withSound = tracks.filter(t => hasSoundType(t.type));
+  const soloed = withSound.filter(t => t.solo);
+  return (soloed.length > 0 ? soloed : withSound).filter(t => !t.muted);
+};
+
+/**
+ * Tracks drawn over the clip sequence, bottom to top.
+ */
+export const getVisibleTracks = (tracks: TimelineTrack[]): TimelineTrack[] => {
+  return tracks.filter(t => !isAudioOnlyType(t.type) && !t.hidden);
+};
+
+/**
+ * Stretches an item over the whole sequence; looping music repeats to fill it, otherwise
+ * it is trimmed to whichever is shorter.
+ */
+export const fitItemToSequence = (item: TrackItem, sequenceDuration: number): TrackItem => {
+  const available = item.mediaDuration ? item.mediaDuration - (item.mediaStart ?? 0) : sequenceDuration;
+  return { ...item, start: 0, duration: item.loop ? sequenceDuration : Math.min(sequenceDuration, available) };
+};
+
+/**
+ * Position in the asset that plays at a sequence time, wrapping around for looping items.
+ * `mediaDuration` overrides the stored length (e.g. with the decoded buffer's).
+ */
+export const getItemMediaTime = (item: TrackItem, sequenceTime: number, mediaDuration = item.mediaDuration): number => {
+  const mediaStart = item.mediaStart ?? 0;
+  const elapsed = sequenceTime - item.start;
+  const loopLength = mediaDuration ? mediaDuration - mediaStart : 0;
+  return mediaStart + (item.loop && loopLength > 0 ? elapsed % loopLength : elapsed);
+};
+
+/**
+ * Moves a track one step up (drawn later, on top) or down in the z-order.
+ */
+export const moveTrack = (tracks: TimelineTrack[], trackId: string, direction: 'up' | 'down'): TimelineTrack[] => {
+  const index = tracks.findIndex(t => t.id === trackId);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index === -1 || target < 0 || target >= tracks.length) return tracks;
+  const next = [...tracks];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * Converts a normalized item rect to output pixels.
+ */
+export const toPixelRect = (rect: ItemRect, width: number, height: number): PixelRect => ({
+  x: rect.x * width,
+  y: rect.y * height,
+  width: rect.width * width,
+  height: rect.height * height
+});
+
+/**
+ * Fits media of the given size into a box: 'contain' letterboxes, 'cover' fills and overflows.
+ */
+export const fitIntoRect = (mediaWidth: number, mediaHeight: number, box: PixelRect, mode: 'contain' | 'cover'): PixelRect => {
+  const scale = mode === 'contain'
+    ? Math.min(box.width / mediaWidth, box.height / mediaHeight)
+    : Math.max(box.width / mediaWidth, box.height / mediaHeight);
+  const width = mediaWidth * scale;
+  const height = mediaHeight * scale;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+};
+
+/**
+ * Draws a lower-third (title + optional subtitle on a translucent bar) onto a frame.
+ */
+export const drawTextItem = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  item: TrackItem,
+  width: number,
+  height: number
+) => {
+  const box = toPixelRect(getItemRect(item), width, height);
+  const titleSize = Math.round(box.height * (item.subtitle ? 0.38 : 0.5));
+  const subtitleSize = Math.round(box.height * 0.24);
+  const padding = box.height * 0.15;
+
+  ctx.save();
+  ctx.globalAlpha = item.opacity ?? 1;
+  ctx.fillStyle = LOWER_THIRD_BACKGROUND;
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+  ctx.fillStyle = LOWER_THIRD_ACCENT;
+  ctx.fillRect(box.x, box.y, Math.max(2, box.height * 0.06), box.height);
+
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `700 ${titleSize}px Inter, Helvetica, Arial, sans-serif`;
+  const textX = box.x + padding * 1.5;
+  const maxWidth = box.width - padding * 2.5;
+  if (item.subtitle) {
+    ctx.fillText(item.text || '', textX, box.y + box.height * 0.36, maxWidth);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.font = `500 ${subtitleSize}px Inter, Helvetica, Arial, sans-serif`;
+    ctx.fillText(item.subtitle, textX, box.y + box.height * 0.72, maxWidth);
+  } else {
+    ctx.fillText(item.text || '', textX, box.y + box.height / 2, maxWidth);
+  }
+  ctx.restore();
+};
+
+/**
+ * Reads the duration of an audio/video asset from its metadata. Resolves to 0 when it can't be read.
+ */
+export const readMediaDuration = (url: string, kind: 'audio' | 'video'): Promise<number> => new Promise(resolve => {
+  const element = document.createElement(kind);
+  element.preload = 'metadata';
+  element.onloadedmetadata = () => resolve(Number.isFinite(element.duration) ? element.duration : 0);
+  element.onerror = () => resolve(0);
+  element.src = url;
+});
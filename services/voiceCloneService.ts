@@ -0,0 +1,114 @@
+import { AudioBufferSink } from 'mediabunny';
+import { TimelineEvent } from '../types';
+import { audioBufferToWav } from '../utils';
+import { TimeRange } from './silenceDetectionService';
+import { openMediaInput, readTrackRange } from './ffmpegService';
+
+/**
+ * Picks clean narration out of the source video for ElevenLabs instant voice cloning:
+ * speech segments from the analysed timeline, minus anything marked as a redundancy or
+ * silence, exported as a few short WAV samples.
+ */
+
+export const MIN_CLONE_SECONDS = 30; // ElevenLabs needs at least this much speech to clone well
+const TARGET_CLONE_SECONDS = 150; // More than a couple of minutes doesn't improve instant clones
+const MIN_PIECE_SECONDS = 2; // Shorter fragments are mostly breaths and cut-off words
+const EDGE_TRIM = 0.1; // Keeps segment boundaries from clipping a neighbouring word
+const SAMPLE_MAX_SECONDS = 60; // Keeps each upload well under the per-file size limit
+const SAMPLE_GAP = 0.3;
+const SAMPLE_RATE = 22050;
+
+const subtractRanges = (range: TimeRange, cuts: TimeRange[]): TimeRange[] => {
+  let pieces = [range];
+  for (const cut of cuts) {
+    pieces = pieces.flatMap(p => {
+      if (cut.end <= p.start || cut.start >= p.end) return [p];
+      return [{ start: p.start, end: cut.start }, { start: cut.end, end: p.end }].filter(r => r.end > r.start);
+    });
+  }
+  return pieces;
+};
+
+/**
+ * Speech ranges worth sampling, longest first up to the target length, returned in time order.
+ */
+export const selectCloneRanges = (events: TimelineEvent[]): TimeRange[] => {
+  const cuts = events
+    .filter(e => (e.type === 'redundancy' || e.type === 'silence') && e.duration)
+    .map(e => ({ start: e.seconds, end: e.seconds + e.duration! }));
+
+  const candidates = events
+    .filter(e => e.type === 'audio' && e.duration)
+    .flatMap(e => subtractRanges({ start: e.seconds + EDGE_TRIM, end: e.seconds + e.duration! - EDGE_TRIM }, cuts))
+    .filter(r => r.end - r.start >= MIN_PIECE_SECONDS)
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+  const selected: TimeRange[] = [];
+  let total = 0;
+  for (const range of candidates) {
+    if (total >= TARGET_CLONE_SECONDS) break;
+    selected.push(range);
+    total += range.end - range.start;
+  }
+  return selected.sort((a, b) => a.start - b.start);
+};
+
+export const totalRangeSeconds = (ranges: TimeRange[]) => ranges.reduce((acc, r) => acc + r.end - r.start, 0);
+
+/**
+ * Cuts the ranges out of the media's audio (mixed to mono) and packs them into WAV samples
+ * of at most SAMPLE_MAX_SECONDS, with a short pause between pieces. Only the selected ranges
+ * are decoded (and, for a URL, downloaded), so long recordings never have to fit in memory.
+ */
+export const extractCloneSamples = async (media: Blob | string, ranges: TimeRange[], signal?: AbortSignal): Promise<Blob[]> => {
+  const input = openMediaInput(media);
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track || !(await track.canDecode())) throw new Error("This browser cannot decode the video's audio");
+    const sink = new AudioBufferSink(track);
+    const sourceRate = await track.getSampleRate();
+    const numberOfChannels = await track.getNumberOfChannels();
+    const step = sourceRate / SAMPLE_RATE;
+    const gapSamples = Math.round(SAMPLE_GAP * SAMPLE_RATE);
+
+    // Group ranges into samples first so every buffer can be allocated at its final size
+    const groups: TimeRange[][] = [];
+    for (const range of ranges) {
+      const current = groups[groups.length - 1];
+      if (current && totalRangeSeconds(current) + (range.end - range.start) <= SAMPLE_MAX_SECONDS) current.push(range);
+      else groups.push([range]);
+    }
+
+    const samples: Blob[] = [];
+    for (const group of groups) {
+      const spans = group
+        .map(r => ({ start: Math.max(0, r.start), length: Math.round((r.end - Math.max(0, r.start)) * SAMPLE_RATE) }))
+        .filter(s => s.length > 0);
+      const length = spans.reduce((acc, s) => acc + s.length, 0) + gapSamples * Math.max(0, spans.length - 1);
+      const sample = new AudioBuffer({ length: Math.max(1, length), numberOfChannels: 1, sampleRate: SAMPLE_RATE });
+      const out = sample.getChannelData(0);
+
+      let offset = 0;
+      for (const span of spans) {
+        signal?.throwIfAborted();
+        const channels = await readTrackRange(sink, sourceRate, numberOfChannels, span.start, span.length / SAMPLE_RATE);
+        // Mix down and resample linearly to the sample rate
+        for (let i = 0; i < span.length; i++) {
+          const position = i * step;
+          const index = Math.floor(position);
+          let sum = 0;
+          for (const data of channels) {
+            const next = Math.min(index + 1, data.length - 1);
+            sum += data[index] + (data[next] - data[index]) * (position - index);
+          }
+          out[offset + i] = sum / channels.length;
+        }
+        offset += span.length + gapSamples;
+      }
+      samples.push(audioBufferToWav(sample));
+    }
+    return samples;
+  } finally {
+    input.dispose();
+  }
+};
@@ -0,0 +1,215 @@
+import { AppSettings, Clip, TimedWord, VoiceoverSegment } from '../types';
+import { audioBufferToWav, base64ToArrayBuffer } from '../utils';
+import { describeAlignmentIssues, mapSegmentsToAlignment } from './alignmentService';
+import { alignmentToWords } from './captionService';
+import { generateSpeechWithTimestamps, prepareSpeechText } from './elevenLabsService';
+import { joinSentText, stripSpeechMarkup } from './speechMarkupService';
+import { getClipVoiceSettings } from './speakerService';
+import { getClipAudioMix } from './audioMixService';
+import { getClipVisualDuration } from './sequenceService';
+import { encodeAudioFile } from './ffmpegService';
+
+// One clip's share of the assembled Master Audio
+export interface VoiceoverPlacement {
+  clipId: string;
+  segment: VoiceoverSegment | null; // Null for clips that keep their original audio instead
+  blob: Blob | null;
+  synthesized: boolean; // False when an existing segment was reused
+  audioStart: number; // Master Audio time
+  audioEnd: number; // Extends to the next clip's start so the pause belongs to this clip
+  words: TimedWord[]; // Master Audio time
+}
+
+export interface AssembledVoiceover {
+  masterBlob: Blob; // M4A, or WAV where the browser cannot encode compressed audio
+  placements: VoiceoverPlacement[];
+  alignmentIssues: string[]; // Newly synthesized clips whose timings don't match their script
+}
+
+const SEGMENT_GAP = 0.35; // Seconds of silence between clips in the master track
+const TAIL_PADDING = 0.5; // The last clip keeps a short breath at the end
+const ASSEMBLY_SAMPLE_RATE = 44100;
+
+interface CachedSegment {
+  segment: VoiceoverSegment;
+  blob: Blob;
+}
+
+// Session cache so undo/redo or re-generation never pays for the same segment twice
+const segmentCache = new Map<string, CachedSegment>();
+
+export const getClipScript = (clip: Clip): string => (clip.improvedTranscript || '').trim();
+
+// Clips set to their original audio (or without a script) get a silent span instead of speech
+const isVoiced = (clip: Clip): boolean => getClipAudioMix(clip).source !== 'original' && !!getClipScript(clip);
+
+/**
+ * Identifies a segment by what ElevenLabs would be asked to say and how. The neighbouring
+ * text is left out on purpose: editing one clip must not invalidate the clips around it.
+ * Hashing the sent text means a lexicon change only invalidates clips using the term.
+ */
+export const hashVoiceoverSegment = (text: string, settings: AppSettings): string => {
+  const key = JSON.stringify([
+    joinSentText(prepareSpeechText(text, settings)),
+    settings.elevenLabsVoiceId,
+    settings.elevenLabsModelId,
+    settings.elevenLabsStability,
+    settings.elevenLabsSimilarity,
+    settings.elevenLabsStyle,
+    settings.elevenLabsSpeakerBoost
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * The clip's existing segment, if it was generated from the same script and voice settings.
+ */
+const loadReusableSegment = async (clip: Clip, hash: string, signal?: AbortSignal): Promise<CachedSegment | null> => {
+  const cached = segmentCache.get(hash);
+  if (cached) return cached;
+  if (clip.voiceoverSegment?.hash !== hash || !clip.generatedAudioUrl) return null;
+  try {
+    const response = await fetch(clip.generatedAudioUrl, { signal });
+    if (!response.ok) return null;
+    const loaded = { segment: clip.voiceoverSegment, blob: await response.blob() };
+    segmentCache.set(hash, loaded);
+    return loaded;
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw error;
+    console.warn(`Voiceover segment for "${clip.title}" could not be loaded; regenerating`, error);
+    return null;
+  }
+};
+
+/**
+ * Builds the Master Audio from per-clip segments. Clips whose script and voice settings are
+ * unchanged reuse their segment; the rest are synthesized in their speaker's voice with their
+ * neighbours' text as context, then everything is decoded and laid end to end as a WAV.
+ */
+export const assembleVoiceover = async (
+  clips: Clip[],
+  apiKey: string,
+  settings: AppSettings,
+  options: { signal?: AbortSignal; onProgress?: (message: string, progress: number) => void } = {}
+): Promise<AssembledVoiceover> => {
+  const { signal, onProgress } = options;
+  const tasks = clips.filter(c => getClipScript(c) || getClipAudioMix(c).source === 'original');
+  if (!tasks.some(isVoiced)) throw new Error('No polished scripts to generate audio for.');
+
+  const segments: { clip: Clip; segment: VoiceoverSegment | null; blob: Blob | null; synthesized: boolean }[] = [];
+  let lastRequestIds: string[] = [];
+  let lastVoiceId: string | null = null;
+  const alignmentIssues: string[] = [];
+
+  for (let i = 0; i < tasks.length; i++) {
+    signal?.throwIfAborted();
+    const clip = tasks[i];
+    if (!isVoiced(clip)) {
+      segments.push({ clip, segment: null, blob: null, synthesized: false });
+      lastRequestIds = [];
+      continue;
+    }
+    const text = getClipScript(clip);
+    const voiceSettings = getClipVoiceSettings(clip, settings);
+    const hash = hashVoiceoverSegment(text, voiceSettings);
+
+    const reused = await loadReusableSegment(clip, hash, signal);
+    if (reused) {
+      segments.push({ clip, ...reused, synthesized: false });
+      lastRequestIds = []; // Only stitch to segments generated in this run
+      continue;
+    }
+
+    // Request stitching only carries prosody within one voice
+    if (voiceSettings.elevenLabsVoiceId !== lastVoiceId) lastRequestIds = [];
+    lastVoiceId = voiceSettings.elevenLabsVoiceId;
+
+    onProgress?.(`Synthesizing "${clip.title}"`, i / tasks.length);
+    const { audioBase64, alignment, requestId } = await generateSpeechWithTimestamps(apiKey, text, voiceSettings, {
+      previousText: i > 0 && isVoiced(tasks[i - 1]) ? stripSpeechMarkup(getClipScript(tasks[i - 1])) : undefined,
+      nextText: i < tasks.length - 1 && isVoiced(tasks[i + 1]) ? stripSpeechMarkup(getClipScript(tasks[i + 1])) : undefined,
+      previousRequestIds: lastRequestIds,
+      signal
+    });
+    lastRequestIds = requestId ? [...lastRequestIds, requestId] : [];
+    alignmentIssues.push(...describeAlignmentIssues(mapSegmentsToAlignment([stripSpeechMarkup(text)], alignment), [clip.title]));
+
+    const blob = new Blob([base64ToArrayBuffer(audioBase64)], { type: 'audio/mpeg' });
+    const ends = alignment.character_end_times_seconds;
+    const segment: VoiceoverSegment = { hash, duration: ends[ends.length - 1] || 0, words: alignmentToWords(alignment), storagePath: null };
+    segmentCache.set(hash, { segment, blob });
+    segments.push({ clip, segment, blob, synthesized: true });
+  }
+
+  onProgress?.('Assembling master track', 1);
+  const decoder = new OfflineAudioContext(1, 1, ASSEMBLY_SAMPLE_RATE);
+  const buffers: (AudioBuffer | null)[] = [];
+  for (const { blob } of segments) {
+    buffers.push(blob ? await decoder.decodeAudioData(await blob.arrayBuffer()) : null);
+  }
+
+  // Original audio plays at 1x, so its clip needs a span as long as the footage ('both' too,
+  // unless the voiceover is longer)
+  const spans = segments.map(({ clip }, i) => {
+    const buffer = buffers[i];
+    const footage = Math.round(getClipVisualDuration(clip) * ASSEMBLY_SAMPLE_RATE);
+    if (!buffer) return footage;
+    return getClipAudioMix(clip).source === 'both' ? Math.max(buffer.length, footage) : buffer.length;
+  });
+
+  const gapSamples = Math.round(SEGMENT_GAP * ASSEMBLY_SAMPLE_RATE);
+  const totalSamples = spans.reduce((acc, span) => acc + span, 0)
+    + gapSamples * (spans.length - 1)
+    + Math.round(TAIL_PADDING * ASSEMBLY_SAMPLE_RATE);
+  const master = new AudioBuffer({ length: totalSamples, numberOfChannels: 1, sampleRate: ASSEMBLY_SAMPLE_RATE });
+  const channel = master.getChannelData(0);
+
+  const starts: number[] = [];
+  let offset = 0;
+  buffers.forEach((buffer, i) => {
+    starts.push(offset / ASSEMBLY_SAMPLE_RATE);
+    // Downmix: segments are mono in practice, but don't assume it
+    for (let c = 0; c < (buffer?.numberOfChannels ?? 0); c++) {
+      const data = buffer!.getChannelData(c);
+      for (let s = 0; s < data.length; s++) channel[offset + s] += data[s] / buffer!.numberOfChannels;
+    }
+    offset += spans[i] + gapSamples;
+  });
+
+  const placements = segments.map(({ clip, segment, blob, synthesized }, i): VoiceoverPlacement => {
+    const audioStart = starts[i];
+    const audioEnd = i < segments.length - 1 ? starts[i + 1] : audioStart + spans[i] / ASSEMBLY_SAMPLE_RATE + TAIL_PADDING;
+    return {
+      clipId: clip.id,
+      segment: segment && { ...segment, duration: buffers[i]!.duration },
+      blob,
+      synthesized,
+      audioStart,
+      audioEnd,
+      words: (segment?.words ?? []).map(w => ({ ...w, start: w.start + audioStart, end: w.end + audioStart }))
+    };
+  });
+
+  let masterBlob: Blob;
+  try {
+    masterBlob = await encodeAudioFile(master);
+  } catch (encodeError) {
+    console.warn('Could not compress Master Audio, keeping it as WAV', encodeError);
+    masterBlob = audioBufferToWav(master);
+  }
+
+  return { masterBlob, placements, alignmentIssues };
+};
+
+/**
+ * Records where a segment was uploaded so later runs in this session reuse the stored copy.
+ */
+export const markSegmentStored = (hash: string, storagePath: string) => {
+  const cached = segmentCache.get(hash);
+  if (cached) segmentCache.set(hash, { ...cached, segment: { ...cached.segment, storagePath } });
+};
@@ -25,11 +25,48 @@ create table if not exists public.project_states (
   messages jsonb not null default '[]'::jsonb,
   clips jsonb not null default '[]'::jsonb,
   timeline_events jsonb not null default '[]'::jsonb,
+  tracks jsonb not null default '[]'::jsonb,
   settings jsonb not null default '{}'::jsonb,
   master_audio_meta jsonb,
   editor_meta jsonb,
   has_analyzed boolean default false,
   active_clip_id text,
+  active_sequence_id text,
+  created_at timestamptz not null default timezone('utc'::text, now()),
+  updated_at timestamptz not null default timezone('utc'::text, now())
+);
+
+-- Existing databases: overlay/music tracks were added after the first release
+alter table public.project_states add column if not exists tracks jsonb not null default '[]'::jsonb;
+
+-- Existing databases: which of the project's sequences is open in the editor
+alter table public.project_states add column if not exists active_sequence_id text;
+
+-- Named versions of the edit ("Full", "YouTube cut", "Reel"), each with its own clips, voiceover
+-- and export settings. The open one is also mirrored into project_states.clips.
+create table if not exists public.project_sequences (
+  id text not null,
+  project_id uuid not null references public.projects(id) on delete cascade,
+  name text not null,
+  clips jsonb not null default '[]'::jsonb,
+  master_audio_meta jsonb,
+  export_settings jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc'::text, now()),
+  updated_at timestamptz not null default timezone('utc'::text, now()),
+  primary key (project_id, id)
+);
+
+-- Background AI jobs, kept so interrupted work (e.g. a long deep scan) can be resumed
+create table if not exists public.project_jobs (
+  id text primary key,
+  project_id uuid not null references public.projects(id) on delete cascade,
+  kind text not null,
+  label text not null,
+  status text not null,
+  progress real,
+  message text not null default '',
+  error text,
+  checkpoint jsonb,
   created_at timestamptz not null default timezone('utc'::text, now()),
   updated_at timestamptz not null default timezone('utc'::text, now())
 );
@@ -61,6 +98,14 @@ create trigger project_states_set_updated_at
 before update on public.project_states
 for each row execute procedure public.set_current_timestamp_updated_at();
 
+create trigger project_jobs_set_updated_at
+before update on public.project_jobs
+for each row execute procedure public.set_current_timestamp_updated_at();
+
+create trigger project_sequences_set_updated_at
+before update on public.project_sequences
+for each row execute procedure public.set_current_timestamp_updated_at();
+
 create trigger user_settings_set_updated_at
 before update on public.user_settings
 for each row execute procedure public.set_current_timestamp_updated_at();
@@ -68,6 +113,8 @@ for each row execute procedure public.set_current_timestamp_updated_at();
 -- Enable Row Level Security
 alter table public.projects enable row level security;
 alter table public.project_states enable row level security;
+alter table public.project_jobs enable row level security;
+alter table public.project_sequences enable row level security;
 alter table public.user_settings enable row level security;
 
 -- RLS Policies for projects (users can only access their own projects)
@@ -136,6 +183,42 @@ create policy "Users can delete their own project states"
     )
   );
 
+-- RLS Policy for project_jobs (inherits access from projects table)
+create policy "Users can manage their own project jobs"
+  on public.project_jobs for all
+  using (
+    exists (
+      select 1 from public.projects
+      where projects.id = project_jobs.project_id
+      and projects.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.projects
+      where projects.id = project_jobs.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy for project_sequences (inherits access from projects table)
+create policy "Users can manage their own project sequences"
+  on public.project_sequences for all
+  using (
+    exists (
+      select 1 from public.projects
+      where projects.id = project_sequences.project_id
+      and projects.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.projects
+      where projects.id = project_sequences.project_id
+      and projects.user_id = auth.uid()
+    )
+  );
+
 -- RLS Policies for user_settings (users can only access their own settings)
 create policy "Users can view their own settings"
   on public.user_settings for select
@@ -157,3 +240,4 @@ create policy "Users can delete their own settings"
 -- Create index for faster user lookups
 create index if not exists projects_user_id_idx on public.projects(user_id);
 create index if not exists user_settings_user_id_idx on public.user_settings(user_id);
+create index if not exists project_jobs_project_id_idx on public.project_jobs(project_id);
@@ -31,8 +31,16 @@ export interface TimelineEvent {
   timestamp: string; // "MM:SS"
   seconds: number;
   duration?: number; // Duration in seconds (for ranges like silence)
-  type: 'visual' | 'audio' | 'redundancy' | 'silence';
+  type: 'visual' | 'audio' | 'redundancy' | 'silence' | 'context_switch';
   description: string;
+  position?: { x: number; y: number }; // Visual events: cursor/click location, normalized 0-1
+  words?: TimedWord[]; // Audio events: word timings in source seconds
+  // Context-aware analysis
+  isParallelAction?: boolean; // Done while waiting for something else
+  context?: string; // "main_workflow" | "settings_detour" | "waiting_interlude"
+  contextId?: string; // Groups the events of one (possibly interrupted) workflow
+  intent?: string; // What the user is trying to achieve at this moment
+  speaker?: string; // Diarisation label ("S1", "S2", ...) on audio events
 }
 
 export interface VisualFragment {
@@ -48,12 +56,189 @@ export interface Clip {
   description?: string;
   transcript?: string;
   improvedTranscript?: string; // AI-rewritten professional version
-  generatedAudioUrl?: string; // Legacy: individual clip audio. Now largely superseded by Master Audio.
+  generatedAudioUrl?: string; // This clip's voiceover segment; segments are assembled into Master Audio
+  voiceoverSegment?: VoiceoverSegment;
   audioStartTime?: number; // Start time in the Master Audio file
   audioEndTime?: number;   // End time in the Master Audio file
   redundancies?: TimelineEvent[]; // Specific issues found in this clip
   videoRate?: number; // Playback rate multiplier
   visualFragments?: VisualFragment[]; // Non-linear segments to play for this clip
+  cropKeyframes?: CropKeyframe[]; // Pan path used when exporting to a different aspect ratio
+  voiceoverWords?: TimedWord[]; // Word timings in Master Audio time (from ElevenLabs alignment)
+  words?: TranscriptWord[]; // Word timings of the original speech, in source video time
+  speaker?: string; // Speaker label from analysis; see AppSettings.speakers
+  audioMix?: ClipAudioMix; // Master Audio mode only; unset = voiceover only
+  chapterTitle?: string; // Set on the clip that starts a chapter; it lasts until the next one
+}
+
+// Which audio a clip plays when Master Audio drives the edit
+export type ClipAudioSource = 'voiceover' | 'original' | 'both';
+
+export interface ClipAudioMix {
+  source: ClipAudioSource;
+  voiceoverVolume: number; // 0.0 to 1.0
+  originalVolume: number; // 0.0 to 1.0
+  duckOriginal: number; // Gain (0.0 to 1.0) on the original while the voiceover speaks ('both')
+}
+
+// What generatedAudioUrl holds, so unchanged clips can be reused instead of re-synthesized
+export interface VoiceoverSegment {
+  hash: string; // Script text + voice settings
+  duration: number;
+  words: TimedWord[]; // Segment-local word timings
+  storagePath: string | null; // Supabase storage path (null while only a local blob URL exists)
+}
+
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A transcript word; deleted words are cut out of the clip via visualFragments
+export interface TranscriptWord extends TimedWord {
+  deleted?: boolean;
+}
+
+// Centre of the crop window at a point in SOURCE video time. x/y are normalized 0-1.
+export interface CropKeyframe {
+  time: number;
+  x: number;
+  y: number;
+  zoom?: number; // 1 = largest window of the target aspect that fits the frame
+}
+
+// Reference to the generated master voiceover track
+export interface MasterAudioRef {
+  url: string;
+  storagePath: string | null; // Supabase storage path (null while only a local blob URL exists)
+  mimeType: string | null;
+}
+
+// Extra timeline tracks layered over the clip sequence (music bed, sounds, logos, lower-thirds, B-roll)
+export type TrackType = 'video' | 'audio' | 'music' | 'image' | 'text';
+
+// Frame placement of a visual item, normalized 0-1 (x/y = top-left corner)
+export interface ItemRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrackItem {
+  id: string;
+  type: TrackType;
+  start: number; // Sequence (output) time in seconds
+  duration: number;
+  label?: string;
+  // Media items (video, audio, image)
+  assetUrl?: string;
+  assetStoragePath?: string | null; // Supabase storage path; assetUrl is re-resolved from it on load
+  mimeType?: string;
+  mediaStart?: number; // Offset into the asset where playback begins
+  volume?: number; // 0.0 to 1.0 (video, audio and music items)
+  // Music items
+  mediaDuration?: number; // Length of the asset in seconds, needed to loop it
+  loop?: boolean; // Repeat the asset (from mediaStart) until the item ends
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Seconds, ending where the item or the sequence ends
+  duckUnderSpeech?: number; // Gain (0-1) applied while someone speaks; undefined = no ducking
+  // Visual items (video, image, text)
+  rect?: ItemRect; // Defaults per type (see trackService)
+  opacity?: number;
+  // Text items
+  text?: string;
+  subtitle?: string;
+}
+
+export interface TimelineTrack {
+  id: string;
+  name: string;
+  type: TrackType;
+  items: TrackItem[];
+  muted?: boolean;
+  solo?: boolean;
+  locked?: boolean; // Locked tracks can't be edited
+  hidden?: boolean; // Hidden tracks aren't drawn in preview or export
+}
+
+// Editor state slices tracked by the undo/redo history
+export interface EditorSnapshot {
+  clips: Clip[];
+  timelineEvents: TimelineEvent[];
+  masterAudio: MasterAudioRef | null;
+  tracks: TimelineTrack[];
+}
+
+// Export configuration (see EXPORT_PRESETS in constants.ts)
+export type ExportContainer = 'mp4' | 'webm';
+export type ExportVideoCodec = 'avc' | 'vp9' | 'vp8';
+export type ExportAudioCodec = 'aac' | 'opus';
+export type ExportAspectRatio = 'source' | '9:16' | '1:1' | '4:5';
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  description?: string;
+  container: ExportContainer;
+  videoCodec: ExportVideoCodec | null; // null = audio-only export
+  resolution: { width: number; height: number } | null; // Bounding box; null = source resolution
+  fps: number;
+  videoBitrate: number; // bits per second
+  audioCodec: ExportAudioCodec;
+  audioBitrate: number; // bits per second
+}
+
+// Caption appearance for burned-in subtitles
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number; // Percent of the output frame height
+  textColor: string;
+  backgroundColor: string; // CSS color; use rgba() for a translucent box, 'transparent' for none
+  position: CaptionPosition;
+  highlightCurrentWord: boolean;
+  highlightColor: string;
+}
+
+// Export audio cleanup and loudness normalisation (see audioProcessingService)
+export interface AudioProcessingSettings {
+  enabled: boolean;
+  highPassHz: number; // Rumble below this frequency is removed; 0 = off
+  noiseGateDb: number | null; // Audio below this level (dBFS) between words is attenuated; null = off
+  compress: boolean; // Evens out loud and quiet passages before normalising
+  targetLufs: number; // Integrated loudness target (EBU R128 measurement)
+  truePeakDb: number; // Limiter ceiling in dBTP
+}
+
+// Measurements taken around the export audio chain
+export interface LoudnessReport {
+  inputLufs: number | null; // null when the mix is silent
+  outputLufs: number | null;
+  targetLufs: number;
+  loudnessRange: number; // LU
+  truePeakDb: number; // dBTP of the exported audio
+  gainDb: number; // Normalisation gain applied
+  limitedPercent: number; // Share of the audio the limiter had to pull down
+}
+
+// Title, description and tags for publishing the video, generated from the polished script
+export interface PublishingMetadata {
+  title: string;
+  description: string; // Without the chapter list, which is appended from the current chapters
+  tags: string[];
+}
+
+// Local (signal-based) dead-air detection
+export interface SilenceDetectionSettings {
+  thresholdDb: number; // Audio below this RMS level (dBFS) counts as silence
+  minDuration: number; // Seconds; shorter gaps are ignored
+  padding: number; // Seconds of silence kept on each side of a cut
+  requireStaticScreen: boolean; // Only flag silence while the screen is also static
+  frameDiffThreshold: number; // Mean per-pixel change (0-1) below which frames count as static
+  frameInterval: number; // Seconds between sampled frames for the visual pass
 }
 
 export interface ElevenLabsVoice {
@@ -62,6 +247,56 @@ export interface ElevenLabsVoice {
   preview_url: string;
 }
 
+// Export choices saved with each sequence, so a reel can stay vertical while the full cut stays 16:9
+export interface SequenceExportSettings {
+  presetId: string;
+  aspectRatio: ExportAspectRatio;
+  captionStyle: CaptionStyle;
+  burnInCaptions: boolean;
+  audioProcessing: AudioProcessingSettings;
+}
+
+// A named version of the project's edit ("Full", "YouTube cut", "Reel"). The one open in the
+// editor is live in the editor state; the others are stored as last saved.
+export interface ProjectSequence {
+  id: string;
+  name: string;
+  clips: Clip[];
+  masterAudio: MasterAudioRef | null;
+  exportSettings: SequenceExportSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// How well a clip would work in a short teaser; scores are 0-10
+export interface HighlightScore {
+  clipId: string;
+  hook: number; // Grabs attention in the first seconds
+  completeness: number; // Makes sense without the surrounding clips
+  visualInterest: number; // Something worth watching happens on screen
+  reason: string;
+}
+
+// A proposed teaser: clips in playback order, optionally opening on a rewritten hook line
+export interface HighlightReelPlan {
+  targetSeconds: number;
+  scores: HighlightScore[];
+  clipIds: string[];
+  hookLines: { clipId: string; text: string }[];
+}
+
+// --- LLM PROVIDERS ---
+
+// Jobs the app sends to a language model; each can be routed to its own provider/model
+export type LLMTask = 'analysis' | 'silence' | 'validation' | 'reframe' | 'polish' | 'publishing' | 'highlights' | 'chat';
+
+export type LLMProviderId = 'gemini' | 'claude' | 'mock';
+
+export interface LLMModelSelection {
+  provider: LLMProviderId;
+  model: string;
+}
+
 export interface AppSettings {
   elevenLabsApiKey: string;
   elevenLabsVoiceId: string;
@@ -72,4 +307,41 @@ export interface AppSettings {
   elevenLabsSpeakerBoost: boolean;
   elevenLabsVolume: number; // 0.0 to 1.0
   elevenLabsSpeed: number; // 0.5 to 2.5
+  llmModels: Record<LLMTask, LLMModelSelection>;
+  pronunciationLexicon: PronunciationEntry[]; // Per project
+  speakers: Speaker[]; // Names and voices for the diarised speakers
+}
+
+export interface Speaker {
+  id: string; // Diarisation label
+  name: string;
+  voiceId: string | null; // ElevenLabs voice; null uses the project voice
+}
+
+// How ElevenLabs should say a term: `alias` is a plain respelling, `phoneme` (IPA) is used by
+// models that support phoneme tags
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  alias: string;
+  phoneme?: string;
+}
+
+// Background AI operations (deep scan, silence detection, polishing, voiceover...)
+export type JobKind = 'deep_analysis' | 'silence_detection' | 'context_validation' | 'polish' | 'master_audio' | 'regenerate_all' | 'voice_clone' | 'chapters' | 'publishing' | 'highlight_reel';
+
+// 'interrupted' = was queued or running when the page went away
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface Job<TCheckpoint = unknown> {
+  id: string;
+  kind: JobKind;
+  label: string;
+  status: JobStatus;
+  progress: number | null; // 0.0 to 1.0, null when indeterminate
+  message: string;
+  error?: string;
+  checkpoint?: TCheckpoint; // Partial results a resumed job can pick up from
+  createdAt: number;
+  updatedAt: number;
 }